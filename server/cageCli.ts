@@ -0,0 +1,272 @@
+// Command-line client for the cage control core (src/core/).
+//
+//   npm run cli -- cage set C12 mode AUTO          mode OFF | MANUAL | SEMI | AUTO
+//   npm run cli -- cage set C12 bowl OUT           also: stir on|off, valve open|closed, program <id>|none
+//   npm run cli -- cage set C12 service out "stirrer broken"     or: service in
+//   npm run cli -- cage status C12
+//   npm run cli -- station 3 status
+//   npm run cli -- group apply --mode OFF --station 2 [--where "level=LOW"]
+//   npm run cli -- stop [--station 2]               emergency stop; reset [--station 2] clears it
+//   npm run cli -- run [--minutes 10]               run the AUTO scheduler
+//
+// Drives simulated station hardware. Cage, program and device state is kept between runs in a
+// JSON file (CAGE_CLI_STATE, default .cage-cli-state.json) holding the same entries the monitor
+// keeps in localStorage.
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { createInitialCages } from "../src/cages";
+import { createSimulatedTransport, createTransportController } from "../src/controller";
+import type { DeviceReport } from "../src/controller";
+import { createCageCore } from "../src/core";
+import type { Actor, CageCore, CoreEvent } from "../src/core";
+import { describeStop } from "../src/emergencyStop";
+import { loadFacilityConfig } from "../src/facility";
+import { planGroupOperation } from "../src/groupOps";
+import type { GroupOperation } from "../src/groupOps";
+import { formatLevel } from "../src/level";
+import { loadCageState, saveCageState } from "../src/persistence";
+import { loadPrograms, programName } from "../src/programs";
+import { matchesQuery, parseSelectionQuery } from "../src/selection";
+import { describeOutOfService } from "../src/service";
+import { MODES } from "../src/types";
+import type { Bowl, Cage, Mode } from "../src/types";
+
+const STATE_FILE = process.env.CAGE_CLI_STATE ?? ".cage-cli-state.json";
+const DEVICES_KEY = "pncl-cage-monitor/cli-devices";
+
+const USAGE = `usage:
+  cage set <cage> mode OFF|MANUAL|SEMI|AUTO
+  cage set <cage> bowl IN|OUT | stir on|off | valve open|closed | program <id>|none
+  cage set <cage> service out "<reason>" | service in
+  cage status <cage>
+  station <n> status
+  group apply (--mode <mode> | --program <id>|none) [--station <n>] [--where "<filter>"]
+  stop [--station <n>] | reset [--station <n>]
+  run [--minutes <n>]`;
+
+/** Bad command line; printed with the usage text. */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+/** localStorage stand-in backed by the state file; written back by `flush`. */
+function createFileStorage(path: string): Storage & { flush(): void } {
+  const items = new Map<string, string>(existsSync(path) ? Object.entries(JSON.parse(readFileSync(path, "utf8")) as Record<string, string>) : []);
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (i) => [...items.keys()][i] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, String(value));
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    clear: () => items.clear(),
+    flush: () => writeFileSync(path, JSON.stringify(Object.fromEntries(items), null, 2)),
+  };
+}
+
+const onOff = (v: boolean) => (v ? "on" : "off");
+
+function describeCage(c: Cage, core: CageCore): string {
+  return [
+    c.name.padEnd(5),
+    `st${c.station}`.padEnd(5),
+    (c.stopped ? "STOPPED" : c.outOfService ? "OOS" : c.mode).padEnd(7),
+    `bowl ${c.bowl}`.padEnd(9),
+    `stir ${onOff(c.stirring)}`.padEnd(9),
+    `valve ${c.valveOpen ? "open" : "closed"}`.padEnd(13),
+    `level ${formatLevel(c.levelPct, c.auto)}`.padEnd(16),
+    c.mode === "AUTO" ? `program ${programName(c.programId, core.programs())}` : "",
+    c.outOfService ? `out of service: ${c.outOfService.reason}` : "",
+    c.stopped ? `${describeStop(c.stopped)}, was ${c.stopped.modeBefore}` : "",
+  ]
+    .join(" ")
+    .trimEnd();
+}
+
+function describeEvent(event: CoreEvent, core: CageCore): string | null {
+  if (event.type === "update") {
+    const { before, after } = event;
+    const parts = [
+      before.mode !== after.mode ? `mode ${before.mode} → ${after.mode}` : "",
+      before.programId !== after.programId ? `program ${programName(before.programId, core.programs())} → ${programName(after.programId, core.programs())}` : "",
+      before.outOfService?.reason !== after.outOfService?.reason ? describeOutOfService(after.outOfService) : "",
+      !before.stopped !== !after.stopped ? (after.stopped ? describeStop(after.stopped) : "E-STOP reset") : "",
+    ].filter(Boolean);
+    return parts.length ? `${before.name}: ${parts.join(", ")}` : null;
+  }
+  if (event.type === "blocked") return `${event.cage.name}: blocked by interlock ${event.rule.id} (${event.rule.description})`;
+  if (event.type === "outOfService") return `${event.cage.name}: out of service (${event.cage.outOfService?.reason}); nothing sent`;
+  if (event.type === "stopped") return `${event.cage.name}: latched by ${describeStop(event.cage.stopped)}; nothing sent`;
+  if (event.type === "commandFailed") return `cage ${event.cageId}: command failed: ${event.error instanceof Error ? event.error.message : String(event.error)}`;
+  if (event.type === "report") {
+    const { last, report } = event;
+    const parts = [
+      last.bowl !== report.bowl ? `bowl ${report.bowl}` : "",
+      last.stirring !== report.stirring ? `stir ${onOff(report.stirring)}` : "",
+      last.valveOpen !== report.valveOpen ? `valve ${report.valveOpen ? "open" : "closed"}` : "",
+    ].filter(Boolean);
+    return parts.length ? `${event.cage.name}: ${parts.join(", ")}` : null;
+  }
+  return null;
+}
+
+function findCage(core: CageCore, name: string | undefined): Cage {
+  const c = name && core.cages().find((cc) => cc.name.toUpperCase() === name.toUpperCase());
+  if (!c) throw new UsageError(`no cage named ${name ?? "(missing)"}`);
+  return c;
+}
+
+function parseMode(value: string | undefined): Mode {
+  const mode = value?.toUpperCase() as Mode;
+  if (!MODES.includes(mode)) throw new UsageError(`mode must be one of ${MODES.join(", ")}`);
+  return mode;
+}
+
+function parseProgram(core: CageCore, value: string | undefined): string | null {
+  if (value === undefined) throw new UsageError("missing program id");
+  if (value === "none") return null;
+  if (!core.programs().some((p) => p.id === value)) throw new UsageError(`no program ${value} (known: ${core.programs().map((p) => p.id).join(", ")})`);
+  return value;
+}
+
+function parseFlags(args: string[]): Map<string, string> {
+  const flags = new Map<string, string>();
+  for (let i = 0; i < args.length; i += 2) {
+    if (!args[i].startsWith("--") || args[i + 1] === undefined) throw new UsageError(`unexpected ${args[i]}`);
+    flags.set(args[i].slice(2), args[i + 1]);
+  }
+  return flags;
+}
+
+async function setCage(core: CageCore, actor: Actor, [name, field, value, ...rest]: string[]) {
+  const reason = rest.join(" ");
+  const c = findCage(core, name);
+  const needsManual = () => {
+    if (c.mode !== "MANUAL") throw new UsageError(`${c.name} is in ${c.mode}; actuators can only be set in MANUAL`);
+  };
+  switch (field) {
+    case "mode":
+      return core.setMode(c.id, parseMode(value), actor);
+    case "bowl": {
+      needsManual();
+      const bowl = value?.toUpperCase() as Bowl;
+      if (bowl !== "IN" && bowl !== "OUT") throw new UsageError("bowl must be IN or OUT");
+      return core.actuate(c.id, { bowl }, actor);
+    }
+    case "stir":
+      needsManual();
+      if (value !== "on" && value !== "off") throw new UsageError("stir must be on or off");
+      return core.actuate(c.id, { stirring: value === "on" }, actor);
+    case "valve":
+      needsManual();
+      if (value !== "open" && value !== "closed") throw new UsageError("valve must be open or closed");
+      return core.actuate(c.id, { valveOpen: value === "open" }, actor);
+    case "program":
+      return core.setProgram(c.id, parseProgram(core, value), actor);
+    case "service":
+      if (value === "in") return core.setOutOfService(c.id, null, actor);
+      if (value !== "out" || !reason?.trim()) throw new UsageError('service must be in, or out "<reason>"');
+      return core.setOutOfService(c.id, reason.trim(), actor);
+    default:
+      throw new UsageError(`cannot set ${field ?? "(missing)"}`);
+  }
+}
+
+async function applyGroup(core: CageCore, actor: Actor, args: string[]) {
+  const flags = parseFlags(args);
+  let operation: GroupOperation;
+  if (flags.has("mode")) operation = { kind: "mode", mode: parseMode(flags.get("mode")) };
+  else if (flags.has("program")) operation = { kind: "program", programId: parseProgram(core, flags.get("program")) };
+  else throw new UsageError("group apply needs --mode or --program");
+  const query = parseSelectionQuery([flags.has("station") ? `station=${flags.get("station")}` : "", flags.get("where") ?? ""].join(" "));
+  if (!query.ok) throw new UsageError(query.error);
+  const selected = core.cages().filter((c) => matchesQuery(c, query.terms));
+  if (!selected.length) throw new UsageError("no cages match");
+  const plan = planGroupOperation(operation, selected, Date.now(), core.programs());
+  console.log(`${plan.label}: ${plan.changes.length} cage(s) change, ${plan.skipped.length} skipped`);
+  plan.skipped.forEach((s) => console.log(`  skipped ${s.cage}: ${s.reason}`));
+  await core.applyPlan(plan, actor);
+}
+
+/** Cages in the `--station` given, or the whole facility. */
+function stopScope(core: CageCore, args: string[]): { ids: number[]; station: number | null } {
+  const flags = parseFlags(args);
+  if (!flags.has("station")) return { ids: core.cages().map((c) => c.id), station: null };
+  const station = Number(flags.get("station"));
+  const ids = core.cages().filter((c) => c.station === station).map((c) => c.id);
+  if (!ids.length) throw new UsageError(`no station ${flags.get("station")}`);
+  return { ids, station };
+}
+
+async function run(core: CageCore, args: string[]) {
+  const minutes = Number(parseFlags(args).get("minutes") ?? 10);
+  if (!(minutes > 0)) throw new UsageError("--minutes must be a positive number");
+  console.log(`Running the AUTO scheduler for ${minutes} min (Ctrl-C to stop early)`);
+  await core.resumeAuto();
+  const stop = core.start();
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, minutes * 60_000);
+    process.once("SIGINT", () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+  stop();
+}
+
+async function main(args: string[]) {
+  const storage = createFileStorage(STATE_FILE);
+  const devices = JSON.parse(storage.getItem(DEVICES_KEY) ?? "[]") as DeviceReport[];
+  const restored = loadCageState(createInitialCages(loadFacilityConfig()), storage);
+  const cages = restored.cages.map((c) => {
+    const d = devices.find((dd) => dd.cageId === c.id);
+    return d ? { ...c, bowl: d.bowl, stirring: d.stirring, valveOpen: d.valveOpen, levelPct: d.levelPct } : c;
+  });
+  const transport = createSimulatedTransport({ cageIds: cages.map((c) => c.id), latencyMs: 0, initial: devices });
+  const core = createCageCore({ cages, controller: createTransportController(transport), programs: loadPrograms(storage) });
+  const actor: Actor = { source: "manual", user: process.env.USER ?? "cli" };
+  core.onEvent((event) => {
+    const line = describeEvent(event, core);
+    if (line) console.log(line);
+    // A refused or failed command still saves everything else, but the run reports failure.
+    if (event.type === "blocked" || event.type === "outOfService" || event.type === "stopped" || event.type === "commandFailed") process.exitCode = 1;
+  });
+  const disconnect = core.connect();
+
+  const [scope, ...rest] = args;
+  if (scope === "cage" && rest[0] === "set") await setCage(core, actor, rest.slice(1));
+  else if (scope === "cage" && rest[0] === "status") console.log(describeCage(findCage(core, rest[1]), core));
+  else if (scope === "station" && rest[1] === "status") {
+    const station = core.cages().filter((c) => c.station === Number(rest[0]));
+    if (!station.length) throw new UsageError(`no station ${rest[0]}`);
+    station.forEach((c) => console.log(describeCage(c, core)));
+  } else if (scope === "group" && rest[0] === "apply") await applyGroup(core, { ...actor, source: "group" }, rest.slice(1));
+  else if (scope === "run") await run(core, rest);
+  else if (scope === "stop") {
+    const { ids, station } = stopScope(core, rest);
+    await core.emergencyStop(ids, { scope: station === null ? "facility" : "station", station }, actor);
+  } else if (scope === "reset") core.resetEmergencyStop(stopScope(core, rest).ids, actor);
+  else throw new UsageError(scope ? `unknown command ${args.join(" ")}` : "no command");
+
+  disconnect();
+  saveCageState(core.cages(), storage);
+  storage.setItem(DEVICES_KEY, JSON.stringify(core.cages().map((c) => transport.peek(c.id)).filter(Boolean)));
+  storage.flush();
+}
+
+main(process.argv.slice(2)).catch((err) => {
+  if (err instanceof UsageError) {
+    console.error(`${err.message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,21 @@
+// Validate src/config/facility.json (or the file given as the first argument) and print the layout.
+//
+//   npm run facility:check [-- path/to/facility.json]
+
+import { readFileSync } from "node:fs";
+import { FacilityConfigError, facilityStations, loadFacilityConfig, parseFacilityConfig } from "../src/facility";
+
+const file = process.argv[2];
+try {
+  const facility = file ? parseFacilityConfig(JSON.parse(readFileSync(file, "utf8"))) : loadFacilityConfig();
+  const stations = facilityStations(facility);
+  const cages = stations.reduce((n, s) => n + s.cages, 0);
+  console.log(`${facility.name}: ${facility.rooms.length} room(s), ${stations.length} station(s), ${cages} cage(s)`);
+  facility.rooms.forEach((r) => {
+    console.log(`  ${r.name} [${r.id}]`);
+    r.stations.forEach((s) => console.log(`    ${s.number}. ${s.name}: ${s.cageNames.join(", ")}`));
+  });
+} catch (err) {
+  console.error(err instanceof FacilityConfigError || err instanceof SyntaxError ? err.message : err);
+  process.exit(1);
+}
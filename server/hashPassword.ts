@@ -0,0 +1,15 @@
+// Print a users.json account entry with a fresh salt and password hash for the local auth stand-in.
+//
+//   npm run users:add -- <username> <password> [viewer|operator|admin] [display name]
+
+import { createHash, randomBytes } from "node:crypto";
+
+const [username, password, role = "operator", name = username] = process.argv.slice(2);
+if (!username || !password || !["viewer", "operator", "admin"].includes(role)) {
+  console.error("usage: npm run users:add -- <username> <password> [viewer|operator|admin] [display name]");
+  process.exit(1);
+}
+const salt = randomBytes(8).toString("hex");
+// Must match hashPassword() in src/auth.ts: SHA-256 of "<salt>:<password>", hex.
+const passwordHash = createHash("sha256").update(`${salt}:${password}`).digest("hex");
+console.log(JSON.stringify({ username, name, role, salt, passwordHash }));
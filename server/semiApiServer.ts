@@ -0,0 +1,151 @@
+// Local SEMI API server.
+//
+//   npm run api:relay       relay HTTP commands to the monitor connected on ws://<host>:<port>/monitor
+//   npm run api:standin     answer commands from an in-process simulated facility (offline script testing)
+//
+// Experiment scripts POST a SemiCommand to /api/v1/commands and receive a SemiResponse.
+
+import { randomUUID } from "node:crypto";
+import { createServer } from "node:http";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { WebSocketServer } from "ws";
+import type { WebSocket } from "ws";
+import { createInitialCages } from "../src/cages";
+import { loadFacilityConfig } from "../src/facility";
+import { createSimulatedTransport, createTransportController } from "../src/controller";
+import { createCageCore } from "../src/core";
+import { handleSemiCommand } from "../src/api/handleSemiCommand";
+import { SEMI_API_VERSION, SEMI_ERROR_HTTP_STATUS, SemiApiError, parseSemiCommand, toErrorResponse } from "../src/api/protocol";
+import type { SemiBridgeRequest, SemiBridgeResponse, SemiCommand, SemiResponse } from "../src/api/protocol";
+import { MODES } from "../src/types";
+import type { Mode } from "../src/types";
+
+const standalone = process.argv.includes("--standalone");
+const port = Number(process.env.SEMI_API_PORT ?? 8787);
+const monitorTimeoutMs = Number(process.env.SEMI_API_TIMEOUT_MS ?? 5000);
+
+// --- standalone stand-in: every cage starts in SEMI so scripts can drive it right away
+const cages = createInitialCages(loadFacilityConfig()).map((c) => ({ ...c, mode: "SEMI" as Mode }));
+const controller = createTransportController(createSimulatedTransport({ cageIds: cages.map((c) => c.id), latencyMs: 20 }));
+const core = createCageCore({ cages, controller });
+core.connect();
+
+// --- relay: forward to the connected monitor and wait for its answer
+let monitor: WebSocket | null = null;
+const pending = new Map<string, (response: SemiResponse) => void>();
+
+function relay(requestId: string, command: SemiCommand): Promise<SemiResponse> {
+  const socket = monitor;
+  if (!socket) return Promise.resolve(toErrorResponse(requestId, new SemiApiError("MONITOR_OFFLINE", "no cage monitor is connected")));
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      pending.delete(requestId);
+      resolve(toErrorResponse(requestId, new SemiApiError("TIMEOUT", `monitor did not answer within ${monitorTimeoutMs} ms`)));
+    }, monitorTimeoutMs);
+    pending.set(requestId, (response) => {
+      clearTimeout(timer);
+      pending.delete(requestId);
+      resolve(response);
+    });
+    const message: SemiBridgeRequest = { type: "command", requestId, command };
+    socket.send(JSON.stringify(message));
+  });
+}
+
+async function dispatch(requestId: string, command: SemiCommand): Promise<SemiResponse> {
+  if (!standalone) return relay(requestId, command);
+  try {
+    return { requestId, ok: true, cage: await handleSemiCommand(command, core, controller) };
+  } catch (err) {
+    return toErrorResponse(requestId, err);
+  }
+}
+
+function readJson(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      try {
+        resolve(body ? JSON.parse(body) : undefined);
+      } catch {
+        reject(new SemiApiError("BAD_REQUEST", "body is not valid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" });
+  res.end(JSON.stringify(body));
+}
+
+function sendResponse(res: ServerResponse, response: SemiResponse) {
+  send(res, response.ok ? 200 : SEMI_ERROR_HTTP_STATUS[response.error.code], response);
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const requestId = String(req.headers["x-request-id"] ?? randomUUID());
+
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, { "Access-Control-Allow-Origin": "*", "Access-Control-Allow-Headers": "Content-Type, X-Request-Id", "Access-Control-Allow-Methods": "GET, POST, PUT" });
+    return res.end();
+  }
+  if (req.method === "GET" && url.pathname === "/api/v1/health") {
+    return send(res, 200, { version: SEMI_API_VERSION, mode: standalone ? "standalone" : "relay", monitorConnected: standalone || monitor !== null });
+  }
+  if (req.method === "POST" && url.pathname === "/api/v1/commands") {
+    try {
+      const command = parseSemiCommand(await readJson(req));
+      return sendResponse(res, await dispatch(requestId, command));
+    } catch (err) {
+      return sendResponse(res, toErrorResponse(requestId, err));
+    }
+  }
+  // Stand-in only: lets scripts put cages in/out of SEMI to exercise NOT_IN_SEMI rejections.
+  const modeRoute = url.pathname.match(/^\/api\/v1\/standin\/cages\/([^/]+)\/mode$/);
+  if (standalone && req.method === "PUT" && modeRoute) {
+    const cage = core.cages().find((c) => c.name.toUpperCase() === decodeURIComponent(modeRoute[1]).toUpperCase());
+    if (!cage) return sendResponse(res, toErrorResponse(requestId, new SemiApiError("UNKNOWN_CAGE", `no cage named ${modeRoute[1]}`)));
+    try {
+      const body = (await readJson(req)) as { mode?: unknown } | undefined;
+      if (!MODES.includes(body?.mode as Mode)) throw new SemiApiError("BAD_REQUEST", `mode must be one of ${MODES.join(", ")}`);
+      const mode = body!.mode as Mode;
+      core.setCages((prev) => prev.map((c) => (c.id === cage.id ? { ...c, mode } : c)));
+      return send(res, 200, { name: cage.name, mode });
+    } catch (err) {
+      return sendResponse(res, toErrorResponse(requestId, err));
+    }
+  }
+  send(res, 404, { error: { code: "NOT_FOUND", message: `${req.method} ${url.pathname}` } });
+});
+
+if (!standalone) {
+  const wss = new WebSocketServer({ server, path: "/monitor" });
+  wss.on("connection", (socket) => {
+    monitor?.close(1000, "replaced by a newer monitor connection");
+    monitor = socket;
+    console.log("monitor connected");
+    socket.on("message", (data) => {
+      let message: SemiBridgeResponse;
+      try {
+        message = JSON.parse(String(data));
+      } catch {
+        return;
+      }
+      if (message?.type === "response") pending.get(message.response.requestId)?.(message.response);
+    });
+    socket.on("close", () => {
+      if (monitor !== socket) return;
+      monitor = null;
+      console.log("monitor disconnected");
+    });
+  });
+}
+
+server.listen(port, () => {
+  console.log(`SEMI API v${SEMI_API_VERSION} (${standalone ? "standalone stand-in" : "relay"}) on http://localhost:${port}/api/v1`);
+});
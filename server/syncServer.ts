@@ -0,0 +1,71 @@
+// Local multi-screen sync server.
+//
+//   npm run sync:server     every monitor started with VITE_SYNC_URL=ws://<host>:8788/sync shares cage state
+//
+// Holds the versioned operator-owned state of each cage in memory. The first screen to connect
+// seeds it; after that every accepted write is pushed to all screens, and a write based on an
+// older version is refused with a conflict so a stale screen cannot overwrite newer state.
+
+import { createServer } from "node:http";
+import { WebSocketServer } from "ws";
+import type { WebSocket } from "ws";
+import { SYNC_PROTOCOL_VERSION } from "../src/sync/protocol";
+import type { SyncClientMessage, SyncServerMessage } from "../src/sync/protocol";
+import { createVersionStore } from "../src/sync/versionStore";
+
+const port = Number(process.env.SYNC_PORT ?? 8788);
+
+const store = createVersionStore();
+const clients = new Set<WebSocket>();
+
+function send(socket: WebSocket, message: SyncServerMessage) {
+  socket.send(JSON.stringify(message));
+}
+
+function handle(socket: WebSocket, message: SyncClientMessage) {
+  if (message.type === "hello") {
+    if (message.protocol !== SYNC_PROTOCOL_VERSION) return socket.close(1002, `sync protocol ${SYNC_PROTOCOL_VERSION} required`);
+    message.cages.forEach((c) => store.seed(c.cageId, c.state, message.user, Date.now()));
+    return send(socket, { type: "snapshot", cages: store.snapshot() });
+  }
+  const { write } = message;
+  const result = store.write(write);
+  if (!result.ok) {
+    console.log(`conflict: cage ${write.cageId} by ${write.updatedBy} (based on v${write.baseVersion}, now v${result.current.version})`);
+    return send(socket, { type: "conflict", writeId: write.writeId, current: result.current, attempted: write.state });
+  }
+  send(socket, { type: "update", cage: result.cage, writeId: write.writeId });
+  if (!result.changed) return;
+  clients.forEach((other) => other !== socket && send(other, { type: "update", cage: result.cage }));
+}
+
+const server = createServer((req, res) => {
+  if (req.method === "GET" && req.url === "/health") {
+    res.writeHead(200, { "Content-Type": "application/json", "Access-Control-Allow-Origin": "*" });
+    return res.end(JSON.stringify({ version: SYNC_PROTOCOL_VERSION, clients: clients.size, cages: store.snapshot().length }));
+  }
+  res.writeHead(404).end();
+});
+
+const wss = new WebSocketServer({ server, path: "/sync" });
+wss.on("connection", (socket) => {
+  clients.add(socket);
+  console.log(`screen connected (${clients.size} open)`);
+  socket.on("message", (data) => {
+    let message: SyncClientMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+    if (message?.type === "hello" || (message?.type === "write" && typeof message.write?.cageId === "number")) handle(socket, message);
+  });
+  socket.on("close", () => {
+    clients.delete(socket);
+    console.log(`screen disconnected (${clients.size} open)`);
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Cage sync server v${SYNC_PROTOCOL_VERSION} on ws://localhost:${port}/sync`);
+});
@@ -2,155 +2,445 @@
 // Update 2025-08-21b: Further compaction. Smaller cards, tighter spacing, fixed heights,
 // cleaned AUTO layout (no descriptive text), and MANUAL switches converted to single toggles.
 
-import { useMemo, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { connectSemiBridge, handleSemiCommand } from "./api";
+import type { SemiBridgeStatus } from "./api";
+import { createAuditLog, describeAutoSettings, formatAuditValue } from "./auditLog";
+import { ROLE_LABELS, can } from "./auth";
+import type { User } from "./auth";
+import type { AuditField, EventSource } from "./auditLog";
+import { evaluateAlarms, isOpen, loadAlarms, saveAlarms, worstSeverity } from "./alarms";
+import type { Alarm, AlarmConfig, AlarmSeverity, ConditionTimers } from "./alarms";
+import AlarmPanel from "./components/AlarmPanel";
+import AuditLogPanel from "./components/AuditLogPanel";
+import CageHistoryPanel from "./components/CageHistoryPanel";
+import CageServiceDialog from "./components/CageServiceDialog";
+import DailyReportPanel from "./components/DailyReportPanel";
+import EmergencyStopBanner from "./components/EmergencyStopBanner";
+import GroupPreviewDialog from "./components/GroupPreviewDialog";
+import IntakeEntryDialog from "./components/IntakeEntryDialog";
+import IntakePanel from "./components/IntakePanel";
+import ProgramEditor from "./components/ProgramEditor";
+import SimulationBanner from "./components/SimulationBanner";
+import StudyEditor from "./components/StudyEditor";
+import { buildConfigFile, configFileName, describeMerge, mergeLibrary, parseConfigFile } from "./configFile";
+import { createCageCore, systemClock } from "./core";
+import type { Actor, CoreEvent, RefusedRequest } from "./core";
+import { confirmReport, describeCommand, failCommand, markPending, settleCommand } from "./commandTracking";
+import type { CageCommands, CommandBook, FieldCommand } from "./commandTracking";
+import { DEFAULT_COMMAND_POLICY, createSimulatedTransport, createTransportController } from "./controller";
+import { describeStop, stopGroups } from "./emergencyStop";
+import type { Actuators, CageController, CommandPolicy, ConnectionStatus, DeviceReport } from "./controller";
+import { DEFAULT_AUTO_SETTINGS, createInitialCages } from "./cages";
+import { AUTO_EXIT_MODE, SCHEDULER_TICK_MS, planForCage } from "./scheduler";
+import { downloadFile } from "./exportFile";
+import { GROUP_UNDO_WINDOW_MS, manualTarget, planGroupOperation, snapshotCage } from "./groupOps";
+import type { GroupOperation, GroupPlan, GroupUndo, ManualAction } from "./groupOps";
+import { createLevelHistory } from "./history";
+import { createIntakeLog, describeIntakeRecord } from "./intake";
+import type { IntakeRecord, NewIntakeRecord } from "./intake";
+import { checkInterlocks, describeTarget } from "./interlocks";
+import type { FacilityConfig, RoomConfig, StationConfig } from "./facility";
+import { clampPct, formatLevel, levelStatus } from "./level";
+import { loadCageState, saveCageState } from "./persistence";
+import { loadPresets, presetFromCage, savePresets, validatePreset } from "./presets";
+import { loadPrograms, programName, savePrograms } from "./programs";
+import type { RestoreIssue } from "./persistence";
+import { QUICK_SELECTS, matchesQuery, parseSelectionQuery, rangeIds } from "./selection";
+import type { SelectionTerm } from "./selection";
+import { describeCalibration, describeOutOfService, loadCalibrations, runCalibration, saveCalibrations } from "./service";
+import type { ValveCalibration, ValveCalibrations } from "./service";
+import { simulationStepMs } from "./simulation";
+import type { Simulation } from "./simulation";
+import { applySyncedState, connectSync, createSyncTracker, describeConflict, syncedState } from "./sync";
+import type { SyncConflict, SyncConnection, SyncStatus, VersionedCageState } from "./sync";
+import { assignTreatmentColors, describeStudy, listStudies, listTreatments, loadTreatmentColors, matchesStudyFilter, saveTreatmentColors, treatmentColor } from "./study";
+import type { TreatmentColors } from "./study";
+import { MODES } from "./types";
+import type { AutoPreset, AutoSettings, Cage, FeedingProgram, Mode, StudyAssignment } from "./types";
 
-const MODES = ["OFF", "MANUAL", "SEMI", "AUTO"] as const;
-type Mode = typeof MODES[number];
+type StudyFilter = { studyId: string; treatment: string };
 
-type Bowl = "IN" | "OUT";
-type Level = "OK" | "LOW";
+/** A change on this screen that another screen overtook. */
+type SyncNotice = { key: string; cage: string; summary: string; by: string; at: number };
 
-type AutoSettings = {
-  stirEveryMin: number;
-  stirDurationSec: number;
-  autoExitEnabled: boolean;
-  autoExitTime: string; // HH:MM 24h
-};
 
-type Cage = {
-  id: number; // 0..47
-  station: number; // 1..8
-  cageNumber: number; // 1..6 in station
-  name: string; // C1..C48
-  mode: Mode;
-  bowl: Bowl;
-  stirring: boolean;
-  valveOpen: boolean;
-  level: Level; // display-only here
-  selected: boolean;
-  auto: AutoSettings;
+const REPORTED_FIELDS = ["bowl", "stirring", "valveOpen"] as const;
+
+const SEMI_API_URL = import.meta.env.VITE_SEMI_API_URL;
+const SYNC_URL = import.meta.env.VITE_SYNC_URL;
+
+/** Non-negative number from an env setting, or the fallback when unset or malformed. */
+function envNumber(raw: string | undefined, fallback: number): number {
+  const n = Number(raw);
+  return raw !== undefined && raw !== "" && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+const COMMAND_POLICY: CommandPolicy = {
+  ...DEFAULT_COMMAND_POLICY,
+  timeoutMs: envNumber(import.meta.env.VITE_COMMAND_TIMEOUT_MS, DEFAULT_COMMAND_POLICY.timeoutMs),
+  retries: Math.floor(envNumber(import.meta.env.VITE_COMMAND_RETRIES, DEFAULT_COMMAND_POLICY.retries)),
 };
 
-function createInitialCages(): Cage[] {
-  const out: Cage[] = [];
-  let id = 0;
-  for (let s = 1; s <= 8; s++) {
-    for (let c = 1; c <= 6; c++) {
-      out.push({
-        id,
-        station: s,
-        cageNumber: c,
-        name: `C${id + 1}`,
-        mode: "OFF",
-        bowl: "IN",
-        stirring: false,
-        valveOpen: false,
-        level: "OK",
-        selected: false,
-        auto: { stirEveryMin: 15, stirDurationSec: 10, autoExitEnabled: false, autoExitTime: "06:00" },
-      });
-      id++;
-    }
-  }
-  return out;
+function createSimulatedController(cageIds: number[]): CageController {
+  return createTransportController(createSimulatedTransport({ cageIds }), COMMAND_POLICY);
 }
 
-export default function CageMonitorApp() {
-  const [cages, setCages] = useState<Cage[]>(createInitialCages);
+// A blocked request that keeps being retried (e.g. the AUTO valve with the bowl OUT) is logged once per window.
+const INTERLOCK_LOG_WINDOW_MS = 10 * 60_000;
+
+/** Account name recorded for an action: the signed-in user for UI actions, fixed names for automation. */
+function actorName(source: EventSource, user: User): string {
+  if (source === "auto") return "system";
+  if (source === "api") return "api";
+  return source === "device" ? "" : user.username;
+}
+
+export default function CageMonitorApp({
+  facility,
+  user,
+  onLogout,
+  controller: externalController,
+  simulation,
+}: {
+  facility: FacilityConfig;
+  user: User;
+  onLogout: () => void;
+  controller?: CageController;
+  /** Simulation mode: virtual clock, feed model and storage kept apart from live data. */
+  simulation?: Simulation;
+}) {
+  const canOperate = can(user, "operate");
+  // All scheduling, alarm and audit timestamps come from this clock (virtual in simulation mode).
+  const clock = simulation?.clock ?? systemClock;
+  const storage = simulation?.storage ?? localStorage;
+  const [restored] = useState(() => loadCageState(createInitialCages(facility), storage));
+  const [restoreIssues, setRestoreIssues] = useState(restored.issues);
+  const [controller] = useState(() => simulation?.controller ?? externalController ?? createSimulatedController(restored.cages.map((c) => c.id)));
+  const [auditLog] = useState(() => createAuditLog({ dbName: simulation?.dbName, now: clock.now }));
+  const [showLog, setShowLog] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [levelHistory] = useState(() => createLevelHistory(simulation?.dbName, clock.now));
+  const [historyCageId, setHistoryCageId] = useState<number | null>(null);
+  const [serviceCageId, setServiceCageId] = useState<number | null>(null);
+  const [intakeLog] = useState(() => createIntakeLog({ dbName: simulation?.dbName, now: clock.now }));
+  const [intakeCageId, setIntakeCageId] = useState<number | null>(null);
+  const [showIntake, setShowIntake] = useState(false);
+  const [calibrations, setCalibrations] = useState<ValveCalibrations>(() => loadCalibrations(storage));
+  const [storedAlarms] = useState(() => loadAlarms(storage));
+  const [alarms, setAlarms] = useState<Alarm[]>(storedAlarms.alarms);
+  const [alarmConfig, setAlarmConfig] = useState<AlarmConfig>(storedAlarms.config);
+  const [showAlarms, setShowAlarms] = useState(false);
+  const [storedPrograms] = useState(() => loadPrograms(storage));
+  const [programs, setPrograms] = useState<FeedingProgram[]>(storedPrograms);
+  // Mode transitions, actuation and the AUTO scheduler live in the core (src/core/); this component
+  // mirrors its cage table and turns its events into audit entries and command tracking.
+  const [core] = useState(() => createCageCore({ cages: restored.cages, controller, programs: storedPrograms, clock }));
+  const [cages, setCageTable] = useState<Cage[]>(() => core.cages());
+  const setCages = core.setCages;
+  const [showPrograms, setShowPrograms] = useState(false);
+  const [presets, setPresets] = useState<AutoPreset[]>(() => loadPresets(storage));
+  const [importErrors, setImportErrors] = useState<{ source: string; errors: string[] } | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+  const alarmTimers = useRef<ConditionTimers>(new Map());
+
+  const [now, setNow] = useState(() => clock.now());
+  // Real time for UI timeouts (group undo) that should not speed up with the simulation.
+  const [wallNow, setWallNow] = useState(() => Date.now());
+  const [simSpeed, setSimSpeed] = useState(() => simulation?.clock.speed() ?? 1);
+  const schedulerTick = useRef<(now: number) => void>(() => {});
+  // Who commanded each actuator field, for the audit log.
+  const commandSource = useRef<Map<string, Actor>>(new Map());
+  const interlockLogged = useRef<Map<string, number>>(new Map());
+  const [commands, setCommands] = useState<CommandBook>(() => new Map());
+  const [connection, setConnection] = useState<ConnectionStatus>(() => controller.connection());
+  useEffect(() => controller.onConnectionChange(setConnection), [controller]);
+
+  useEffect(() => core.subscribe(setCageTable), [core]);
+  useEffect(() => core.connect(), [core]);
+  useEffect(() => core.setPrograms(programs), [core, programs]);
+  const coreEvent = useRef<(event: CoreEvent) => void>(() => {});
+  useEffect(() => core.onEvent((event) => coreEvent.current(event)), [core]);
+  useEffect(() => {
+    coreEvent.current = (event) => {
+      if (event.type === "update") {
+        const { before: c, after: next, actor } = event;
+        const library = core.programs();
+        record(c, actor, "mode", c.mode, next.mode);
+        record(c, actor, "auto", describeAutoSettings(c.auto), describeAutoSettings(next.auto));
+        record(c, actor, "program", programName(c.programId, library), programName(next.programId, library));
+        record(c, actor, "study", describeStudy(c.study), describeStudy(next.study));
+        record(c, actor, "service", describeOutOfService(c.outOfService), describeOutOfService(next.outOfService));
+        record(c, actor, "estop", describeStop(c.stopped), describeStop(next.stopped));
+      } else if (event.type === "command") {
+        (Object.keys(event.target) as (keyof Actuators)[]).forEach((f) => commandSource.current.set(`${event.cageId}:${f}`, event.actor));
+        setCommands((book) => markPending(book, event.cageId, event.target, event.sentAt));
+      } else if (event.type === "commandDone") {
+        setCommands((book) => settleCommand(book, event.cageId, event.sentAt, event.report));
+      } else if (event.type === "commandFailed") {
+        console.error(event.error);
+        setCommands((book) => failCommand(book, event.cageId, event.sentAt, event.error));
+      } else if (event.type === "blocked") {
+        recordRefused(event.cage, event.actor, event.requested, `${event.rule.id}: ${event.rule.description}`);
+      } else if (event.type === "outOfService") {
+        recordRefused(event.cage, event.actor, event.requested, `OUT_OF_SERVICE: ${describeOutOfService(event.cage.outOfService)}`);
+      } else if (event.type === "stopped") {
+        recordRefused(event.cage, event.actor, event.requested, `EMERGENCY_STOP: latched by ${describeStop(event.cage.stopped)}`);
+      } else if (event.type === "report") {
+        recordReport(event.cage, event.last, event.report);
+      }
+    };
+  });
+
+  useEffect(() => saveCageState(cages, storage), [cages, storage]);
+  useEffect(() => saveAlarms({ config: alarmConfig, alarms }, storage), [alarmConfig, alarms, storage]);
+  useEffect(() => savePrograms(programs, storage), [programs, storage]);
+  useEffect(() => savePresets(presets, storage), [presets, storage]);
+  useEffect(() => saveCalibrations(calibrations, storage), [calibrations, storage]);
+
+  // Resume restored AUTO cages: the scheduler picks the stir cycle and level-driven valve back up
+  // on its next tick; the bowl position the plan asks for has to be re-asserted here.
+  useEffect(() => {
+    core.resumeAuto();
+  }, [core]);
+
+  // External programs drive SEMI cages through the relay server (see server/semiApiServer.ts).
+  const [apiStatus, setApiStatus] = useState<SemiBridgeStatus>("disconnected");
+  useEffect(() => {
+    if (!SEMI_API_URL) return;
+    return connectSemiBridge({
+      url: SEMI_API_URL,
+      // Through the core like every other command: tracked, audited and stopped by an E-STOP.
+      onCommand: (command) => handleSemiCommand(command, core, controller),
+      onStatus: setApiStatus,
+    });
+  }, [core, controller]);
 
-  const autoIntervals = useRef<Map<number, any>>(new Map());
-  const autoTimeouts = useRef<Map<number, any>>(new Map());
+  // Other screens share cage state through the sync server (see server/syncServer.ts). Simulation
+  // mode stays local. Changes made here are sent as versioned writes from the effect below.
+  const syncUrl = simulation ? undefined : SYNC_URL;
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>("disconnected");
+  const [syncTracker] = useState(createSyncTracker);
+  const syncConnection = useRef<SyncConnection | null>(null);
+  const [syncNotices, setSyncNotices] = useState<SyncNotice[]>([]);
+  useEffect(() => {
+    if (!syncUrl) return;
+    function sendChanges(all: Cage[]) {
+      syncTracker.changes(all, user.username, clock.now()).forEach((w) => connection.send(w));
+    }
+    // Also sends what is still pending: offline edits, edits made while a write was in flight.
+    function receive(apply: VersionedCageState[], conflicts: SyncConflict[]) {
+      if (apply.length) {
+        core.setCages((all) =>
+          all.map((c) => {
+            const next = apply.find((s) => s.cageId === c.id);
+            return next ? applySyncedState(c, next.state) : c;
+          })
+        );
+      }
+      sendChanges(core.cages());
+      if (!conflicts.length) return;
+      const names = new Map(core.cages().map((c) => [c.id, c.name]));
+      setSyncNotices((prev) => [
+        ...prev,
+        ...conflicts.map((k) => ({
+          key: `${k.cageId}:${k.current.version}`,
+          cage: names.get(k.cageId) ?? `#${k.cageId}`,
+          summary: describeConflict(k.attempted, k.current.state),
+          by: k.current.updatedBy,
+          at: k.current.updatedAt,
+        })),
+      ]);
+    }
+    const connection = connectSync({
+      url: syncUrl,
+      user: user.username,
+      localState: () => core.cages().map((c) => ({ cageId: c.id, state: syncedState(c) })),
+      onMessage: (message) => {
+        if (message.type === "snapshot") {
+          const { apply, conflicts } = syncTracker.reconcile(message.cages, core.cages());
+          receive(apply, conflicts);
+        } else if (message.type === "update") {
+          syncTracker.accept(message.cage, message.writeId);
+          receive(message.writeId ? [] : [message.cage], []);
+        } else {
+          const write = syncTracker.accept(message.current, message.writeId);
+          receive([message.current], [{ cageId: message.current.cageId, attempted: write?.state ?? message.attempted, current: message.current }]);
+        }
+      },
+      onStatus: (status) => {
+        if (status !== "connected") syncTracker.disconnected();
+        setSyncStatus(status);
+      },
+    });
+    syncConnection.current = connection;
+    return () => {
+      syncConnection.current = null;
+      connection.close();
+    };
+  }, [core, syncUrl, syncTracker, user.username, clock]);
+  useEffect(() => {
+    const connection = syncConnection.current;
+    if (connection) syncTracker.changes(cages, user.username, clock.now()).forEach((w) => connection.send(w));
+  }, [cages, syncTracker, user.username, clock]);
 
   function updateCage(id: number, updater: (c: Cage) => Cage) {
     setCages((prev) => prev.map((c) => (c.id === id ? updater({ ...c }) : c)));
   }
-  function updateMany(ids: number[], updater: (c: Cage) => Cage) {
-    setCages((prev) => prev.map((c) => (ids.includes(c.id) ? updater({ ...c }) : c)));
+  function findCage(id: number) {
+    return cages.find((c) => c.id === id);
   }
 
-  function clearAutoTimers(id: number) {
-    const i = autoIntervals.current.get(id);
-    if (i) clearInterval(i);
-    autoIntervals.current.delete(id);
-    const t = autoTimeouts.current.get(id);
-    if (t) clearTimeout(t);
-    autoTimeouts.current.delete(id);
+  function actor(source: EventSource): Actor {
+    return { source, user: actorName(source, user) };
   }
-
-  function autoAdjustValveByLevel(c: Cage): boolean {
-    return c.level === "LOW";
+  function record(c: Cage, { source, user }: Actor, field: AuditField, before: string, after: string) {
+    if (before !== after) auditLog.append({ cageId: c.id, cage: c.name, station: c.station, source, user, field, before, after });
   }
 
-  function startAutoSchedule(c: Cage) {
-    clearAutoTimers(c.id);
-    updateCage(c.id, (cc) => ({ ...cc, stirring: true }));
-    const t = setTimeout(() => updateCage(c.id, (cc) => ({ ...cc, stirring: false })), 30_000);
-    autoTimeouts.current.set(c.id, t);
+  // Interlock rejections and refusals on held or latched cages; repeats within the window are logged once.
+  function recordRefused(c: Cage, { source, user }: Actor, requested: RefusedRequest, reason: string) {
+    const before = describeTarget(requested);
+    const key = `${c.id}:${source}:${reason}:${before}`;
+    const at = clock.now();
+    if (at - (interlockLogged.current.get(key) ?? -Infinity) < INTERLOCK_LOG_WINDOW_MS) return;
+    interlockLogged.current.set(key, at);
+    auditLog.append({ cageId: c.id, cage: c.name, station: c.station, source, user, field: "interlock", before, after: reason });
+  }
 
-    const minutes = Math.max(0, c.auto.stirEveryMin);
-    const durSec = Math.max(0, c.auto.stirDurationSec);
-    if (minutes > 0 && durSec > 0) {
-      const i = setInterval(() => {
-        updateCage(c.id, (cc) => ({ ...cc, stirring: true }));
-        const to = setTimeout(() => updateCage(c.id, (cc) => ({ ...cc, stirring: false })), durSec * 1000);
-        const old = autoTimeouts.current.get(c.id);
-        if (old) clearTimeout(old);
-        autoTimeouts.current.set(c.id, to);
-      }, minutes * 60 * 1000);
-      autoIntervals.current.set(c.id, i);
+  function recordReport(cage: Cage, last: DeviceReport, report: DeviceReport) {
+    setCommands((book) => confirmReport(book, report));
+    REPORTED_FIELDS.forEach((field) => {
+      if (last[field] === report[field]) return;
+      const { source, user } = commandSource.current.get(`${cage.id}:${field}`) ?? { source: "device", user: "" };
+      auditLog.append({ cageId: cage.id, cage: cage.name, station: cage.station, source, user, field, before: formatAuditValue(last[field]), after: formatAuditValue(report[field]) });
+    });
+    // Level is continuous telemetry; only LOW/OK crossings go into the audit log.
+    if (levelStatus(last.levelPct, cage.auto) !== levelStatus(report.levelPct, cage.auto)) {
+      auditLog.append({
+        cageId: cage.id,
+        cage: cage.name,
+        station: cage.station,
+        source: "device",
+        user: "",
+        field: "level",
+        before: formatLevel(last.levelPct, cage.auto),
+        after: formatLevel(report.levelPct, cage.auto),
+      });
     }
   }
 
-  function applyMode(id: number, mode: Mode) {
-    updateCage(id, (c) => {
-      if (c.mode === "AUTO" && mode !== "AUTO") clearAutoTimers(id);
-      let next: Cage = { ...c, mode };
-      if (mode === "OFF") next = { ...next, bowl: "IN", stirring: false, valveOpen: false };
-      if (mode === "MANUAL") next = { ...next, bowl: "OUT", stirring: false, valveOpen: false };
-      if (mode === "SEMI") next = { ...next, bowl: "IN", stirring: false, valveOpen: false };
-      if (mode === "AUTO") {
-        next = { ...next, bowl: "IN", stirring: true, valveOpen: autoAdjustValveByLevel(c) };
-        setTimeout(() => startAutoSchedule({ ...next }), 0);
-      }
-      return next;
-    });
+  function runAlarmEngine(at: number) {
+    const next = evaluateAlarms(alarms, cages, alarmTimers.current, alarmConfig, at, programs);
+    if (next !== alarms) setAlarms(next);
+  }
+  function acknowledgeAlarm(id: string) {
+    if (!canOperate) return;
+    setAlarms((prev) => prev.map((a) => (a.id === id && a.acknowledgedAt === null ? { ...a, acknowledgedAt: clock.now(), acknowledgedBy: user.username } : a)));
+  }
+  function clearAlarm(id: string) {
+    if (!canOperate) return;
+    setAlarms((prev) => prev.map((a) => (a.id === id && a.resolvedAt !== null ? { ...a, clearedAt: clock.now(), clearedBy: user.username } : a)));
   }
 
+  useEffect(() => {
+    schedulerTick.current = (at) => {
+      core.tick(at);
+      runAlarmEngine(at);
+      cages.forEach((c) => levelHistory.observe(c.id, c.levelPct, at));
+    };
+  });
+  // Live: one tick per second of real time. Simulation: one tick per virtual step, which is never
+  // longer than the shortest stir window of an AUTO cage, at any speed.
+  useEffect(() => {
+    function onTick(at: number) {
+      setNow(at);
+      setWallNow(Date.now());
+      schedulerTick.current(at);
+    }
+    if (simulation) return simulation.start(onTick, () => simulationStepMs(core.cages(), core.programs()));
+    const t = setInterval(() => onTick(clock.now()), SCHEDULER_TICK_MS);
+    return () => clearInterval(t);
+  }, [clock, core, simulation]);
+
+  // UI entry points check the signed-in role; AUTO and API actions do not depend on who is signed in.
+  function applyMode(id: number, mode: Mode, source: EventSource = "manual") {
+    if (source !== "auto" && !canOperate) return;
+    core.setMode(id, mode, actor(source));
+  }
+
+  function manualToggle(id: number, action: ManualAction) {
+    const c = findCage(id);
+    if (c && canOperate) core.actuate(id, manualTarget(c, action), actor("manual"));
+  }
   function toggleBowl(id: number) {
-    updateCage(id, (c) => {
-      const to: Bowl = c.bowl === "IN" ? "OUT" : "IN";
-      const next = { ...c, bowl: to };
-      if (to === "OUT") next.valveOpen = false; // interlock
-      return next;
-    });
+    manualToggle(id, "BOWL");
   }
   function toggleStir(id: number) {
-    updateCage(id, (c) => ({ ...c, stirring: !c.stirring }));
+    manualToggle(id, "STIR");
   }
   function toggleValve(id: number) {
-    updateCage(id, (c) => {
-      if (c.bowl !== "IN" && !c.valveOpen) return c; // cannot open if bowl OUT
-      return { ...c, valveOpen: !c.valveOpen };
-    });
+    manualToggle(id, "VALVE");
+  }
+
+  // Shift-click selects from the last clicked cage to this one, in grid order across stations.
+  const selectionAnchor = useRef<number | null>(null);
+  function toggleSelected(id: number, extend = false) {
+    const c = findCage(id);
+    const anchor = selectionAnchor.current;
+    selectionAnchor.current = id;
+    if (!c) return;
+    if (!extend || anchor === null) {
+      updateCage(id, (cc) => ({ ...cc, selected: !cc.selected }));
+      return;
+    }
+    const order = room.stations.flatMap((s) => (stations[s.number] ?? []).map((cc) => cc.id));
+    const ids = new Set(rangeIds(order, anchor, id));
+    setCages((prev) => prev.map((cc) => (ids.has(cc.id) ? { ...cc, selected: !c.selected } : cc)));
   }
 
-  function toggleSelected(id: number) {
-    updateCage(id, (c) => ({ ...c, selected: !c.selected }));
+  function setAutoSettings(id: number, patch: Partial<AutoSettings>) {
+    if (canOperate) core.setAutoSettings(id, patch, actor("manual"));
   }
 
-  function setLevel(id: number, level: Level) {
-    updateCage(id, (c) => {
-      const next = { ...c, level };
-      if (c.mode === "AUTO") next.valveOpen = autoAdjustValveByLevel(next);
-      return next;
-    });
+  function setOutOfService(id: number, reason: string | null) {
+    if (canOperate) core.setOutOfService(id, reason, actor("manual"));
   }
-  function setAutoSettings(id: number, patch: Partial<AutoSettings>) {
-    updateCage(id, (c) => {
-      const next = { ...c, auto: { ...c.auto, ...patch } };
-      if (c.mode === "AUTO") setTimeout(() => startAutoSchedule(next), 0);
-      return next;
-    });
+  // Anyone signed in may stop the cages; only operators may reset a stop.
+  function emergencyStop(station: number | null) {
+    const ids = core.cages().filter((c) => station === null || c.station === station).map((c) => c.id);
+    core.emergencyStop(ids, { scope: station === null ? "facility" : "station", station }, actor("manual"));
+  }
+  function resetEmergencyStop(ids: number[]) {
+    if (canOperate) core.resetEmergencyStop(ids, actor("manual"));
+  }
+  function saveCalibration(c: Cage, calibration: ValveCalibration) {
+    if (!canOperate) return;
+    record(c, actor("manual"), "calibration", describeCalibration(calibrations[c.name]), describeCalibration(calibration));
+    setCalibrations((prev) => ({ ...prev, [c.name]: calibration }));
+  }
+
+  async function addIntakeRecords(c: Cage, records: NewIntakeRecord[]) {
+    if (!canOperate) return;
+    for (const r of records) {
+      await intakeLog.add(r);
+      record(c, actor("manual"), "intake", "", describeIntakeRecord(r));
+    }
+  }
+  async function removeIntakeRecord(c: Cage, r: IntakeRecord) {
+    if (!canOperate) return;
+    await intakeLog.remove(r.seq);
+    record(c, actor("manual"), "intake", `${describeIntakeRecord(r)} at ${new Date(r.at).toLocaleString()}`, "deleted");
+  }
+
+  function setProgram(id: number, programId: string | null, source: EventSource = "manual") {
+    if (canOperate) core.setProgram(id, programId, actor(source));
+  }
+  // Cages whose program was deleted from the library fall back to their fixed interval.
+  function saveProgramLibrary(next: FeedingProgram[]) {
+    if (!can(user, "editPrograms")) return;
+    cages.filter((c) => c.programId !== null && !next.some((p) => p.id === c.programId)).forEach((c) => setProgram(c.id, null));
+    setPrograms(next);
   }
 
   const stations = useMemo(() => {
@@ -163,82 +453,371 @@ export default function CageMonitorApp() {
     return m;
   }, [cages]);
 
+  const [roomId, setRoomId] = useState(facility.rooms[0].id);
+  const room: RoomConfig = facility.rooms.find((r) => r.id === roomId) ?? facility.rooms[0];
+  const roomCageCount = cages.filter((c) => c.room === room.id).length;
+
+  const openAlarms = alarms.filter(isOpen);
+  const unacknowledged = openAlarms.filter((a) => a.acknowledgedAt === null);
+  const stopped = stopGroups(cages);
+
   const selectedIds = cages.filter((c) => c.selected).map((c) => c.id);
   const selectedCages = cages.filter((c) => c.selected);
   const allSelectedSameMode = selectedCages.length > 0 && selectedCages.every((c) => c.mode === selectedCages[0].mode);
 
   const [groupMode, setGroupMode] = useState<Mode>("OFF");
-  const [groupAuto, setGroupAuto] = useState<AutoSettings>({ stirEveryMin: 15, stirDurationSec: 10, autoExitEnabled: false, autoExitTime: "06:00" });
-
-  function applyGroupMode() {
-    selectedIds.forEach((id) => applyMode(id, groupMode));
-  }
-  function applyGroupManual(action: "BOWL" | "STIR" | "VALVE") {
-    updateMany(selectedIds, (c) => {
-      if (c.mode !== "MANUAL") return c;
-      if (action === "BOWL") {
-        const to = c.bowl === "IN" ? "OUT" : "IN";
-        const next = { ...c, bowl: to } as Cage;
-        if (to === "OUT") next.valveOpen = false;
-        return next;
-      }
-      if (action === "STIR") return { ...c, stirring: !c.stirring };
-      if (action === "VALVE") {
-        if (c.bowl !== "IN" && !c.valveOpen) return c;
-        return { ...c, valveOpen: !c.valveOpen };
-      }
-      return c;
-    });
+  const [groupAuto, setGroupAuto] = useState<AutoSettings>(DEFAULT_AUTO_SETTINGS);
+
+  // Group operations are previewed as a dry run and only sent once confirmed.
+  const [groupPlan, setGroupPlan] = useState<GroupPlan | null>(null);
+  const [groupUndo, setGroupUndo] = useState<GroupUndo | null>(null);
+  const undoAvailable = groupUndo !== null && wallNow - groupUndo.appliedAt < GROUP_UNDO_WINDOW_MS;
+
+  function previewGroup(operation: GroupOperation) {
+    if (!canOperate) return;
+    setGroupPlan(planGroupOperation(operation, selectedCages, clock.now(), programs));
   }
-  function applyGroupAutoSettings() {
-    updateMany(selectedIds, (c) => {
-      if (c.mode !== "AUTO") return c;
-      const next: Cage = { ...c, auto: { ...c.auto, ...groupAuto } };
-      setTimeout(() => startAutoSchedule(next), 0);
-      return next;
-    });
+  function confirmGroup(plan: GroupPlan) {
+    const ids = new Set(plan.changes.map((p) => p.cageId));
+    const op = plan.operation;
+    setGroupUndo({ label: plan.label, appliedAt: Date.now(), snapshots: cages.filter((c) => ids.has(c.id)).map(snapshotCage) });
+    const library = op.kind === "import" ? importLibraries(op.file.programs, op.file.presets) : programs;
+    core.setPrograms(library);
+    core.applyPlan(plan, actor("group"), library);
+    setGroupPlan(null);
+  }
+  // Programs from an imported file need the editPrograms permission; presets come along for any operator.
+  function importLibraries(filePrograms: FeedingProgram[], filePresets: AutoPreset[]): FeedingProgram[] {
+    setPresets((prev) => mergeLibrary(prev, filePresets).merged);
+    if (!can(user, "editPrograms")) return programs;
+    const { merged } = mergeLibrary(programs, filePrograms);
+    setPrograms(merged);
+    return merged;
+  }
+
+  // Puts every cage of the last group operation back to its snapshot: mode, AUTO schedule, program and actuators.
+  function undoGroup() {
+    if (!groupUndo || !undoAvailable || !canOperate) return;
+    groupUndo.snapshots.forEach((s) => core.restore(s, actor("group")));
+    setGroupUndo(null);
+  }
+
+  /** `source` is "preset:<id>" or "cage:<id>". */
+  function previewSettings(source: string) {
+    const [kind, id] = source.split(":");
+    if (kind === "preset") {
+      const p = presets.find((pp) => pp.id === id);
+      if (p) previewGroup({ kind: "settings", from: `preset ${p.name}`, sourceCageId: null, auto: p.auto, programId: p.programId });
+    } else {
+      const c = findCage(Number(id));
+      if (c) previewGroup({ kind: "settings", from: c.name, sourceCageId: c.id, auto: c.auto, programId: c.programId });
+    }
+  }
+  function savePresetFromCage(cageId: number, name: string): string[] {
+    const c = findCage(cageId);
+    if (!c || !canOperate) return [];
+    const preset = presetFromCage(c, name, presets);
+    const issues = validatePreset(preset, presets);
+    if (!issues.length) setPresets((prev) => [...prev, preset]);
+    return issues;
+  }
+  function deletePreset(id: string) {
+    if (canOperate) setPresets((prev) => prev.filter((p) => p.id !== id));
+  }
+
+  function exportConfig() {
+    const at = clock.now();
+    downloadFile(configFileName(at), "application/json", JSON.stringify(buildConfigFile(facility.name, cages, programs, presets, at), null, 2));
+  }
+  // An import is previewed like a group operation over every cage named in the file, and can be undone the same way.
+  async function previewImport(file: File) {
+    if (!canOperate) return;
+    const parsed = parseConfigFile(await file.text());
+    if (!parsed.ok) {
+      setImportErrors({ source: file.name, errors: parsed.errors });
+      return;
+    }
+    setImportErrors(null);
+    const canEditPrograms = can(user, "editPrograms");
+    const programMerge = mergeLibrary(programs, parsed.file.programs);
+    const programNote = describeMerge("Programs", programMerge);
+    const notes = [
+      programNote && (canEditPrograms ? programNote : `${programNote} (not imported: only admins edit programs)`),
+      describeMerge("Presets", mergeLibrary(presets, parsed.file.presets)),
+    ].filter((n): n is string => n !== null);
+    setGroupPlan(planGroupOperation({ kind: "import", source: file.name, file: parsed.file, notes }, cages, clock.now(), canEditPrograms ? programMerge.merged : programs));
+  }
+
+  const studies = listStudies(cages);
+  const treatments = listTreatments(cages);
+  // New treatments get the next free color of their study as soon as a cage carries them.
+  const [treatmentColors, setTreatmentColors] = useState<TreatmentColors>(() => loadTreatmentColors(storage));
+  const assignedColors = assignTreatmentColors(treatmentColors, cages);
+  if (assignedColors !== treatmentColors) setTreatmentColors(assignedColors);
+  useEffect(() => saveTreatmentColors(treatmentColors, storage), [treatmentColors, storage]);
+  const [studyFilter, setStudyFilter] = useState<StudyFilter>({ studyId: "", treatment: "" });
+  const [studyEditorIds, setStudyEditorIds] = useState<number[] | null>(null);
+
+  function assignStudy(ids: number[], study: StudyAssignment | null) {
+    if (!canOperate) return;
+    cages
+      .filter((c) => ids.includes(c.id))
+      .forEach((c) => {
+        // Bulk assignment keeps each cage's own animal ID.
+        const next = study && ids.length > 1 ? { ...study, animalId: c.study?.animalId ?? "" } : study;
+        core.setStudy(c.id, next, actor(ids.length > 1 ? "group" : "manual"));
+      });
+  }
+  function selectTreatment(studyId: string, treatment: string) {
+    setCages((prev) => prev.map((c) => ({ ...c, selected: !!c.study && matchesStudyFilter(c, studyId, treatment) })));
+  }
+
+  /** Replaces the selection with every cage in the facility that matches the filter terms. */
+  function selectWhere(terms: SelectionTerm[]) {
+    setCages((prev) => prev.map((c) => ({ ...c, selected: matchesQuery(c, terms) })));
   }
 
   function selectAllInStation(station: number, value: boolean) {
     setCages((prev) => prev.map((c) => (c.station === station ? { ...c, selected: value } : c)));
   }
+  function changeSimSpeed(speed: number) {
+    simulation?.clock.setSpeed(speed);
+    setSimSpeed(speed);
+  }
+  function advanceSimulation(ms: number) {
+    if (!simulation) return;
+    simulation.clock.advance(ms);
+    const at = clock.now();
+    setNow(at);
+    schedulerTick.current(at);
+  }
   function clearAllSelections() {
     setCages((prev) => prev.map((c) => ({ ...c, selected: false })));
   }
 
   return (
     <div className="w-full min-h-screen bg-white text-slate-900 text-[11px] leading-tight">
-      <div className="sticky top-0 z-10 bg-white/90 backdrop-blur border-b border-slate-200">
+      <div className={`sticky top-0 z-10 bg-white/90 backdrop-blur border-b border-slate-200 ${showReport ? "print:hidden" : ""}`}>
+        {simulation && <SimulationBanner now={now} speed={simSpeed} onSpeed={changeSimSpeed} onAdvance={advanceSimulation} />}
         <div className="max-w-[1800px] mx-auto px-3 py-2 flex items-center justify-between">
           <div>
-            <h1 className="text-base font-semibold">PNCL Cage Monitor</h1>
-            <p className="text-[10px] text-slate-600">48 cages</p>
+            <h1 className="text-base font-semibold">{facility.name} Cage Monitor</h1>
+            <p className="text-[10px] text-slate-600">
+              {room.name} · {roomCageCount} cages{facility.rooms.length > 1 ? ` (${cages.length} in facility)` : ""}
+            </p>
           </div>
+          <div className="flex items-center gap-1 text-[10px]">
+            <span className="text-slate-600">Study</span>
+            <select className="px-1 py-0.5 border rounded" value={studyFilter.studyId} onChange={(e) => setStudyFilter({ studyId: e.target.value, treatment: "" })}>
+              <option value="">All</option>
+              {studies.map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+            <span className="text-slate-600">Treatment</span>
+            <select className="px-1 py-0.5 border rounded" value={studyFilter.treatment} onChange={(e) => setStudyFilter({ ...studyFilter, treatment: e.target.value })}>
+              <option value="">All</option>
+              {listTreatments(cages, studyFilter.studyId).map((t) => (
+                <option key={t} value={t}>{t}</option>
+              ))}
+            </select>
+          </div>
+          {facility.rooms.length > 1 && (
+            <div className="flex gap-1">
+              {facility.rooms.map((r) => (
+                <button
+                  key={r.id}
+                  onClick={() => setRoomId(r.id)}
+                  className={`px-2 py-0.5 rounded-full text-[11px] border ${r.id === room.id ? "bg-slate-900 text-white border-slate-900" : "bg-white border-slate-300"}`}
+                >
+                  {r.name}
+                </button>
+              ))}
+            </div>
+          )}
           <div className="flex items-center gap-1.5 text-[10px]">
+            <button
+              className="mr-2 px-2 py-0.5 rounded border border-red-800 bg-red-600 text-white font-bold tracking-wider hover:bg-red-700"
+              onClick={() => emergencyStop(null)}
+              title="Emergency stop every cage in the facility: close all valves, stop all stirrers, latch the cages OFF"
+            >
+              E-STOP
+            </button>
+            <button
+              className={`px-1.5 py-0.5 rounded border ${unacknowledged.length > 0 ? `${SEVERITY_STYLES[worstSeverity(unacknowledged) ?? "warning"].button} animate-pulse` : "border-slate-300 hover:bg-slate-50"}`}
+              onClick={() => setShowAlarms(true)}
+            >
+              Alarms{openAlarms.length > 0 ? ` (${openAlarms.length})` : ""}
+            </button>
+            <button className="px-1.5 py-0.5 rounded border border-slate-300 hover:bg-slate-50" onClick={() => setShowPrograms(true)}>
+              Programs
+            </button>
+            <button className="px-1.5 py-0.5 rounded border border-slate-300 hover:bg-slate-50" onClick={() => setShowLog(true)}>
+              Log
+            </button>
+            <button className="px-1.5 py-0.5 rounded border border-slate-300 hover:bg-slate-50" onClick={() => setShowReport(true)}>
+              Report
+            </button>
+            <button className="px-1.5 py-0.5 rounded border border-slate-300 hover:bg-slate-50" onClick={() => setShowIntake(true)} title="Feed intake and average daily gain per cage and treatment">
+              Intake
+            </button>
+            <button className="px-1.5 py-0.5 rounded border border-slate-300 hover:bg-slate-50" onClick={exportConfig} title="Download all cage modes and settings as JSON">
+              Export
+            </button>
+            <button
+              className="mr-2 px-1.5 py-0.5 rounded border border-slate-300 hover:bg-slate-50 disabled:opacity-50"
+              disabled={!canOperate}
+              onClick={() => importInput.current?.click()}
+              title="Load cage modes and settings from a JSON export (previewed first)"
+            >
+              Import…
+            </button>
+            <input
+              ref={importInput}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) previewImport(file).catch((err) => setImportErrors({ source: file.name, errors: [String(err)] }));
+              }}
+            />
+            <span className="px-1.5 py-0.5 text-slate-600" title={`Signed in as ${user.username}`}>
+              {user.name} · {ROLE_LABELS[user.role]}
+            </span>
+            <button className="mr-2 px-1.5 py-0.5 rounded border border-slate-300 hover:bg-slate-50" onClick={onLogout}>
+              Sign out
+            </button>
+            {syncUrl && (
+              <span className={`mr-1 px-1.5 py-0.5 rounded border ${syncStatus === "connected" ? "border-emerald-300 text-emerald-700" : "border-amber-300 text-amber-700"}`} title={syncUrl}>
+                Sync {syncStatus}
+              </span>
+            )}
+            {SEMI_API_URL && (
+              <span className={`mr-2 px-1.5 py-0.5 rounded border ${apiStatus === "connected" ? "border-violet-300 text-violet-700" : "border-slate-300 text-slate-500"}`} title={SEMI_API_URL}>
+                API {apiStatus}
+              </span>
+            )}
             <LegendBadge color="bg-slate-400" label="Off" />
             <LegendBadge color="bg-sky-500" label="Manual" />
             <LegendBadge color="bg-violet-500" label="Semi (API)" />
             <LegendBadge color="bg-emerald-500" label="Automatic" />
+            <LegendBadge color="bg-slate-700" label="Out of service" />
+            <LegendBadge color="bg-red-600" label="E-STOP" />
           </div>
         </div>
+        {stopped.length > 0 && <EmergencyStopBanner groups={stopped} canReset={canOperate} onReset={resetEmergencyStop} />}
       </div>
 
-      <div className="max-w-[1800px] mx-auto px-3 py-3 flex gap-3">
+      {showAlarms && (
+        <AlarmPanel
+          alarms={alarms}
+          config={alarmConfig}
+          onConfigChange={(config) => can(user, "editAlarmConfig") && setAlarmConfig(config)}
+          canAcknowledge={canOperate}
+          canEditConfig={can(user, "editAlarmConfig")}
+          onAcknowledge={acknowledgeAlarm}
+          onClear={clearAlarm}
+          onClose={() => setShowAlarms(false)}
+        />
+      )}
+      {showPrograms && (
+        <ProgramEditor
+          programs={programs}
+          usage={(id) => cages.filter((c) => c.programId === id).length}
+          readOnly={!can(user, "editPrograms")}
+          onSave={(next) => {
+            saveProgramLibrary(next);
+            setShowPrograms(false);
+          }}
+          onClose={() => setShowPrograms(false)}
+        />
+      )}
+      {groupPlan && <GroupPreviewDialog plan={groupPlan} onConfirm={() => confirmGroup(groupPlan)} onClose={() => setGroupPlan(null)} />}
+      {studyEditorIds && (
+        <StudyEditor
+          cages={cages.filter((c) => studyEditorIds.includes(c.id))}
+          studies={studies}
+          treatments={treatments}
+          onSave={(study) => {
+            assignStudy(studyEditorIds, study);
+            setStudyEditorIds(null);
+          }}
+          onClose={() => setStudyEditorIds(null)}
+        />
+      )}
+      {historyCageId !== null && (
+        <CageHistoryPanel
+          cage={cages.find((c) => c.id === historyCageId)!}
+          auditLog={auditLog}
+          levelHistory={levelHistory}
+          calibration={calibrations[cages.find((c) => c.id === historyCageId)!.name]}
+          now={clock.now}
+          onClose={() => setHistoryCageId(null)}
+        />
+      )}
+      {serviceCageId !== null && (
+        <CageServiceDialog
+          cage={cages.find((c) => c.id === serviceCageId)!}
+          calibration={calibrations[cages.find((c) => c.id === serviceCageId)!.name]}
+          canOperate={canOperate}
+          user={user.username}
+          now={clock.now}
+          onSetOutOfService={(reason) => setOutOfService(serviceCageId, reason)}
+          onRunCalibration={(seconds) => runCalibration(core, serviceCageId, seconds, actor("manual"), clock)}
+          onSaveCalibration={(calibration) => saveCalibration(cages.find((c) => c.id === serviceCageId)!, calibration)}
+          onClose={() => setServiceCageId(null)}
+        />
+      )}
+      {intakeCageId !== null && (
+        <IntakeEntryDialog
+          cage={cages.find((c) => c.id === intakeCageId)!}
+          intakeLog={intakeLog}
+          canOperate={canOperate}
+          user={user.username}
+          now={clock.now}
+          onAdd={(records) => addIntakeRecords(cages.find((c) => c.id === intakeCageId)!, records)}
+          onRemove={(r) => removeIntakeRecord(cages.find((c) => c.id === intakeCageId)!, r)}
+          onClose={() => setIntakeCageId(null)}
+        />
+      )}
+      {showIntake && <IntakePanel cages={cages} auditLog={auditLog} intakeLog={intakeLog} calibrations={calibrations} now={clock.now} onClose={() => setShowIntake(false)} />}
+      {showLog && <AuditLogPanel auditLog={auditLog} now={clock.now} onClose={() => setShowLog(false)} />}
+      {showReport && <DailyReportPanel facilityName={facility.name} cages={cages} alarms={alarms} auditLog={auditLog} calibrations={calibrations} now={clock.now} onClose={() => setShowReport(false)} />}
+      {connection === "lost" && <ConnectionLostBanner />}
+      {syncNotices.length > 0 && <SyncConflictBanner notices={syncNotices} onDismiss={() => setSyncNotices([])} />}
+      {importErrors && <ImportErrorsBanner {...importErrors} onDismiss={() => setImportErrors(null)} />}
+      {restoreIssues.length > 0 && <RestoreIssuesBanner issues={restoreIssues} onDismiss={() => setRestoreIssues([])} />}
+
+      <div className={`max-w-[1800px] mx-auto px-3 py-3 flex gap-3 ${showReport ? "print:hidden" : ""}`}>
         <div className="flex-1">
-          <div className="grid grid-cols-4 gap-2">
-            {Array.from({ length: 8 }, (_, i) => i + 1).map((station) => (
+          <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${room.columns}, minmax(0, 1fr))` }}>
+            {room.stations.map((station) => (
               <StationCard
-                key={station}
+                key={station.number}
                 station={station}
-                cages={stations[station] || []}
-                onSelectAll={(val) => selectAllInStation(station, val)}
+                cages={stations[station.number] || []}
+                alarms={openAlarms.filter((a) => a.station === station.number)}
+                now={now}
+                onSelectAll={(val) => selectAllInStation(station.number, val)}
+                treatmentColors={treatmentColors}
+                studyFilter={studyFilter}
+                onEditStudy={(id) => setStudyEditorIds([id])}
+                onShowHistory={setHistoryCageId}
+                onShowService={setServiceCageId}
+                onShowIntake={setIntakeCageId}
+                onEmergencyStop={() => emergencyStop(station.number)}
                 applyMode={applyMode}
                 toggleBowl={toggleBowl}
                 toggleStir={toggleStir}
                 toggleValve={toggleValve}
                 toggleSelected={toggleSelected}
-                setLevel={setLevel}
                 setAutoSettings={setAutoSettings}
+                programs={programs}
+                setProgram={setProgram}
+                canOperate={canOperate}
+                commands={commands}
               />
             ))}
           </div>
@@ -251,13 +830,29 @@ export default function CageMonitorApp() {
             sharedMode={allSelectedSameMode && selectedCages.length ? selectedCages[0].mode : undefined}
             groupMode={groupMode}
             setGroupMode={setGroupMode}
-            onApplyGroupMode={applyGroupMode}
+            onApplyGroupMode={() => previewGroup({ kind: "mode", mode: groupMode })}
             onClearSelections={clearAllSelections}
             groupAuto={groupAuto}
             setGroupAuto={setGroupAuto}
-            onApplyGroupManual={applyGroupManual}
-            onApplyGroupAuto={applyGroupAutoSettings}
+            onApplyGroupManual={(action) => previewGroup({ kind: "manual", action })}
+            onApplyGroupAuto={() => previewGroup({ kind: "auto", settings: groupAuto })}
+            undo={groupUndo && undoAvailable ? { label: groupUndo.label, remainingSec: Math.ceil((groupUndo.appliedAt + GROUP_UNDO_WINDOW_MS - wallNow) / 1000) } : null}
+            onUndo={undoGroup}
+            canOperate={canOperate}
+            programs={programs}
+            onAssignProgram={(programId) => previewGroup({ kind: "program", programId })}
+            cages={cages}
+            presets={presets}
+            onApplySettings={previewSettings}
+            onSavePreset={savePresetFromCage}
+            onDeletePreset={deletePreset}
             selectedCages={selectedCages}
+            studies={studies}
+            treatmentsFor={(studyId) => listTreatments(cages, studyId)}
+            onSelectTreatment={selectTreatment}
+            onSelectWhere={selectWhere}
+            countMatching={(terms) => cages.filter((c) => matchesQuery(c, terms)).length}
+            onAssignStudy={() => setStudyEditorIds(selectedIds)}
           />
         </div>
       </div>
@@ -265,6 +860,94 @@ export default function CageMonitorApp() {
   );
 }
 
+function ConnectionLostBanner() {
+  return (
+    <div className="max-w-[1800px] mx-auto px-3 pt-2">
+      <div className="rounded border border-red-300 bg-red-50 px-2.5 py-1.5 text-red-900">
+        <span className="font-medium">Connection to the cage controller lost.</span>{" "}
+        <span className="text-[10px]">
+          Commands are timing out and the states shown may be stale. Reconnecting automatically…
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function SyncConflictBanner({ notices, onDismiss }: { notices: SyncNotice[]; onDismiss: () => void }) {
+  return (
+    <div className="max-w-[1800px] mx-auto px-3 pt-2">
+      <div className="rounded border border-amber-300 bg-amber-50 px-2.5 py-1.5 flex items-start justify-between gap-3">
+        <div>
+          <div className="font-medium text-amber-900">
+            {notices.length} change(s) on this screen were not applied: another screen changed the cage first
+          </div>
+          <ul className="text-[10px] text-amber-800">
+            {notices.map((n) => (
+              <li key={n.key}>
+                {n.cage}: {n.summary} (changed by {n.by} at {formatClock(n.at)})
+              </li>
+            ))}
+          </ul>
+        </div>
+        <button className="px-2 py-0.5 rounded border border-amber-300 bg-white" onClick={onDismiss}>
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ImportErrorsBanner({ source, errors, onDismiss }: { source: string; errors: string[]; onDismiss: () => void }) {
+  return (
+    <div className="max-w-[1800px] mx-auto px-3 pt-2">
+      <div className="rounded border border-red-300 bg-red-50 px-2.5 py-1.5 flex items-start justify-between gap-3">
+        <div>
+          <div className="font-medium text-red-900">{source} was not imported; nothing changed</div>
+          <ul className="text-[10px] text-red-800">
+            {errors.slice(0, 20).map((e) => (
+              <li key={e}>{e}</li>
+            ))}
+            {errors.length > 20 && <li>…and {errors.length - 20} more</li>}
+          </ul>
+        </div>
+        <button className="px-2 py-0.5 rounded border border-red-300 bg-white" onClick={onDismiss}>
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function RestoreIssuesBanner({ issues, onDismiss }: { issues: RestoreIssue[]; onDismiss: () => void }) {
+  const cageIssues = issues.filter((i) => i.cage !== "*");
+  return (
+    <div className="max-w-[1800px] mx-auto px-3 pt-2">
+      <div className="rounded border border-amber-300 bg-amber-50 px-2.5 py-1.5 flex items-start justify-between gap-3">
+        <div>
+          <div className="font-medium text-amber-900">
+            {cageIssues.length > 0 ? `${cageIssues.length} cage(s) could not be restored and were reset to OFF` : "Saved state could not be restored"}
+          </div>
+          <ul className="text-[10px] text-amber-800">
+            {issues.map((i) => (
+              <li key={i.cage}>
+                {i.cage === "*" ? "All cages" : i.cage}: {i.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+        <button className="px-2 py-0.5 rounded border border-amber-300 bg-white" onClick={onDismiss}>
+          Dismiss
+        </button>
+      </div>
+    </div>
+  );
+}
+
+const SEVERITY_STYLES: Record<AlarmSeverity, { ring: string; header: string; badge: string; button: string }> = {
+  critical: { ring: "ring-2 ring-red-500", header: "bg-red-50 border-red-200", badge: "bg-red-600", button: "border-red-400 bg-red-50 text-red-700" },
+  warning: { ring: "ring-2 ring-amber-400", header: "bg-amber-50 border-amber-200", badge: "bg-amber-500", button: "border-amber-400 bg-amber-50 text-amber-800" },
+};
+
 function LegendBadge({ color, label }: { color: string; label: string }) {
   return (
     <div className="flex items-center gap-1.5">
@@ -277,53 +960,106 @@ function LegendBadge({ color, label }: { color: string; label: string }) {
 function StationCard({
   station,
   cages,
+  alarms,
+  now,
   onSelectAll,
+  treatmentColors,
+  studyFilter,
+  onEditStudy,
+  onShowHistory,
+  onShowService,
+  onShowIntake,
+  onEmergencyStop,
   applyMode,
   toggleBowl,
   toggleStir,
   toggleValve,
   toggleSelected,
-  setLevel,
   setAutoSettings,
+  programs,
+  setProgram,
+  canOperate,
+  commands,
 }: {
-  station: number;
+  station: StationConfig;
   cages: Cage[];
+  alarms: Alarm[];
+  now: number;
   onSelectAll: (value: boolean) => void;
+  treatmentColors: TreatmentColors;
+  studyFilter: StudyFilter;
+  onEditStudy: (id: number) => void;
+  onShowHistory: (id: number) => void;
+  onShowService: (id: number) => void;
+  onShowIntake: (id: number) => void;
+  onEmergencyStop: () => void;
   applyMode: (id: number, m: Mode) => void;
   toggleBowl: (id: number) => void;
   toggleStir: (id: number) => void;
   toggleValve: (id: number) => void;
-  toggleSelected: (id: number) => void;
-  setLevel: (id: number, level: Level) => void;
+  toggleSelected: (id: number, extend?: boolean) => void;
   setAutoSettings: (id: number, patch: Partial<AutoSettings>) => void;
+  programs: FeedingProgram[];
+  setProgram: (id: number, programId: string | null) => void;
+  canOperate: boolean;
+  commands: CommandBook;
 }) {
   const allSelected = cages.length > 0 && cages.every((c) => c.selected);
+  const stationSeverity = worstSeverity(alarms);
 
   return (
     <div className="bg-white border border-slate-200 rounded-lg shadow-sm">
-      <div className="px-2.5 py-1 border-b border-slate-100 flex items-center justify-between">
+      <div className={`px-2.5 py-1 border-b flex items-center justify-between rounded-t-lg ${stationSeverity ? SEVERITY_STYLES[stationSeverity].header : "border-slate-100"}`}>
         <div className="font-medium text-[13px] flex items-center gap-2">
-          <span>Feeding Station {station}</span>
-          <a href="#brainbox1" className="text-[11px] underline text-slate-600 hover:text-slate-800">BrainBox 1</a>
-          <a href="#brainbox2" className="text-[11px] underline text-slate-600 hover:text-slate-800">BrainBox 2</a>
+          <span>{station.name}</span>
+          {stationSeverity && (
+            <span className={`px-1.5 rounded text-[10px] text-white ${SEVERITY_STYLES[stationSeverity].badge}`}>
+              {alarms.length} alarm{alarms.length > 1 ? "s" : ""}
+            </span>
+          )}
+          {station.brainBoxes.map((b) => (
+            <a key={b.url + b.label} href={b.url} className="text-[11px] underline text-slate-600 hover:text-slate-800">
+              {b.label}
+            </a>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 text-[11px] select-none">
+            <input type="checkbox" className="h-3.5 w-3.5" checked={allSelected} onChange={(e) => onSelectAll(e.target.checked)} />
+            Select all in station
+          </label>
+          <button
+            className="px-1.5 rounded border border-red-800 bg-red-600 text-white text-[10px] font-bold tracking-wider hover:bg-red-700"
+            onClick={onEmergencyStop}
+            title={`Emergency stop every cage in ${station.name}`}
+          >
+            E-STOP
+          </button>
         </div>
-        <label className="flex items-center gap-2 text-[11px] select-none">
-          <input type="checkbox" className="h-3.5 w-3.5" checked={allSelected} onChange={(e) => onSelectAll(e.target.checked)} />
-          Select all in station
-        </label>
       </div>
-      <div className="p-1.5 grid grid-cols-3 gap-1">
+      <div className="p-1.5 grid gap-1" style={{ gridTemplateColumns: `repeat(${station.columns}, minmax(0, 1fr))` }}>
         {cages.map((cage) => (
           <CageCard
             key={cage.id}
             cage={cage}
+            alarmSeverity={worstSeverity(alarms.filter((a) => a.cageId === cage.id))}
+            treatmentColors={treatmentColors}
+            dimmed={!matchesStudyFilter(cage, studyFilter.studyId, studyFilter.treatment)}
+            onEditStudy={onEditStudy}
+            onShowHistory={onShowHistory}
+            onShowService={onShowService}
+            onShowIntake={onShowIntake}
+            now={now}
             applyMode={applyMode}
             toggleBowl={toggleBowl}
             toggleStir={toggleStir}
             toggleValve={toggleValve}
             toggleSelected={toggleSelected}
-            setLevel={setLevel}
             setAutoSettings={setAutoSettings}
+            programs={programs}
+            setProgram={setProgram}
+            canOperate={canOperate}
+            commands={commands.get(cage.id) ?? {}}
           />
         ))}
       </div>
@@ -333,40 +1069,103 @@ function StationCard({
 
 function CageCard({
   cage,
+  alarmSeverity,
+  treatmentColors,
+  dimmed,
+  onEditStudy,
+  onShowHistory,
+  onShowService,
+  onShowIntake,
+  now,
   applyMode,
   toggleBowl,
   toggleStir,
   toggleValve,
   toggleSelected,
   setAutoSettings,
+  programs,
+  setProgram,
+  canOperate,
+  commands,
 }: {
   cage: Cage;
+  alarmSeverity: AlarmSeverity | null;
+  treatmentColors: TreatmentColors;
+  dimmed: boolean;
+  onEditStudy: (id: number) => void;
+  onShowHistory: (id: number) => void;
+  onShowService: (id: number) => void;
+  onShowIntake: (id: number) => void;
+  now: number;
   applyMode: (id: number, m: Mode) => void;
   toggleBowl: (id: number) => void;
   toggleStir: (id: number) => void;
   toggleValve: (id: number) => void;
-  toggleSelected: (id: number) => void;
-  setLevel: (id: number, level: Level) => void;
+  toggleSelected: (id: number, extend?: boolean) => void;
   setAutoSettings: (id: number, patch: Partial<AutoSettings>) => void;
+  programs: FeedingProgram[];
+  setProgram: (id: number, programId: string | null) => void;
+  canOperate: boolean;
+  commands: CageCommands;
 }) {
-  const modeColor = cage.mode === "OFF" ? "bg-slate-50" : cage.mode === "MANUAL" ? "bg-sky-50" : cage.mode === "SEMI" ? "bg-violet-50" : "bg-emerald-50";
-  const headerPill = cage.mode === "OFF" ? "bg-slate-400" : cage.mode === "MANUAL" ? "bg-sky-500" : cage.mode === "SEMI" ? "bg-violet-500" : "bg-emerald-500";
+  const oos = cage.outOfService;
+  const latched = cage.stopped;
+  const modeColor = oos
+    ? OUT_OF_SERVICE_BACKGROUND
+    : latched ? "bg-red-50" : cage.mode === "OFF" ? "bg-slate-50" : cage.mode === "MANUAL" ? "bg-sky-50" : cage.mode === "SEMI" ? "bg-violet-50" : "bg-emerald-50";
+  const headerPill = latched ? "bg-red-600" : oos ? "bg-slate-700" : cage.mode === "OFF" ? "bg-slate-400" : cage.mode === "MANUAL" ? "bg-sky-500" : cage.mode === "SEMI" ? "bg-violet-500" : "bg-emerald-500";
 
   return (
-    <div className={`border border-slate-200 rounded-md ${modeColor}`}>
+    <div className={`border rounded-md ${latched ? "border-2 border-red-600" : oos ? "border-dashed border-slate-500" : "border-slate-200"} ${modeColor} ${alarmSeverity ? SEVERITY_STYLES[alarmSeverity].ring : ""} ${dimmed ? "opacity-40" : ""}`}>
       <div className="px-1.5 py-0.5 border-b border-slate-200 flex items-center justify-between">
         <div className="flex items-center gap-1.5">
           <span className={`inline-block h-2 w-2 rounded ${headerPill}`}></span>
-          <span className="font-semibold text-[12px]">{cage.name}</span>
+          <button className="font-semibold text-[12px] hover:underline" title="History" onClick={() => onShowHistory(cage.id)}>
+            {cage.name}
+          </button>
+          {oos && (
+            <span className="px-1 rounded text-[9px] text-white bg-slate-700" title={`Out of service: ${oos.reason}`}>
+              OUT OF SERVICE
+            </span>
+          )}
+          {latched && (
+            <span className="px-1 rounded text-[9px] text-white bg-red-600 font-bold" title={`${describeStop(latched)} · was ${latched.modeBefore}`}>
+              E-STOP
+            </span>
+          )}
+          {cage.study ? (
+            <button
+              className={`px-1 rounded text-[9px] text-white truncate max-w-[64px] ${treatmentColor(treatmentColors, cage.study)}`}
+              title={`Study ${cage.study.studyId} · ${cage.study.treatment}${cage.study.animalId ? ` · animal ${cage.study.animalId}` : ""}`}
+              onClick={() => canOperate && onEditStudy(cage.id)}
+            >
+              {cage.study.treatment}
+              {cage.study.animalId && ` · ${cage.study.animalId}`}
+            </button>
+          ) : (
+            canOperate && (
+              <button className="text-[9px] text-slate-400 hover:text-slate-700" onClick={() => onEditStudy(cage.id)}>
+                + study
+              </button>
+            )
+          )}
+        </div>
+        <div className="flex items-center gap-1.5">
+          <button className="text-[9px] text-slate-400 hover:text-slate-700" title="Feed offered/refused and body weight" onClick={() => onShowIntake(cage.id)}>
+            intake
+          </button>
+          <button className="text-[9px] text-slate-400 hover:text-slate-700" title="Out of service, valve calibration" onClick={() => onShowService(cage.id)}>
+            service
+          </button>
+          <label className="flex items-center gap-1.5 text-[11px] select-none">
+            <input type="checkbox" className="h-3.5 w-3.5" checked={cage.selected} onChange={(e) => toggleSelected(cage.id, (e.nativeEvent as MouseEvent).shiftKey === true)} />
+            Sel
+          </label>
         </div>
-        <label className="flex items-center gap-1.5 text-[11px] select-none">
-          <input type="checkbox" className="h-3.5 w-3.5" checked={cage.selected} onChange={() => toggleSelected(cage.id)} />
-          Sel
-        </label>
       </div>
 
-      {/* Mode Selector */}
-      <div className="px-1.5 pt-0.5 pb-0.5 flex flex-wrap gap-0.5">
+      {/* Mode Selector (locked while out of service or stopped) */}
+      <fieldset className="min-w-0 px-1.5 pt-0.5 pb-0.5 flex flex-wrap gap-0.5 disabled:opacity-60" disabled={!canOperate || !!oos || !!latched}>
         {MODES.map((m) => (
           <button
             key={m}
@@ -376,21 +1175,41 @@ function CageCard({
             {m === "SEMI" ? "SEMI" : m}
           </button>
         ))}
-      </div>
+      </fieldset>
 
       {/* Status row (hidden for OFF) */}
       {cage.mode !== "OFF" && (
         <div className="px-1.5 pb-0.5 grid grid-cols-2 gap-0.5 text-[10px]">
-          <StatusChip label="Bowl" value={cage.bowl} />
-          <StatusChip label="Stir" value={cage.stirring ? "ON" : "OFF"} />
-          <StatusChip label="Valve" value={cage.valveOpen ? "ON" : "OFF"} />
-          <StatusChip label="Level" value={cage.level} />
+          <StatusChip label="Bowl" value={cage.bowl} command={commands.bowl} />
+          <StatusChip label="Stir" value={cage.stirring ? "ON" : "OFF"} command={commands.stirring} />
+          <StatusChip label="Valve" value={cage.valveOpen ? "ON" : "OFF"} command={commands.valveOpen} />
+          <LevelGauge levelPct={cage.levelPct} auto={cage.auto} />
         </div>
       )}
 
-      {/* Fixed-height body (smaller) */}
-      <div className="px-1.5 pb-1.5 min-h-[88px]">
-        {cage.mode === "OFF" && <p className="text-[10px] text-slate-600">Inactive. Bowl <b>IN</b>. All off.</p>}
+      {/* Fixed-height body (smaller); form controls are disabled for viewers */}
+      <fieldset className="min-w-0 px-1.5 pb-1.5 min-h-[88px]" disabled={!canOperate || !!oos || !!latched}>
+        {latched && (
+          <p className="text-[10px] text-red-800">
+            <b>{describeStop(latched)}</b> · was {latched.modeBefore}
+            <br />
+            <span className="text-red-700">
+              {formatDayClock(latched.at, now)}
+              {latched.by && ` · ${latched.by}`}. Latched OFF until the stop is reset.
+            </span>
+          </p>
+        )}
+        {oos && (
+          <p className="text-[10px] text-slate-700">
+            <b>Out of service:</b> {oos.reason}
+            <br />
+            <span className="text-slate-500">
+              Since {formatDayClock(oos.since, now)}
+              {oos.by && ` · ${oos.by}`}. No control path touches this cage.
+            </span>
+          </p>
+        )}
+        {!oos && !latched && cage.mode === "OFF" && <p className="text-[10px] text-slate-600">Inactive. Bowl <b>IN</b>. All off.</p>}
 
         {cage.mode === "MANUAL" && (
           <div className="grid grid-cols-3 gap-0.5">
@@ -398,14 +1217,22 @@ function CageCard({
               label="Bowl"
               value={cage.bowl === "IN" ? "IN" : "OUT"}
               onClick={() => toggleBowl(cage.id)}
+              command={commands.bowl}
+              {...interlockProps(cage, "BOWL")}
+            />
+            <CompactToggle
+              label="Stir"
+              value={cage.stirring ? "ON" : "OFF"}
+              onClick={() => toggleStir(cage.id)}
+              command={commands.stirring}
+              {...interlockProps(cage, "STIR")}
             />
-            <CompactToggle label="Stir" value={cage.stirring ? "ON" : "OFF"} onClick={() => toggleStir(cage.id)} />
             <CompactToggle
               label="Valve"
               value={cage.valveOpen ? "ON" : "OFF"}
               onClick={() => toggleValve(cage.id)}
-              disabled={cage.bowl !== "IN" && !cage.valveOpen}
-              title={cage.bowl !== "IN" && !cage.valveOpen ? "Requires bowl IN" : ""}
+              command={commands.valveOpen}
+              {...interlockProps(cage, "VALVE")}
             />
           </div>
         )}
@@ -414,29 +1241,46 @@ function CageCard({
 
         {cage.mode === "AUTO" && (
           <div className="bg-white rounded border p-1 space-y-1">
-            <div className="text-[10px] font-medium">Stir</div>
-            <div className="flex items-center gap-1 text-[10px] whitespace-nowrap">
-              <span>Every</span>
-              <input
-                type="number"
-                min={0}
-                className="w-10 px-1 py-0.5 border rounded text-[10px] appearance-none [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                value={cage.auto.stirEveryMin}
-                onChange={(e) => setAutoSettings(cage.id, { stirEveryMin: Number(e.target.value) })}
-              />
-              <span>min</span>
-            </div>
-            <div className="flex items-center gap-1 text-[10px] whitespace-nowrap">
-              <span>for</span>
-              <input
-                type="number"
-                min={0}
-                className="w-10 px-1 py-0.5 border rounded text-[10px] appearance-none [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
-                value={cage.auto.stirDurationSec}
-                onChange={(e) => setAutoSettings(cage.id, { stirDurationSec: Number(e.target.value) })}
-              />
-              <span>sec</span>
-            </div>
+            <AutoScheduleInfo cage={cage} now={now} programs={programs} />
+            <select
+              className="w-full px-1 py-0.5 border rounded text-[10px]"
+              value={cage.programId ?? ""}
+              onChange={(e) => setProgram(cage.id, e.target.value || null)}
+              title="Feeding program"
+            >
+              <option value="">Fixed interval</option>
+              {programs.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+              {cage.programId !== null && !programs.some((p) => p.id === cage.programId) && <option value={cage.programId}>{programName(cage.programId, programs)}</option>}
+            </select>
+            {cage.programId === null && (
+              <>
+                <div className="text-[10px] font-medium">Stir</div>
+                <div className="flex items-center gap-1 text-[10px] whitespace-nowrap">
+                  <span>Every</span>
+                  <input
+                    type="number"
+                    min={0}
+                    className="w-10 px-1 py-0.5 border rounded text-[10px] appearance-none [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                    value={cage.auto.stirEveryMin}
+                    onChange={(e) => setAutoSettings(cage.id, { stirEveryMin: Number(e.target.value) })}
+                  />
+                  <span>min</span>
+                </div>
+                <div className="flex items-center gap-1 text-[10px] whitespace-nowrap">
+                  <span>for</span>
+                  <input
+                    type="number"
+                    min={0}
+                    className="w-10 px-1 py-0.5 border rounded text-[10px] appearance-none [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                    value={cage.auto.stirDurationSec}
+                    onChange={(e) => setAutoSettings(cage.id, { stirDurationSec: Number(e.target.value) })}
+                  />
+                  <span>sec</span>
+                </div>
+              </>
+            )}
             <label className="flex items-center gap-1 text-[10px]">
               <input
                 type="checkbox"
@@ -455,31 +1299,151 @@ function CageCard({
                 disabled={!cage.auto.autoExitEnabled}
               />
             </div>
+            <div className="flex items-center gap-1 text-[10px] whitespace-nowrap" title="Valve opens at or below the first level and closes at or above the second">
+              <span>Valve</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                className="w-8 px-1 py-0.5 border rounded text-[10px] appearance-none [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                value={cage.auto.valveOpenBelowPct}
+                onChange={(e) => setAutoSettings(cage.id, { valveOpenBelowPct: clampPct(Number(e.target.value)) })}
+              />
+              <span>–</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                className="w-8 px-1 py-0.5 border rounded text-[10px] appearance-none [appearance:textfield] [&::-webkit-outer-spin-button]:appearance-none [&::-webkit-inner-spin-button]:appearance-none"
+                value={cage.auto.valveCloseAbovePct}
+                onChange={(e) => setAutoSettings(cage.id, { valveCloseAbovePct: clampPct(Number(e.target.value)) })}
+              />
+              <span>%</span>
+            </div>
           </div>
         )}
-      </div>
+      </fieldset>
     </div>
   );
 }
 
-function StatusChip({ label, value }: { label: string; value: string }) {
+function formatClock(t: number, withSeconds = true) {
+  return new Date(t).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: withSeconds ? "2-digit" : undefined });
+}
+
+/** Clock time, prefixed with the weekday when it is not today. */
+function formatDayClock(t: number, now: number) {
+  const sameDay = new Date(t).toDateString() === new Date(now).toDateString();
+  return sameDay ? formatClock(t, false) : `${new Date(t).toLocaleDateString([], { weekday: "short" })} ${formatClock(t, false)}`;
+}
+
+function AutoScheduleInfo({ cage, now, programs }: { cage: Cage; now: number; programs: FeedingProgram[] }) {
+  const plan = planForCage(cage, now, programs);
+  if (!plan) return null;
   return (
-    <div className="bg-white rounded border px-1 py-0.5 flex items-center justify-between">
+    <div className="text-[9px] text-slate-600 space-y-0.5">
+      {plan.windowEndsAt !== null && <div>Feeding window until {formatClock(plan.windowEndsAt, false)}</div>}
+      {plan.bowl === "OUT" && (
+        <div>Bowl OUT{plan.nextWindowAt !== null ? ` until ${formatDayClock(plan.nextWindowAt, now)}` : " (no upcoming window)"}</div>
+      )}
+      {plan.bowl === "IN" && (
+        <div>
+          {plan.stirring && plan.stirEndsAt !== null
+            ? `Stirring until ${formatClock(plan.stirEndsAt)}`
+            : plan.nextStirAt !== null
+              ? `Next stir ${formatClock(plan.nextStirAt)}`
+              : "Stir off"}
+        </div>
+      )}
+      {plan.exitAt !== null && (
+        <div>
+          Exit → {AUTO_EXIT_MODE} at {formatClock(plan.exitAt, false)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Hatched grey, so a held cage stands out from one that is merely OFF.
+const OUT_OF_SERVICE_BACKGROUND = "bg-[repeating-linear-gradient(135deg,#f1f5f9_0_6px,#e2e8f0_6px_12px)]";
+
+const COMMAND_STYLES: Record<FieldCommand["status"], string> = {
+  pending: "border-amber-300 bg-amber-50",
+  confirmed: "bg-white",
+  failed: "border-red-400 bg-red-50",
+  timeout: "border-red-400 bg-red-50",
+};
+
+/** Reported value, plus the requested one while a command is pending or after it failed. */
+function CommandValue({ value, command, className }: { value: string; command?: FieldCommand; className: string }) {
+  const requested = command && command.status !== "confirmed" ? formatAuditValue(command.requested) : null;
+  return (
+    <span className={`font-semibold ${className} ${command && command.status !== "pending" && command.status !== "confirmed" ? "text-red-700" : ""}`}>
+      {value}
+      {requested !== null && requested !== value && <span className={command?.status === "pending" ? "text-amber-700" : ""}> → {requested}</span>}
+      {command?.status === "timeout" && " ⏱"}
+      {command?.status === "failed" && " ✕"}
+    </span>
+  );
+}
+
+function StatusChip({ label, value, command }: { label: string; value: string; command?: FieldCommand }) {
+  return (
+    <div className={`rounded border px-1 py-0.5 flex items-center justify-between ${COMMAND_STYLES[command?.status ?? "confirmed"]}`} title={command ? describeCommand(command) : undefined}>
       <span className="text-slate-500 text-[9px]">{label}</span>
-      <span className="font-semibold text-[9px]">{value}</span>
+      <CommandValue value={value} command={command} className="text-[9px]" />
+    </div>
+  );
+}
+
+function LevelGauge({ levelPct, auto }: { levelPct: number; auto: AutoSettings }) {
+  const low = levelStatus(levelPct, auto) === "LOW";
+  return (
+    <div className="bg-white rounded border px-1 py-0.5" title={`Valve opens ≤ ${auto.valveOpenBelowPct}%, closes ≥ ${auto.valveCloseAbovePct}%`}>
+      <div className="flex items-center justify-between">
+        <span className="text-slate-500 text-[9px]">Level</span>
+        <span className={`font-semibold text-[9px] ${low ? "text-amber-700" : ""}`}>{Math.round(levelPct)}%</span>
+      </div>
+      <div className="relative h-1 mt-0.5 rounded bg-slate-100">
+        <div className={`absolute inset-y-0 left-0 rounded ${low ? "bg-amber-500" : "bg-emerald-500"}`} style={{ width: `${levelPct}%` }} />
+        <div className="absolute inset-y-[-1px] w-px bg-slate-500" style={{ left: `${auto.valveOpenBelowPct}%` }} />
+        <div className="absolute inset-y-[-1px] w-px bg-slate-500" style={{ left: `${auto.valveCloseAbovePct}%` }} />
+      </div>
     </div>
   );
 }
 
-function CompactToggle({ label, value, onClick, disabled, title }: { label: string; value: string; onClick: () => void; disabled?: boolean; title?: string }) {
+/** Disables a MANUAL toggle whose change an interlock would reject and names the rule in its tooltip. */
+function interlockProps(cage: Cage, action: ManualAction): { disabled: boolean; title: string } {
+  const check = checkInterlocks(cage, manualTarget(cage, action));
+  return check.ok ? { disabled: false, title: "" } : { disabled: true, title: `Blocked by interlock: ${check.rule.description}` };
+}
+
+function CompactToggle({
+  label,
+  value,
+  onClick,
+  disabled,
+  title,
+  command,
+}: {
+  label: string;
+  value: string;
+  onClick: () => void;
+  disabled?: boolean;
+  title?: string;
+  command?: FieldCommand;
+}) {
   return (
     <button
-      className={`bg-white rounded border px-1.5 py-0.5 text-left ${disabled ? "opacity-50 cursor-not-allowed" : "hover:bg-slate-50"}`}
+      className={`rounded border px-1.5 py-0.5 text-left ${COMMAND_STYLES[command?.status ?? "confirmed"]} ${disabled ? "opacity-50 cursor-not-allowed" : "hover:bg-slate-50"}`}
       onClick={() => !disabled && onClick()}
-      title={title}
+      title={[title, command && describeCommand(command)].filter(Boolean).join("\n")}
     >
       <div className="text-[9px] text-slate-500">{label}</div>
-      <div className="text-[11px] font-semibold">{value}</div>
+      <div>
+        <CommandValue value={value} command={command} className="text-[11px]" />
+      </div>
     </button>
   );
 }
@@ -497,6 +1461,22 @@ function GroupPanel({
   onApplyGroupManual,
   onApplyGroupAuto,
   selectedCages,
+  studies,
+  treatmentsFor,
+  onSelectTreatment,
+  onSelectWhere,
+  countMatching,
+  onAssignStudy,
+  undo,
+  onUndo,
+  canOperate,
+  programs,
+  onAssignProgram,
+  cages,
+  presets,
+  onApplySettings,
+  onSavePreset,
+  onDeletePreset,
 }: {
   selectedCount: number;
   allSelectedSameMode: boolean;
@@ -507,21 +1487,100 @@ function GroupPanel({
   onClearSelections: () => void;
   groupAuto: AutoSettings;
   setGroupAuto: (s: AutoSettings) => void;
-  onApplyGroupManual: (act: "BOWL" | "STIR" | "VALVE") => void;
+  onApplyGroupManual: (act: ManualAction) => void;
   onApplyGroupAuto: () => void;
   selectedCages: Cage[];
+  studies: string[];
+  treatmentsFor: (studyId: string) => string[];
+  onSelectTreatment: (studyId: string, treatment: string) => void;
+  onSelectWhere: (terms: SelectionTerm[]) => void;
+  countMatching: (terms: SelectionTerm[]) => number;
+  onAssignStudy: () => void;
+  undo: { label: string; remainingSec: number } | null;
+  onUndo: () => void;
+  canOperate: boolean;
+  programs: FeedingProgram[];
+  onAssignProgram: (programId: string | null) => void;
+  cages: Cage[];
+  presets: AutoPreset[];
+  onApplySettings: (source: string) => void;
+  onSavePreset: (cageId: number, name: string) => string[];
+  onDeletePreset: (id: string) => void;
 }) {
-  const canManual = allSelectedSameMode && sharedMode === "MANUAL";
-  const canAuto = allSelectedSameMode && sharedMode === "AUTO";
+  const [pickProgram, setPickProgram] = useState("");
+  const [pickSource, setPickSource] = useState("");
+  const [presetName, setPresetName] = useState("");
+  const [presetIssues, setPresetIssues] = useState<string[]>([]);
+  const [sourceKind, sourceId] = pickSource.split(":");
+  const [pickStudy, setPickStudy] = useState("");
+  const [pickTreatment, setPickTreatment] = useState("");
+  const [queryText, setQueryText] = useState("");
+  const query = parseSelectionQuery(queryText);
+  const treatmentOptions = treatmentsFor(pickStudy);
+  const canManual = canOperate && allSelectedSameMode && sharedMode === "MANUAL";
+  const canAuto = canOperate && allSelectedSameMode && sharedMode === "AUTO";
 
   return (
     <div className="bg-white border border-slate-200 rounded-lg shadow-sm sticky top-[56px] max-h-[calc(100vh-72px)] overflow-auto">
       <div className="px-2.5 py-1.5 border-b border-slate-100">
         <div className="font-medium">Group Control</div>
-        <div className="text-[11px] text-slate-600">{selectedCount} selected</div>
+        <div className="text-[11px] text-slate-600">
+          {selectedCount} selected{canOperate ? "" : " · view only"}
+        </div>
       </div>
 
       <div className="p-2.5 space-y-2.5 text-[11px]">
+        {undo && (
+          <div className="rounded border border-amber-300 bg-amber-50 p-2 flex items-center justify-between gap-1.5">
+            <div className="text-[10px] text-amber-900">
+              Applied: {undo.label}
+            </div>
+            <button className="px-2 py-0.5 rounded border border-amber-300 bg-white shrink-0" disabled={!canOperate} onClick={onUndo}>
+              Undo ({undo.remainingSec}s)
+            </button>
+          </div>
+        )}
+
+        <section className="rounded border border-slate-200 p-2 bg-white">
+          <div className="font-medium mb-1">Select</div>
+          <div className="flex flex-wrap gap-0.5">
+            {QUICK_SELECTS.map((q) => (
+              <button
+                key={q.query}
+                className="px-1.5 py-0.5 rounded border text-[10px]"
+                title={q.query}
+                onClick={() => {
+                  setQueryText(q.query);
+                  const parsed = parseSelectionQuery(q.query);
+                  if (parsed.ok) onSelectWhere(parsed.terms);
+                }}
+              >
+                {q.label}
+              </button>
+            ))}
+          </div>
+          <form
+            className="mt-1 flex gap-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (query.ok && query.terms.length) onSelectWhere(query.terms);
+            }}
+          >
+            <input
+              className={`min-w-0 flex-1 px-1 py-0.5 border rounded font-mono text-[10px] ${query.ok ? "" : "border-red-400"}`}
+              placeholder="mode=AUTO level=LOW station=3-5"
+              value={queryText}
+              onChange={(e) => setQueryText(e.target.value)}
+            />
+            <button type="submit" className="px-2 py-0.5 rounded border disabled:opacity-50" disabled={!query.ok || query.terms.length === 0}>
+              Select
+            </button>
+          </form>
+          <div className={`mt-0.5 text-[10px] ${query.ok ? "text-slate-500" : "text-red-700"}`}>
+            {!query.ok ? query.error : query.terms.length ? `${countMatching(query.terms)} cage(s) match` : "Shift-click Sel to select a range."}
+          </div>
+        </section>
+
         <section className="bg-slate-50 rounded border border-slate-200 p-2">
           <div className="font-medium mb-1">Set Mode</div>
           <div className="flex flex-wrap gap-1">
@@ -530,7 +1589,7 @@ function GroupPanel({
             ))}
           </div>
           <div className="mt-1.5 flex gap-1.5">
-            <button onClick={onApplyGroupMode} className="px-2.5 py-0.5 rounded border bg-slate-900 text-white" disabled={selectedCount === 0}>Apply</button>
+            <button onClick={onApplyGroupMode} className="px-2.5 py-0.5 rounded border bg-slate-900 text-white disabled:opacity-50" disabled={!canOperate || selectedCount === 0}>Apply…</button>
             <button onClick={onClearSelections} className="px-2.5 py-0.5 rounded border">Clear</button>
           </div>
           {!allSelectedSameMode && selectedCount > 0 && (
@@ -581,7 +1640,136 @@ function GroupPanel({
               </label>
               <input type="time" className="px-1 py-0.5 border rounded" value={groupAuto.autoExitTime} onChange={(e) => setGroupAuto({ ...groupAuto, autoExitTime: e.target.value })} disabled={!canAuto} />
             </div>
-            <button className="px-2.5 py-0.5 rounded border bg-slate-900 text-white" onClick={onApplyGroupAuto} disabled={!canAuto}>Apply Auto Settings</button>
+            <div className="flex items-center gap-1">
+              <span>Valve</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                className="w-10 px-1 py-0.5 border rounded"
+                value={groupAuto.valveOpenBelowPct}
+                onChange={(e) => setGroupAuto({ ...groupAuto, valveOpenBelowPct: clampPct(Number(e.target.value)) })}
+                disabled={!canAuto}
+              />
+              <span>–</span>
+              <input
+                type="number"
+                min={0}
+                max={100}
+                className="w-10 px-1 py-0.5 border rounded"
+                value={groupAuto.valveCloseAbovePct}
+                onChange={(e) => setGroupAuto({ ...groupAuto, valveCloseAbovePct: clampPct(Number(e.target.value)) })}
+                disabled={!canAuto}
+              />
+              <span>%</span>
+            </div>
+            <button className="px-2.5 py-0.5 rounded border bg-slate-900 text-white" onClick={onApplyGroupAuto} disabled={!canAuto}>Apply Auto Settings…</button>
+          </div>
+        </section>
+
+        <section className="rounded border border-slate-200 p-2 bg-white">
+          <div className="font-medium mb-1">Feeding Program</div>
+          <div className="flex flex-col gap-1">
+            <select className="px-1 py-0.5 border rounded" value={pickProgram} onChange={(e) => setPickProgram(e.target.value)}>
+              <option value="">Fixed interval</option>
+              {programs.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            <button className="px-2 py-0.5 rounded border" disabled={!canOperate || selectedCount === 0} onClick={() => onAssignProgram(pickProgram || null)}>
+              Assign to selection…
+            </button>
+          </div>
+        </section>
+
+        <section className="rounded border border-slate-200 p-2 bg-white">
+          <div className="font-medium mb-1">Presets / Copy Settings</div>
+          <div className="flex flex-col gap-1">
+            <select
+              className="px-1 py-0.5 border rounded"
+              value={pickSource}
+              onChange={(e) => {
+                setPickSource(e.target.value);
+                setPresetIssues([]);
+              }}
+            >
+              <option value="">Preset or cage…</option>
+              <optgroup label="Presets">
+                {presets.map((p) => (
+                  <option key={p.id} value={`preset:${p.id}`}>{p.name}</option>
+                ))}
+              </optgroup>
+              <optgroup label="Copy from cage">
+                {cages.map((c) => (
+                  <option key={c.id} value={`cage:${c.id}`}>{c.name} (S{c.station})</option>
+                ))}
+              </optgroup>
+            </select>
+            <button className="px-2 py-0.5 rounded border" disabled={!canOperate || !pickSource || selectedCount === 0} onClick={() => onApplySettings(pickSource)}>
+              Apply to selection…
+            </button>
+            {sourceKind === "cage" && (
+              <div className="flex gap-1">
+                <input className="min-w-0 flex-1 px-1 py-0.5 border rounded" placeholder="Preset name" value={presetName} onChange={(e) => setPresetName(e.target.value)} />
+                <button
+                  className="px-2 py-0.5 rounded border"
+                  disabled={!canOperate}
+                  onClick={() => {
+                    const issues = onSavePreset(Number(sourceId), presetName);
+                    setPresetIssues(issues);
+                    if (!issues.length) setPresetName("");
+                  }}
+                >
+                  Save
+                </button>
+              </div>
+            )}
+            {sourceKind === "preset" && (
+              <button
+                className="px-2 py-0.5 rounded border"
+                disabled={!canOperate}
+                onClick={() => {
+                  onDeletePreset(sourceId);
+                  setPickSource("");
+                }}
+              >
+                Delete preset
+              </button>
+            )}
+            {presetIssues.map((issue) => (
+              <div key={issue} className="text-[10px] text-red-700">{issue}</div>
+            ))}
+          </div>
+        </section>
+
+        <section className="rounded border border-slate-200 p-2 bg-white">
+          <div className="font-medium mb-1">Study / Treatment</div>
+          <div className="flex flex-col gap-1">
+            <select
+              className="px-1 py-0.5 border rounded"
+              value={pickStudy}
+              onChange={(e) => {
+                setPickStudy(e.target.value);
+                setPickTreatment("");
+              }}
+            >
+              <option value="">Any study</option>
+              {studies.map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+            <select className="px-1 py-0.5 border rounded" value={pickTreatment} onChange={(e) => setPickTreatment(e.target.value)}>
+              <option value="">Any treatment</option>
+              {treatmentOptions.map((t) => (
+                <option key={t} value={t}>{t}</option>
+              ))}
+            </select>
+            <button className="px-2 py-0.5 rounded border" disabled={studies.length === 0} onClick={() => onSelectTreatment(pickStudy, pickTreatment)}>
+              Select matching cages
+            </button>
+            <button className="px-2 py-0.5 rounded border" disabled={!canOperate || selectedCount === 0} onClick={onAssignStudy}>
+              Assign study to selection…
+            </button>
           </div>
         </section>
 
@@ -592,7 +1780,7 @@ function GroupPanel({
           ) : (
             <ul className="text-[11px] text-slate-700 list-disc ml-4 space-y-0.5">
               {selectedCages.map((c) => (
-                <li key={c.id}>{c.name}: <span className="uppercase">{c.mode}</span> · Bowl {c.bowl} · Stir {c.stirring ? "ON" : "OFF"} · Valve {c.valveOpen ? "ON" : "OFF"}</li>
+                <li key={c.id}>{c.name}: <span className="uppercase">{c.stopped ? "e-stop" : c.outOfService ? "out of service" : c.mode}</span> · Bowl {c.bowl} · Stir {c.stirring ? "ON" : "OFF"} · Valve {c.valveOpen ? "ON" : "OFF"}</li>
               ))}
             </ul>
           )}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_ALARM_CONFIG, evaluateAlarms, isOpen } from "./alarms";
+import type { Alarm } from "./alarms";
+import { createInitialCages } from "./cages";
+import { loadFacilityConfig } from "./facility";
+
+const NOW = new Date(2026, 0, 5, 12, 0, 0).getTime();
+
+function alarm(i: number, cleared: boolean): Alarm {
+  return {
+    id: `VALVE_OPEN_TOO_LONG:${i}:${i}`,
+    kind: "VALVE_OPEN_TOO_LONG",
+    severity: "critical",
+    cageId: i,
+    cage: `C${i}`,
+    station: 1,
+    message: "",
+    since: i,
+    raisedAt: i,
+    resolvedAt: i + 1,
+    acknowledgedAt: null,
+    clearedAt: cleared ? i + 2 : null,
+  };
+}
+
+describe("alarm list", () => {
+  it("raises an alarm once a condition outlasts its threshold", () => {
+    const cages = createInitialCages(loadFacilityConfig()).map((c, i) => (i === 0 ? { ...c, valveOpen: true } : c));
+    const timers = new Map<string, number>();
+    const empty: Alarm[] = [];
+    expect(evaluateAlarms(empty, cages, timers, DEFAULT_ALARM_CONFIG, NOW, [])).toBe(empty);
+    const raised = evaluateAlarms(empty, cages, timers, DEFAULT_ALARM_CONFIG, NOW + DEFAULT_ALARM_CONFIG.valveOpenMaxMin * 60_000, []);
+    expect(raised).toEqual([expect.objectContaining({ kind: "VALVE_OPEN_TOO_LONG", cageId: cages[0].id, since: NOW })]);
+  });
+
+  it("keeps at most 1000 alarms in memory, dropping the oldest cleared ones first", () => {
+    // 5 open alarms and 995 cleared ones, then a new one is raised.
+    const history = Array.from({ length: 1000 }, (_, i) => alarm(10_000 + i, i >= 5));
+    const cages = createInitialCages(loadFacilityConfig()).map((c, i) => (i === 0 ? { ...c, valveOpen: true } : c));
+    const timers = new Map([[`VALVE_OPEN_TOO_LONG:${cages[0].id}`, NOW - DEFAULT_ALARM_CONFIG.valveOpenMaxMin * 60_000]]);
+    const next = evaluateAlarms(history, cages, timers, DEFAULT_ALARM_CONFIG, NOW, []);
+    expect(next).toHaveLength(1000);
+    expect(next.filter(isOpen)).toHaveLength(6);
+    expect(next).not.toContain(history[5]);
+    expect(next.at(-1)).toMatchObject({ cageId: cages[0].id, raisedAt: NOW });
+  });
+});
@@ -0,0 +1,190 @@
+// Alarm engine. Each scheduler tick the cage table is checked for abnormal conditions; a
+// condition that persists past its threshold raises an alarm, which stays listed until an
+// operator clears it. Acknowledgements and clears are kept as history in localStorage.
+
+import { levelStatus } from "./level";
+import { planForCage } from "./scheduler";
+import type { Cage, FeedingProgram } from "./types";
+
+export type AlarmSeverity = "warning" | "critical";
+
+export type AlarmKind = "VALVE_OPEN_TOO_LONG" | "STIR_WITHOUT_SCHEDULE" | "LEVEL_LOW_TOO_LONG" | "BOWL_OUT_IN_AUTO";
+
+export type AlarmConfig = {
+  valveOpenMaxMin: number;
+  lowLevelMaxMin: number;
+  stirGraceSec: number; // tolerated stir outside a schedule window (command latency)
+  bowlOutGraceSec: number;
+};
+
+export const DEFAULT_ALARM_CONFIG: AlarmConfig = { valveOpenMaxMin: 10, lowLevelMaxMin: 30, stirGraceSec: 15, bowlOutGraceSec: 10 };
+
+export type Alarm = {
+  id: string;
+  kind: AlarmKind;
+  severity: AlarmSeverity;
+  cageId: number;
+  cage: string;
+  station: number;
+  message: string;
+  since: number; // when the condition was first seen
+  raisedAt: number;
+  resolvedAt: number | null; // condition no longer present
+  acknowledgedAt: number | null;
+  acknowledgedBy?: string; // username; absent on alarms stored before user accounts
+  clearedAt: number | null; // removed from the open list by an operator
+  clearedBy?: string;
+};
+
+type Rule = {
+  kind: AlarmKind;
+  severity: AlarmSeverity;
+  active: (c: Cage, now: number, programs: FeedingProgram[]) => boolean;
+  thresholdMs: (config: AlarmConfig) => number;
+  message: (c: Cage, config: AlarmConfig) => string;
+};
+
+const RULES: Rule[] = [
+  {
+    kind: "VALVE_OPEN_TOO_LONG",
+    severity: "critical",
+    active: (c) => c.valveOpen,
+    thresholdMs: (cfg) => cfg.valveOpenMaxMin * 60_000,
+    message: (c, cfg) => `${c.name}: valve open longer than ${cfg.valveOpenMaxMin} min`,
+  },
+  {
+    kind: "STIR_WITHOUT_SCHEDULE",
+    severity: "warning",
+    // MANUAL and SEMI stirring is operator/API driven; in AUTO only inside a stir window.
+    active: (c, now, programs) => c.stirring && (c.mode === "OFF" || (c.mode === "AUTO" && !planForCage(c, now, programs)?.stirring)),
+    thresholdMs: (cfg) => cfg.stirGraceSec * 1000,
+    message: (c) => `${c.name}: stirrer running with no schedule (${c.mode})`,
+  },
+  {
+    kind: "LEVEL_LOW_TOO_LONG",
+    severity: "warning",
+    // An out-of-service cage is expected to run empty.
+    active: (c) => !c.outOfService && levelStatus(c.levelPct, c.auto) === "LOW",
+    thresholdMs: (cfg) => cfg.lowLevelMaxMin * 60_000,
+    message: (c, cfg) => `${c.name}: feed level LOW for more than ${cfg.lowLevelMaxMin} min`,
+  },
+  {
+    kind: "BOWL_OUT_IN_AUTO",
+    severity: "critical",
+    // Between feeding program windows the bowl is OUT on purpose.
+    active: (c, now, programs) => c.mode === "AUTO" && c.bowl === "OUT" && planForCage(c, now, programs)?.bowl !== "OUT",
+    thresholdMs: (cfg) => cfg.bowlOutGraceSec * 1000,
+    message: (c) => `${c.name}: bowl OUT while in AUTO`,
+  },
+];
+
+export const ALARM_LABELS: Record<AlarmKind, string> = {
+  VALVE_OPEN_TOO_LONG: "Valve open too long",
+  STIR_WITHOUT_SCHEDULE: "Stir without schedule",
+  LEVEL_LOW_TOO_LONG: "Level LOW too long",
+  BOWL_OUT_IN_AUTO: "Bowl OUT in AUTO",
+};
+
+/** When each condition (`kind:cageId`) was first seen; kept across ticks by the caller. */
+export type ConditionTimers = Map<string, number>;
+
+/**
+ * Evaluate every rule against every cage and return the alarm list for this tick: new alarms
+ * for conditions past their threshold, `resolvedAt` set on alarms whose condition went away.
+ */
+export function evaluateAlarms(
+  alarms: Alarm[],
+  cages: Cage[],
+  timers: ConditionTimers,
+  config: AlarmConfig,
+  now: number,
+  programs: FeedingProgram[]
+): Alarm[] {
+  const open = new Map(alarms.filter((a) => a.clearedAt === null && a.resolvedAt === null).map((a) => [`${a.kind}:${a.cageId}`, a]));
+  const present = new Set<string>();
+  const raised: Alarm[] = [];
+
+  cages.forEach((c) => {
+    RULES.forEach((rule) => {
+      const key = `${rule.kind}:${c.id}`;
+      if (!rule.active(c, now, programs)) {
+        timers.delete(key);
+        return;
+      }
+      present.add(key);
+      const since = timers.get(key) ?? now;
+      timers.set(key, since);
+      if (open.has(key) || now - since < rule.thresholdMs(config)) return;
+      raised.push({
+        id: `${key}:${now}`,
+        kind: rule.kind,
+        severity: rule.severity,
+        cageId: c.id,
+        cage: c.name,
+        station: c.station,
+        message: rule.message(c, config),
+        since,
+        raisedAt: now,
+        resolvedAt: null,
+        acknowledgedAt: null,
+        clearedAt: null,
+      });
+    });
+  });
+
+  let changed = raised.length > 0;
+  const next = alarms.map((a) => {
+    const key = `${a.kind}:${a.cageId}`;
+    if (open.get(key) !== a || present.has(key)) return a;
+    changed = true;
+    return { ...a, resolvedAt: now };
+  });
+  return changed ? trimAlarms([...next, ...raised]) : alarms;
+}
+
+export function isOpen(a: Alarm) {
+  return a.clearedAt === null;
+}
+
+/** Worst severity among open alarms, for highlighting a cage or station. */
+export function worstSeverity(alarms: Alarm[]): AlarmSeverity | null {
+  const open = alarms.filter(isOpen);
+  if (open.some((a) => a.severity === "critical")) return "critical";
+  return open.length > 0 ? "warning" : null;
+}
+
+// --- persistence: open alarms and acknowledgement/clear history
+
+const STORAGE_KEY = "pncl-cage-monitor/alarms";
+const MAX_STORED = 1000;
+
+type StoredAlarms = { config: AlarmConfig; alarms: Alarm[] };
+
+/** At most MAX_STORED alarms, dropping the oldest cleared ones first; open ones are always kept. */
+function trimAlarms(alarms: Alarm[]): Alarm[] {
+  const excess = alarms.length - MAX_STORED;
+  if (excess <= 0) return alarms;
+  const dropped = new Set(alarms.filter((a) => !isOpen(a)).slice(0, excess));
+  return alarms.filter((a) => !dropped.has(a));
+}
+
+export function loadAlarms(storage: Storage = localStorage): StoredAlarms {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as Partial<StoredAlarms>;
+      return { config: { ...DEFAULT_ALARM_CONFIG, ...parsed.config }, alarms: Array.isArray(parsed.alarms) ? parsed.alarms : [] };
+    }
+  } catch (err) {
+    console.error("Failed to load alarms", err);
+  }
+  return { config: DEFAULT_ALARM_CONFIG, alarms: [] };
+}
+
+export function saveAlarms(state: StoredAlarms, storage: Storage = localStorage) {
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify({ config: state.config, alarms: trimAlarms(state.alarms) }));
+  } catch (err) {
+    console.error("Failed to save alarms", err);
+  }
+}
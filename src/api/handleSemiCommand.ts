@@ -0,0 +1,69 @@
+// Executes a SEMI protocol command through the cage core, so API commands are interlock-checked,
+// tracked, audited and aborted by an emergency stop like every other actuation. Shared by the
+// browser monitor and the standalone stand-in server.
+
+import type { Actuators, CageController } from "../controller";
+import type { Actor, CageCore } from "../core";
+import type { Cage } from "../types";
+import { SemiApiError, describeCageRef, resolveCageRef, toSemiCageState } from "./protocol";
+import type { SemiCageState, SemiCommand } from "./protocol";
+
+export const API_ACTOR: Actor = { source: "api", user: "api" };
+
+function commandTarget(command: Exclude<SemiCommand, { action: "GET_STATE" }>): Partial<Actuators> {
+  switch (command.action) {
+    case "SET_BOWL":
+      return { bowl: command.bowl };
+    case "SET_STIR":
+      return { stirring: command.on };
+    case "SET_VALVE":
+      return { valveOpen: command.open };
+  }
+}
+
+function stoppedError(c: Cage) {
+  return new SemiApiError("EMERGENCY_STOP", `${c.name} is latched by an emergency stop; API commands are not accepted until it is reset`);
+}
+
+// Out-of-service cages are held in OFF; the code stays NOT_IN_SEMI so clients need no new case.
+function outOfServiceError(c: Cage) {
+  return new SemiApiError("NOT_IN_SEMI", `${c.name} is out of service (${c.outOfService?.reason ?? ""}); API commands are not accepted`);
+}
+
+/** `controller` only answers reads (GET_STATE and the state after a command); commands go through `core`. */
+export async function handleSemiCommand(command: SemiCommand, core: CageCore, controller: CageController): Promise<SemiCageState> {
+  const cage = resolveCageRef(core.cages(), command.cage);
+  if (!cage) throw new SemiApiError("UNKNOWN_CAGE", `no cage matches ${describeCageRef(command.cage)}`);
+
+  async function state(c: Cage) {
+    try {
+      return toSemiCageState({ ...c, ...(await controller.readState(c.id)), id: c.id });
+    } catch (err) {
+      throw new SemiApiError("DEVICE_ERROR", err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  if (command.action === "GET_STATE") return state(cage);
+  // Latched and held cages are OFF; the core refuses them below with their own reason.
+  if (cage.mode !== "SEMI" && !cage.stopped && !cage.outOfService) {
+    throw new SemiApiError("NOT_IN_SEMI", `${cage.name} is in ${cage.mode}; API commands are only accepted in SEMI`);
+  }
+
+  const result = await core.request(cage.id, commandTarget(command), API_ACTOR);
+  const after = core.cage(cage.id) ?? cage;
+  switch (result.status) {
+    case "unknownCage":
+      throw new SemiApiError("UNKNOWN_CAGE", `no cage matches ${describeCageRef(command.cage)}`);
+    case "stopped":
+      throw stoppedError(after);
+    case "outOfService":
+      throw outOfServiceError(after);
+    case "blocked":
+      throw new SemiApiError("INTERLOCK", `${cage.name}: ${result.rule.description} (${result.rule.id})`);
+    case "failed":
+      throw new SemiApiError("DEVICE_ERROR", result.error instanceof Error ? result.error.message : String(result.error));
+  }
+  // An emergency stop while the command ran aborted the steps not yet sent.
+  if (after.stopped) throw stoppedError(after);
+  return state(after);
+}
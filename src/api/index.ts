@@ -0,0 +1,23 @@
+export { API_ACTOR, handleSemiCommand } from "./handleSemiCommand";
+export {
+  SEMI_API_VERSION,
+  SEMI_ERROR_HTTP_STATUS,
+  SemiApiError,
+  describeCageRef,
+  parseSemiCommand,
+  resolveCageRef,
+  toErrorResponse,
+  toSemiCageState,
+} from "./protocol";
+export type {
+  CageRef,
+  SemiAction,
+  SemiBridgeRequest,
+  SemiBridgeResponse,
+  SemiCageState,
+  SemiCommand,
+  SemiErrorCode,
+  SemiResponse,
+} from "./protocol";
+export { connectSemiBridge } from "./semiBridge";
+export type { SemiBridgeOptions, SemiBridgeStatus } from "./semiBridge";
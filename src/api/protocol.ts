@@ -0,0 +1,124 @@
+// SEMI mode command protocol (v1). External experiment programs address a cage by
+// name (C1..C48) or by station/cageNumber and may only actuate cages that are in SEMI.
+
+import { levelStatus } from "../level";
+import type { Bowl, Cage, Level, Mode } from "../types";
+
+export const SEMI_API_VERSION = 1;
+
+export type CageRef = { name: string } | { station: number; cageNumber: number };
+
+export type SemiCommand =
+  | { action: "GET_STATE"; cage: CageRef }
+  | { action: "SET_BOWL"; cage: CageRef; bowl: Bowl }
+  | { action: "SET_STIR"; cage: CageRef; on: boolean }
+  | { action: "SET_VALVE"; cage: CageRef; open: boolean };
+
+export type SemiAction = SemiCommand["action"];
+
+export type SemiCageState = {
+  name: string;
+  station: number;
+  cageNumber: number;
+  mode: Mode;
+  bowl: Bowl;
+  stirring: boolean;
+  valveOpen: boolean;
+  level: Level; // LOW at or below the cage's valve-open threshold
+  levelPct: number;
+};
+
+export type SemiErrorCode =
+  | "BAD_REQUEST" // malformed command
+  | "UNKNOWN_CAGE" // no cage matches the reference
+  | "NOT_IN_SEMI" // cage is not in SEMI mode; only GET_STATE is allowed
+  | "INTERLOCK" // e.g. opening the valve while the bowl is OUT
+  | "EMERGENCY_STOP" // cage is latched by an E-STOP; only GET_STATE is allowed until it is reset
+  | "DEVICE_ERROR" // the controller rejected or failed the command
+  | "MONITOR_OFFLINE" // no monitor is connected to the relay server
+  | "TIMEOUT"; // the monitor did not answer in time
+
+export type SemiResponse =
+  | { requestId: string; ok: true; cage: SemiCageState }
+  | { requestId: string; ok: false; error: { code: SemiErrorCode; message: string } };
+
+/** Relay server → monitor. */
+export type SemiBridgeRequest = { type: "command"; requestId: string; command: SemiCommand };
+/** Monitor → relay server. */
+export type SemiBridgeResponse = { type: "response"; response: SemiResponse };
+
+export const SEMI_ERROR_HTTP_STATUS: Record<SemiErrorCode, number> = {
+  BAD_REQUEST: 400,
+  UNKNOWN_CAGE: 404,
+  NOT_IN_SEMI: 409,
+  INTERLOCK: 409,
+  EMERGENCY_STOP: 409,
+  DEVICE_ERROR: 502,
+  MONITOR_OFFLINE: 503,
+  TIMEOUT: 504,
+};
+
+export class SemiApiError extends Error {
+  readonly code: SemiErrorCode;
+
+  constructor(code: SemiErrorCode, message: string) {
+    super(message);
+    this.name = "SemiApiError";
+    this.code = code;
+  }
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function parseCageRef(raw: unknown): CageRef {
+  if (typeof raw === "string") return { name: raw };
+  if (isObject(raw)) {
+    if (typeof raw.name === "string") return { name: raw.name };
+    if (Number.isInteger(raw.station) && Number.isInteger(raw.cageNumber)) {
+      return { station: raw.station as number, cageNumber: raw.cageNumber as number };
+    }
+  }
+  throw new SemiApiError("BAD_REQUEST", 'cage must be a name ("C12") or { station, cageNumber }');
+}
+
+/** Validate an untrusted JSON value as a SemiCommand. */
+export function parseSemiCommand(raw: unknown): SemiCommand {
+  if (!isObject(raw)) throw new SemiApiError("BAD_REQUEST", "command must be a JSON object");
+  const cage = parseCageRef(raw.cage);
+  switch (raw.action) {
+    case "GET_STATE":
+      return { action: "GET_STATE", cage };
+    case "SET_BOWL":
+      if (raw.bowl !== "IN" && raw.bowl !== "OUT") throw new SemiApiError("BAD_REQUEST", 'bowl must be "IN" or "OUT"');
+      return { action: "SET_BOWL", cage, bowl: raw.bowl };
+    case "SET_STIR":
+      if (typeof raw.on !== "boolean") throw new SemiApiError("BAD_REQUEST", "on must be a boolean");
+      return { action: "SET_STIR", cage, on: raw.on };
+    case "SET_VALVE":
+      if (typeof raw.open !== "boolean") throw new SemiApiError("BAD_REQUEST", "open must be a boolean");
+      return { action: "SET_VALVE", cage, open: raw.open };
+    default:
+      throw new SemiApiError("BAD_REQUEST", `unknown action ${JSON.stringify(raw.action)}`);
+  }
+}
+
+export function resolveCageRef<C extends Pick<Cage, "name" | "station" | "cageNumber">>(cages: C[], ref: CageRef): C | undefined {
+  if ("name" in ref) return cages.find((c) => c.name.toUpperCase() === ref.name.toUpperCase());
+  return cages.find((c) => c.station === ref.station && c.cageNumber === ref.cageNumber);
+}
+
+export function describeCageRef(ref: CageRef): string {
+  return "name" in ref ? ref.name : `station ${ref.station} cage ${ref.cageNumber}`;
+}
+
+export function toSemiCageState(c: Cage): SemiCageState {
+  const { name, station, cageNumber, mode, bowl, stirring, valveOpen, levelPct } = c;
+  return { name, station, cageNumber, mode, bowl, stirring, valveOpen, level: levelStatus(levelPct, c.auto), levelPct };
+}
+
+export function toErrorResponse(requestId: string, err: unknown): SemiResponse {
+  if (err instanceof SemiApiError) return { requestId, ok: false, error: { code: err.code, message: err.message } };
+  return { requestId, ok: false, error: { code: "DEVICE_ERROR", message: err instanceof Error ? err.message : String(err) } };
+}
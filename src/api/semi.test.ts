@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createInitialCages } from "../cages";
+import { createSimulatedTransport, createTransportController } from "../controller";
+import { createCageCore } from "../core";
+import type { Actor, CoreEvent } from "../core";
+import { loadFacilityConfig } from "../facility";
+import { API_ACTOR, handleSemiCommand } from "./handleSemiCommand";
+import type { SemiCommand } from "./protocol";
+
+const OPERATOR: Actor = { source: "manual", user: "tester" };
+const LATENCY_MS = 100;
+
+function setup() {
+  const cages = createInitialCages(loadFacilityConfig()).map((c) => ({ ...c, mode: c.name === "C2" ? ("MANUAL" as const) : ("SEMI" as const) }));
+  const controller = createTransportController(createSimulatedTransport({ cageIds: cages.map((c) => c.id), latencyMs: LATENCY_MS }));
+  const core = createCageCore({ cages, controller });
+  const disconnect = core.connect();
+  const events: CoreEvent[] = [];
+  core.onEvent((e) => events.push(e));
+  // Starts a command and lets the simulated hardware answer it.
+  async function handle(command: SemiCommand) {
+    const result = handleSemiCommand(command, core, controller);
+    result.catch(() => {});
+    await vi.advanceTimersByTimeAsync(LATENCY_MS * 10);
+    return result;
+  }
+  return { core, controller, events, disconnect, handle };
+}
+
+let rig: ReturnType<typeof setup>;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(2026, 0, 5, 12, 0, 0));
+  rig = setup();
+});
+
+afterEach(() => {
+  rig.disconnect();
+  vi.useRealTimers();
+});
+
+describe("SEMI commands", () => {
+  it("go through the core as tracked commands of the API", async () => {
+    const { events, handle } = rig;
+    await expect(handle({ action: "SET_STIR", cage: { name: "C1" }, on: true })).resolves.toMatchObject({ name: "C1", stirring: true });
+    expect(events).toContainEqual(expect.objectContaining({ type: "command", target: { stirring: true }, actor: API_ACTOR }));
+    expect(events).toContainEqual(expect.objectContaining({ type: "commandDone", report: expect.objectContaining({ stirring: true }) }));
+  });
+
+  it("are refused outside SEMI", async () => {
+    await expect(rig.handle({ action: "SET_STIR", cage: { name: "C2" }, on: true })).rejects.toMatchObject({ code: "NOT_IN_SEMI" });
+    expect(rig.events.filter((e) => e.type === "command")).toEqual([]);
+  });
+
+  it("are checked against the interlocks by the core", async () => {
+    const { events, handle } = rig;
+    await handle({ action: "SET_BOWL", cage: { name: "C1" }, bowl: "OUT" });
+    await expect(handle({ action: "SET_VALVE", cage: { name: "C1" }, open: true })).rejects.toMatchObject({ code: "INTERLOCK" });
+    expect(events).toContainEqual(expect.objectContaining({ type: "blocked", actor: API_ACTOR, rule: expect.objectContaining({ id: "VALVE_REQUIRES_BOWL_IN" }) }));
+  });
+
+  it("are aborted by an emergency stop and refused while latched", async () => {
+    const { core, events, handle } = rig;
+    const id = core.cages().find((c) => c.name === "C1")!.id;
+    const running = handleSemiCommand({ action: "SET_BOWL", cage: { name: "C1" }, bowl: "OUT" }, core, rig.controller);
+    running.catch(() => {});
+    void core.emergencyStop([id], { scope: "facility", station: null }, OPERATOR);
+    await vi.advanceTimersByTimeAsync(LATENCY_MS * 10);
+    await expect(running).rejects.toMatchObject({ code: "EMERGENCY_STOP" });
+    await expect(handle({ action: "SET_STIR", cage: { name: "C1" }, on: true })).rejects.toMatchObject({ code: "EMERGENCY_STOP" });
+    expect(events).toContainEqual(expect.objectContaining({ type: "stopped", actor: API_ACTOR }));
+  });
+});
@@ -0,0 +1,61 @@
+// Browser side of the SEMI API: the monitor connects to the relay server over WebSocket,
+// executes the commands it forwards and answers each one with a SemiResponse.
+
+import { parseSemiCommand, toErrorResponse } from "./protocol";
+import type { SemiBridgeRequest, SemiBridgeResponse, SemiCageState, SemiCommand } from "./protocol";
+
+export type SemiBridgeStatus = "connecting" | "connected" | "disconnected";
+
+export type SemiBridgeOptions = {
+  url: string;
+  onCommand: (command: SemiCommand) => Promise<SemiCageState>;
+  onStatus?: (status: SemiBridgeStatus) => void;
+  reconnectMs?: number;
+};
+
+/** Keep a bridge connection open (reconnecting as needed) until the returned function is called. */
+export function connectSemiBridge({ url, onCommand, onStatus, reconnectMs = 3000 }: SemiBridgeOptions): () => void {
+  let socket: WebSocket | null = null;
+  let retry: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  async function answer(request: SemiBridgeRequest) {
+    let message: SemiBridgeResponse;
+    try {
+      const cage = await onCommand(parseSemiCommand(request.command));
+      message = { type: "response", response: { requestId: request.requestId, ok: true, cage } };
+    } catch (err) {
+      message = { type: "response", response: toErrorResponse(request.requestId, err) };
+    }
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  }
+
+  function open() {
+    onStatus?.("connecting");
+    socket = new WebSocket(url);
+    socket.onopen = () => onStatus?.("connected");
+    socket.onmessage = (e) => {
+      let request: SemiBridgeRequest;
+      try {
+        request = JSON.parse(String(e.data));
+      } catch {
+        return;
+      }
+      if (request?.type === "command" && typeof request.requestId === "string") void answer(request);
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      onStatus?.("disconnected");
+      retry = setTimeout(open, reconnectMs);
+    };
+  }
+
+  open();
+  return () => {
+    closed = true;
+    clearTimeout(retry);
+    socket?.close();
+    onStatus?.("disconnected");
+  };
+}
@@ -0,0 +1,82 @@
+// Append-only actuation audit log, stored in IndexedDB. Every mode change, AUTO settings change
+// and device-confirmed actuator/level change is recorded with its source for the study records.
+// Requests rejected by a safety interlock are recorded under the "interlock" field; out-of-service
+// holds and valve calibrations under "service" and "calibration", emergency stops and resets under "estop",
+// and feed/weight records entered or deleted under "intake".
+
+import { AUDIT_STORE, openDb, requestResult } from "./db";
+import type { AutoSettings } from "./types";
+
+export type EventSource = "manual" | "group" | "auto" | "api" | "device";
+export const EVENT_SOURCES: EventSource[] = ["manual", "group", "auto", "api", "device"];
+
+export type AuditField = "mode" | "auto" | "bowl" | "stirring" | "valveOpen" | "level" | "program" | "study" | "interlock" | "service" | "calibration" | "estop" | "intake";
+export const AUDIT_FIELDS: AuditField[] = ["mode", "auto", "bowl", "stirring", "valveOpen", "level", "program", "study", "interlock", "service", "calibration", "estop", "intake"];
+
+export type AuditEntry = {
+  seq: number; // IndexedDB key, strictly increasing
+  at: number; // epoch ms
+  cageId: number;
+  cage: string;
+  station: number;
+  source: EventSource;
+  user: string; // signed-in account that caused the change; "system" for AUTO, "api" for SEMI, "" for device telemetry
+  field: AuditField;
+  before: string;
+  after: string;
+};
+
+export type NewAuditEntry = Omit<AuditEntry, "seq" | "at"> & { at?: number };
+
+export type AuditQuery = { from: number; to: number };
+
+export interface AuditLog {
+  append(entry: NewAuditEntry): void;
+  /** Entries with from <= at < to, oldest first. */
+  query(range: AuditQuery): Promise<AuditEntry[]>;
+  queryCage(cageId: number, range: AuditQuery): Promise<AuditEntry[]>;
+  subscribe(listener: (entry: AuditEntry) => void): () => void;
+}
+
+/** `dbName` and `now` are overridden in simulation mode (separate database, virtual clock). */
+export function createAuditLog({ dbName, now = Date.now }: { dbName?: string; now?: () => number } = {}): AuditLog {
+  const db = openDb(dbName);
+  const listeners = new Set<(entry: AuditEntry) => void>();
+
+  return {
+    append(entry) {
+      const record = { ...entry, at: entry.at ?? now() };
+      db.then((d) => requestResult(d.transaction(AUDIT_STORE, "readwrite").objectStore(AUDIT_STORE).add(record)))
+        .then((seq) => {
+          const saved = { ...record, seq: seq as number };
+          listeners.forEach((l) => l(saved));
+        })
+        .catch((err) => console.error("Failed to append audit entry", err));
+    },
+    async query({ from, to }) {
+      const d = await db;
+      const index = d.transaction(AUDIT_STORE).objectStore(AUDIT_STORE).index("at");
+      return (await requestResult(index.getAll(IDBKeyRange.bound(from, to, false, true)))) as AuditEntry[];
+    },
+    async queryCage(cageId, { from, to }) {
+      const d = await db;
+      const index = d.transaction(AUDIT_STORE).objectStore(AUDIT_STORE).index("cage_at");
+      return (await requestResult(index.getAll(IDBKeyRange.bound([cageId, from], [cageId, to], false, true)))) as AuditEntry[];
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export function describeAutoSettings(a: AutoSettings): string {
+  return `every ${a.stirEveryMin} min for ${a.stirDurationSec} s, exit ${a.autoExitEnabled ? a.autoExitTime : "off"}, valve ${a.valveOpenBelowPct}–${a.valveCloseAbovePct}%`;
+}
+
+export function formatAuditValue(v: unknown): string {
+  if (typeof v === "boolean") return v ? "ON" : "OFF";
+  return String(v);
+}
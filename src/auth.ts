@@ -0,0 +1,89 @@
+// Local user accounts and roles. Accounts live in src/config/users.json (salted SHA-256 password
+// hashes, see `npm run users:add`); the signed-in user is kept in sessionStorage for the tab.
+// No external identity provider is involved.
+
+import usersConfig from "./config/users.json";
+
+export const ROLES = ["viewer", "operator", "admin"] as const;
+export type Role = typeof ROLES[number];
+
+export type User = { username: string; name: string; role: Role };
+
+type Account = User & { salt: string; passwordHash: string };
+
+/** What a role may do. Viewers only see status; anything that changes a cage needs `operate`. */
+export type Permission = "operate" | "editPrograms" | "editAlarmConfig";
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: [],
+  operator: ["operate"],
+  admin: ["operate", "editPrograms", "editAlarmConfig"],
+};
+
+export function can(user: User, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+export const ROLE_LABELS: Record<Role, string> = { viewer: "Viewer", operator: "Operator", admin: "Admin" };
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export interface AuthProvider {
+  login(username: string, password: string): Promise<User>;
+  /** The user signed in earlier in this browser tab, if any. */
+  currentUser(): User | null;
+  logout(): void;
+}
+
+const SESSION_KEY = "pncl-cage-monitor/session";
+
+/** Hex SHA-256 of "<salt>:<password>"; server/hashPassword.ts produces the same value. */
+export async function hashPassword(salt: string, password: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${salt}:${password}`));
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function isAccount(v: unknown): v is Account {
+  if (typeof v !== "object" || v === null) return false;
+  const a = v as Record<string, unknown>;
+  return (
+    typeof a.username === "string" &&
+    typeof a.name === "string" &&
+    ROLES.includes(a.role as Role) &&
+    typeof a.salt === "string" &&
+    typeof a.passwordHash === "string"
+  );
+}
+
+function toUser({ username, name, role }: Account): User {
+  return { username, name, role };
+}
+
+export function createLocalAuth(config: unknown = usersConfig, storage: Storage = sessionStorage): AuthProvider {
+  const raw = (config as { users?: unknown[] }).users;
+  const accounts = (Array.isArray(raw) ? raw : []).filter(isAccount);
+
+  return {
+    async login(username, password) {
+      const account = accounts.find((a) => a.username.toLowerCase() === username.trim().toLowerCase());
+      // Same message for unknown users and wrong passwords.
+      if (!account || (await hashPassword(account.salt, password)) !== account.passwordHash) throw new AuthError("Unknown user or wrong password");
+      const user = toUser(account);
+      storage.setItem(SESSION_KEY, user.username);
+      return user;
+    },
+    currentUser() {
+      const username = storage.getItem(SESSION_KEY);
+      const account = accounts.find((a) => a.username === username);
+      return account ? toUser(account) : null;
+    },
+    logout() {
+      storage.removeItem(SESSION_KEY);
+    },
+  };
+}
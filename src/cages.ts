@@ -0,0 +1,46 @@
+// Cage table generated from the facility config, shared by the monitor UI and the local API server.
+
+import { facilityStations } from "./facility";
+import type { FacilityConfig } from "./facility";
+import { DEFAULT_VALVE_CLOSE_ABOVE_PCT, DEFAULT_VALVE_OPEN_BELOW_PCT } from "./level";
+import type { AutoSettings, Cage } from "./types";
+
+export const DEFAULT_AUTO_SETTINGS: AutoSettings = {
+  stirEveryMin: 15,
+  stirDurationSec: 10,
+  autoExitEnabled: false,
+  autoExitTime: "06:00",
+  valveOpenBelowPct: DEFAULT_VALVE_OPEN_BELOW_PCT,
+  valveCloseAbovePct: DEFAULT_VALVE_CLOSE_ABOVE_PCT,
+};
+
+export function createInitialCages(facility: FacilityConfig): Cage[] {
+  const out: Cage[] = [];
+  let id = 0;
+  for (const station of facilityStations(facility)) {
+    for (let c = 1; c <= station.cages; c++) {
+      out.push({
+        id,
+        room: station.room,
+        station: station.number,
+        cageNumber: c,
+        name: station.cageNames[c - 1],
+        mode: "OFF",
+        bowl: "IN",
+        stirring: false,
+        valveOpen: false,
+        levelPct: 60,
+        selected: false,
+        auto: { ...DEFAULT_AUTO_SETTINGS },
+        autoAnchor: null,
+        autoExitAt: null,
+        programId: null,
+        study: null,
+        outOfService: null,
+        stopped: null,
+      });
+      id++;
+    }
+  }
+  return out;
+}
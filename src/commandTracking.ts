@@ -0,0 +1,103 @@
+// Requested versus confirmed actuator state. Every field a command targets is "pending" until a
+// device report shows the requested value; a command that errors or runs out of retries marks the
+// field "failed" or "timeout" until the next command for it.
+
+import { formatAuditValue } from "./auditLog";
+import { ActuationError } from "./controller";
+import type { Actuators, DeviceReport } from "./controller";
+
+export type CommandStatus = "pending" | "confirmed" | "failed" | "timeout";
+
+export type FieldCommand = {
+  requested: Actuators[keyof Actuators];
+  status: CommandStatus;
+  sentAt: number;
+  /** Why the command failed, for tooltips. */
+  detail: string;
+};
+
+export type CageCommands = Partial<Record<keyof Actuators, FieldCommand>>;
+
+export type CommandBook = Map<number, CageCommands>;
+
+const ACTUATOR_FIELDS = ["bowl", "stirring", "valveOpen"] as const;
+
+function targetFields(target: Partial<Actuators>): (keyof Actuators)[] {
+  return ACTUATOR_FIELDS.filter((f) => target[f] !== undefined);
+}
+
+function update(book: CommandBook, cageId: number, fn: (cmds: CageCommands) => CageCommands | null): CommandBook {
+  const current = book.get(cageId) ?? {};
+  const next = fn(current);
+  if (next === null) return book;
+  return new Map(book).set(cageId, next);
+}
+
+/** Every field of `target` is now waiting for the device. */
+export function markPending(book: CommandBook, cageId: number, target: Partial<Actuators>, sentAt: number): CommandBook {
+  return update(book, cageId, (cmds) => {
+    const next = { ...cmds };
+    targetFields(target).forEach((f) => {
+      next[f] = { requested: target[f]!, status: "pending", sentAt, detail: "" };
+    });
+    return next;
+  });
+}
+
+/** A device report confirms pending (or late, timed-out) fields that now show the requested value. */
+export function confirmReport(book: CommandBook, report: DeviceReport): CommandBook {
+  return update(book, report.cageId, (cmds) => {
+    const fields = ACTUATOR_FIELDS.filter((f) => {
+      const cmd = cmds[f];
+      return cmd && (cmd.status === "pending" || cmd.status === "timeout") && cmd.requested === report[f];
+    });
+    if (!fields.length) return null;
+    const next = { ...cmds };
+    fields.forEach((f) => {
+      next[f] = { ...cmds[f]!, status: "confirmed", detail: "" };
+    });
+    return next;
+  });
+}
+
+/** The command sent at `sentAt` completed; fields the device still reports differently failed. */
+export function settleCommand(book: CommandBook, cageId: number, sentAt: number, report: DeviceReport | undefined): CommandBook {
+  return update(book, cageId, (cmds) => {
+    const fields = ACTUATOR_FIELDS.filter((f) => cmds[f]?.status === "pending" && cmds[f]?.sentAt === sentAt);
+    if (!fields.length) return null;
+    const next = { ...cmds };
+    fields.forEach((f) => {
+      const cmd = cmds[f]!;
+      const confirmed = report !== undefined && report[f] === cmd.requested;
+      next[f] = { ...cmd, status: confirmed ? "confirmed" : "failed", detail: confirmed ? "" : "Device did not report the requested value" };
+    });
+    return next;
+  });
+}
+
+/** The command sent at `sentAt` was rejected: the failing step gets the error, later steps were never sent. */
+export function failCommand(book: CommandBook, cageId: number, sentAt: number, err: unknown): CommandBook {
+  const failed = err instanceof ActuationError ? err.field : null;
+  const message = err instanceof Error ? err.message : String(err);
+  return update(book, cageId, (cmds) => {
+    const fields = ACTUATOR_FIELDS.filter((f) => cmds[f]?.status === "pending" && cmds[f]?.sentAt === sentAt);
+    if (!fields.length) return null;
+    const next = { ...cmds };
+    fields.forEach((f) => {
+      const cmd = cmds[f]!;
+      if (failed === null || f === failed) {
+        next[f] = { ...cmd, status: err instanceof ActuationError && err.timedOut ? "timeout" : "failed", detail: message };
+      } else {
+        next[f] = { ...cmd, status: "failed", detail: `Not sent: ${failed} step failed first` };
+      }
+    });
+    return next;
+  });
+}
+
+const STATUS_LABELS: Record<CommandStatus, string> = { pending: "Waiting for device", confirmed: "Confirmed by device", failed: "Command failed", timeout: "No answer from device" };
+
+export function describeCommand(cmd: FieldCommand): string {
+  const base = `${STATUS_LABELS[cmd.status]}: requested ${formatAuditValue(cmd.requested)} at ${new Date(cmd.sentAt).toLocaleTimeString()}`;
+  return cmd.detail ? `${base}. ${cmd.detail}` : base;
+}
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { ALARM_LABELS, isOpen } from "../alarms";
+import type { Alarm, AlarmConfig } from "../alarms";
+
+function formatTime(t: number | null) {
+  return t === null ? "–" : new Date(t).toLocaleString();
+}
+
+function alarmStatus(a: Alarm) {
+  if (a.clearedAt !== null) return "cleared";
+  if (a.resolvedAt !== null) return a.acknowledgedAt !== null ? "resolved, acknowledged" : "resolved";
+  return a.acknowledgedAt !== null ? "acknowledged" : "ACTIVE";
+}
+
+export default function AlarmPanel({
+  alarms,
+  config,
+  onConfigChange,
+  onAcknowledge,
+  onClear,
+  onClose,
+  canAcknowledge,
+  canEditConfig,
+}: {
+  alarms: Alarm[];
+  config: AlarmConfig;
+  onConfigChange: (config: AlarmConfig) => void;
+  onAcknowledge: (id: string) => void;
+  onClear: (id: string) => void;
+  onClose: () => void;
+  canAcknowledge: boolean;
+  canEditConfig: boolean;
+}) {
+  const [tab, setTab] = useState<"open" | "history">("open");
+  const rows = (tab === "open" ? alarms.filter(isOpen) : alarms).slice().reverse();
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/30 flex items-start justify-center pt-12" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-lg border border-slate-200 w-[960px] max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-3 py-2 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className="font-medium text-[13px]">Alarms</div>
+            {(["open", "history"] as const).map((t) => (
+              <button
+                key={t}
+                onClick={() => setTab(t)}
+                className={`px-2 py-0.5 rounded-full border ${tab === t ? "bg-slate-900 text-white border-slate-900" : "bg-white border-slate-300"}`}
+              >
+                {t === "open" ? `Open (${alarms.filter(isOpen).length})` : "History"}
+              </button>
+            ))}
+          </div>
+          <button className="px-2 py-0.5 rounded border" onClick={onClose}>Close</button>
+        </div>
+
+        <fieldset
+          className="px-3 py-2 border-b border-slate-100 flex flex-wrap items-center gap-3 disabled:opacity-60"
+          disabled={!canEditConfig}
+          title={canEditConfig ? "" : "Admins only"}
+        >
+          <ConfigInput label="Valve open max" unit="min" value={config.valveOpenMaxMin} onChange={(v) => onConfigChange({ ...config, valveOpenMaxMin: v })} />
+          <ConfigInput label="Level LOW max" unit="min" value={config.lowLevelMaxMin} onChange={(v) => onConfigChange({ ...config, lowLevelMaxMin: v })} />
+          <ConfigInput label="Stir grace" unit="sec" value={config.stirGraceSec} onChange={(v) => onConfigChange({ ...config, stirGraceSec: v })} />
+          <ConfigInput label="Bowl OUT grace" unit="sec" value={config.bowlOutGraceSec} onChange={(v) => onConfigChange({ ...config, bowlOutGraceSec: v })} />
+        </fieldset>
+
+        <div className="overflow-auto">
+          <table className="w-full text-left">
+            <thead className="sticky top-0 bg-slate-50 text-slate-500">
+              <tr>
+                <th className="px-3 py-1 font-medium">Severity</th>
+                <th className="px-2 py-1 font-medium">Alarm</th>
+                <th className="px-2 py-1 font-medium">Raised</th>
+                <th className="px-2 py-1 font-medium">Status</th>
+                <th className="px-2 py-1 font-medium">Acknowledged</th>
+                <th className="px-2 py-1 font-medium">{tab === "open" ? "" : "Cleared"}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((a) => (
+                <tr key={a.id} className="border-t border-slate-100">
+                  <td className="px-3 py-0.5">
+                    <span className={`px-1.5 rounded text-white ${a.severity === "critical" ? "bg-red-600" : "bg-amber-500"}`}>{a.severity}</span>
+                  </td>
+                  <td className="px-2 py-0.5" title={ALARM_LABELS[a.kind]}>{a.message}</td>
+                  <td className="px-2 py-0.5 whitespace-nowrap">{formatTime(a.raisedAt)}</td>
+                  <td className={`px-2 py-0.5 ${alarmStatus(a) === "ACTIVE" ? "font-semibold text-red-700" : ""}`}>{alarmStatus(a)}</td>
+                  <td className="px-2 py-0.5 whitespace-nowrap">
+                    {formatTime(a.acknowledgedAt)}
+                    {a.acknowledgedBy && ` · ${a.acknowledgedBy}`}
+                  </td>
+                  <td className="px-2 py-0.5 whitespace-nowrap">
+                    {tab === "history" ? (
+                      <>
+                        {formatTime(a.clearedAt)}
+                        {a.clearedBy && ` · ${a.clearedBy}`}
+                      </>
+                    ) : (
+                      <div className="flex gap-1">
+                        <button className="px-2 py-0.5 rounded border" disabled={!canAcknowledge || a.acknowledgedAt !== null} onClick={() => onAcknowledge(a.id)}>
+                          Acknowledge
+                        </button>
+                        <button
+                          className="px-2 py-0.5 rounded border disabled:opacity-50"
+                          disabled={!canAcknowledge || a.resolvedAt === null}
+                          title={a.resolvedAt === null ? "Condition still present" : canAcknowledge ? "" : "Operators only"}
+                          onClick={() => onClear(a.id)}
+                        >
+                          Clear
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.length === 0 && <div className="px-3 py-2 text-slate-500">No alarms.</div>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ConfigInput({ label, unit, value, onChange }: { label: string; unit: string; value: number; onChange: (v: number) => void }) {
+  return (
+    <label className="flex items-center gap-1">
+      {label}
+      <input type="number" min={0} className="w-12 px-1 py-0.5 border rounded" value={value} onChange={(e) => onChange(Math.max(0, Number(e.target.value)))} />
+      {unit}
+    </label>
+  );
+}
@@ -0,0 +1,145 @@
+import { useEffect, useMemo, useState } from "react";
+import { AUDIT_FIELDS, EVENT_SOURCES } from "../auditLog";
+import type { AuditEntry, AuditField, AuditLog, EventSource } from "../auditLog";
+import { downloadFile, toCsv } from "../exportFile";
+import type { CsvColumn } from "../exportFile";
+
+const MAX_ROWS = 500;
+
+const CSV_COLUMNS: CsvColumn<AuditEntry>[] = [
+  { header: "timestamp", value: (e) => new Date(e.at).toISOString() },
+  { header: "cage", value: (e) => e.cage },
+  { header: "station", value: (e) => e.station },
+  { header: "source", value: (e) => e.source },
+  { header: "user", value: (e) => e.user ?? "" },
+  { header: "field", value: (e) => e.field },
+  { header: "before", value: (e) => e.before },
+  { header: "after", value: (e) => e.after },
+];
+
+function toDateInput(t: number) {
+  const d = new Date(t);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/** Local midnight of a yyyy-mm-dd date input, optionally shifted by whole days. */
+function dayStart(value: string, addDays = 0) {
+  const [y, m, d] = value.split("-").map(Number);
+  return new Date(y, m - 1, d + addDays).getTime();
+}
+
+export default function AuditLogPanel({ auditLog, onClose, now = Date.now }: { auditLog: AuditLog; onClose: () => void; now?: () => number }) {
+  const [fromDate, setFromDate] = useState(() => toDateInput(now()));
+  const [toDate, setToDate] = useState(() => toDateInput(now()));
+  const [cageFilter, setCageFilter] = useState("");
+  const [source, setSource] = useState<EventSource | "">("");
+  const [field, setField] = useState<AuditField | "">("");
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const from = dayStart(fromDate);
+  const to = dayStart(toDate, 1);
+
+  useEffect(() => {
+    let cancelled = false;
+    auditLog
+      .query({ from, to })
+      .then((rows) => {
+        if (cancelled) return;
+        setEntries(rows);
+        setError(null);
+      })
+      .catch((err) => !cancelled && setError(String(err)));
+    const unsubscribe = auditLog.subscribe((e) => {
+      if (e.at >= from && e.at < to) setEntries((prev) => [...prev, e]);
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [auditLog, from, to]);
+
+  const filtered = useMemo(() => {
+    const cages = cageFilter
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map((s) => s.toUpperCase());
+    return entries.filter(
+      (e) => (cages.length === 0 || cages.includes(e.cage.toUpperCase())) && (!source || e.source === source) && (!field || e.field === field)
+    );
+  }, [entries, cageFilter, source, field]);
+
+  const visible = filtered.slice(-MAX_ROWS).reverse();
+  const fileBase = `cage-audit_${fromDate}_${toDate}`;
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/30 flex items-start justify-center pt-12" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-lg border border-slate-200 w-[960px] max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-3 py-2 border-b border-slate-100 flex items-center justify-between">
+          <div className="font-medium text-[13px]">Actuation Log</div>
+          <button className="px-2 py-0.5 rounded border" onClick={onClose}>Close</button>
+        </div>
+
+        <div className="px-3 py-2 border-b border-slate-100 flex flex-wrap items-center gap-2">
+          <label className="flex items-center gap-1">
+            From <input type="date" className="px-1 py-0.5 border rounded" value={fromDate} onChange={(e) => e.target.value && setFromDate(e.target.value)} />
+          </label>
+          <label className="flex items-center gap-1">
+            To <input type="date" className="px-1 py-0.5 border rounded" value={toDate} onChange={(e) => e.target.value && setToDate(e.target.value)} />
+          </label>
+          <input className="w-32 px-1 py-0.5 border rounded" placeholder="Cages, e.g. C1 C7" value={cageFilter} onChange={(e) => setCageFilter(e.target.value)} />
+          <select className="px-1 py-0.5 border rounded" value={source} onChange={(e) => setSource(e.target.value as EventSource | "")}>
+            <option value="">All sources</option>
+            {EVENT_SOURCES.map((s) => (
+              <option key={s} value={s}>{s}</option>
+            ))}
+          </select>
+          <select className="px-1 py-0.5 border rounded" value={field} onChange={(e) => setField(e.target.value as AuditField | "")}>
+            <option value="">All fields</option>
+            {AUDIT_FIELDS.map((f) => (
+              <option key={f} value={f}>{f}</option>
+            ))}
+          </select>
+          <div className="ml-auto flex gap-1.5">
+            <button className="px-2 py-0.5 rounded border" onClick={() => downloadFile(`${fileBase}.csv`, "text/csv", toCsv(filtered, CSV_COLUMNS))}>Export CSV</button>
+            <button className="px-2 py-0.5 rounded border" onClick={() => downloadFile(`${fileBase}.json`, "application/json", JSON.stringify(filtered, null, 2))}>Export JSON</button>
+          </div>
+        </div>
+
+        <div className="overflow-auto">
+          {error && <div className="px-3 py-2 text-red-700">Could not read log: {error}</div>}
+          <table className="w-full text-left">
+            <thead className="sticky top-0 bg-slate-50 text-slate-500">
+              <tr>
+                <th className="px-3 py-1 font-medium">Time</th>
+                <th className="px-2 py-1 font-medium">Cage</th>
+                <th className="px-2 py-1 font-medium">Source</th>
+                <th className="px-2 py-1 font-medium">User</th>
+                <th className="px-2 py-1 font-medium">Field</th>
+                <th className="px-2 py-1 font-medium">Before</th>
+                <th className="px-2 py-1 font-medium">After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((e) => (
+                <tr key={e.seq} className="border-t border-slate-100">
+                  <td className="px-3 py-0.5 whitespace-nowrap">{new Date(e.at).toLocaleString()}</td>
+                  <td className="px-2 py-0.5">{e.cage}</td>
+                  <td className="px-2 py-0.5">{e.source}</td>
+                  <td className="px-2 py-0.5">{e.user ?? ""}</td>
+                  <td className="px-2 py-0.5">{e.field}</td>
+                  <td className="px-2 py-0.5 text-slate-500">{e.before}</td>
+                  <td className="px-2 py-0.5 font-semibold">{e.after}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visible.length === 0 && <div className="px-3 py-2 text-slate-500">No entries.</div>}
+        </div>
+        <div className="px-3 py-1 border-t border-slate-100 text-[10px] text-slate-500">
+          {filtered.length} entries{filtered.length > MAX_ROWS ? ` (showing newest ${MAX_ROWS}; exports include all)` : ""}
+        </div>
+      </div>
+    </div>
+  );
+}
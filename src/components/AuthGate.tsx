@@ -0,0 +1,55 @@
+import { useState } from "react";
+import type { FormEvent, ReactNode } from "react";
+import { AuthError } from "../auth";
+import type { AuthProvider, User } from "../auth";
+
+/** Shows the sign-in form until a local account is signed in, then renders the monitor for that user. */
+export default function AuthGate({ auth, title, children }: { auth: AuthProvider; title: string; children: (user: User, logout: () => void) => ReactNode }) {
+  const [user, setUser] = useState<User | null>(() => auth.currentUser());
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  if (user) {
+    return children(user, () => {
+      auth.logout();
+      setPassword("");
+      setUser(null);
+    });
+  }
+
+  async function submit(e: FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError("");
+    try {
+      setUser(await auth.login(username, password));
+    } catch (err) {
+      setError(err instanceof AuthError ? err.message : `Sign-in failed: ${String(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="w-full min-h-screen bg-slate-50 text-slate-900 text-[12px] flex items-start justify-center pt-32">
+      <form className="bg-white rounded-lg shadow-sm border border-slate-200 w-72 p-4 space-y-2" onSubmit={submit}>
+        <h1 className="text-base font-semibold">{title}</h1>
+        <p className="text-[10px] text-slate-600">Sign in with your local monitor account.</p>
+        <label className="flex flex-col gap-0.5">
+          <span className="text-slate-600">User</span>
+          <input className="px-1.5 py-1 border rounded" autoFocus autoComplete="username" value={username} onChange={(e) => setUsername(e.target.value)} />
+        </label>
+        <label className="flex flex-col gap-0.5">
+          <span className="text-slate-600">Password</span>
+          <input type="password" className="px-1.5 py-1 border rounded" autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} />
+        </label>
+        {error && <div className="text-[10px] text-red-700">{error}</div>}
+        <button type="submit" className="w-full px-2.5 py-1 rounded border bg-slate-900 text-white disabled:opacity-50" disabled={busy || !username || !password}>
+          Sign in
+        </button>
+      </form>
+    </div>
+  );
+}
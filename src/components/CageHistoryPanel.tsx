@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import type { AuditEntry, AuditLog } from "../auditLog";
+import { buildTimeline, dutyCycles } from "../history";
+import type { LevelHistory, LevelSample, Segment, TimelineField } from "../history";
+import { describeCalibration, dispensedMl } from "../service";
+import type { ValveCalibration } from "../service";
+import type { Cage } from "../types";
+
+const RANGES = { "24h": 24 * 3600_000, "7d": 7 * 24 * 3600_000 } as const;
+type RangeKey = keyof typeof RANGES;
+
+const CHART_W = 880;
+const LABEL_W = 56;
+const ROW_H = 14;
+const LEVEL_H = 80;
+
+const ROWS: { field: TimelineField; label: string; color: (value: string) => string | null }[] = [
+  {
+    field: "mode",
+    label: "Mode",
+    color: (v) => ({ OFF: "#94a3b8", MANUAL: "#0ea5e9", SEMI: "#8b5cf6", AUTO: "#10b981" })[v] ?? "#cbd5e1",
+  },
+  { field: "bowl", label: "Bowl IN", color: (v) => (v === "IN" ? "#64748b" : null) },
+  { field: "stirring", label: "Stir", color: (v) => (v === "ON" ? "#2563eb" : null) },
+  { field: "valveOpen", label: "Valve", color: (v) => (v === "ON" ? "#f59e0b" : null) },
+];
+
+function currentValue(c: Cage, field: TimelineField) {
+  if (field === "mode") return c.mode;
+  if (field === "bowl") return c.bowl;
+  return (field === "stirring" ? c.stirring : c.valveOpen) ? "ON" : "OFF";
+}
+
+function formatDuration(ms: number) {
+  const min = Math.round(ms / 60_000);
+  return min < 60 ? `${min} min` : `${Math.floor(min / 60)} h ${String(min % 60).padStart(2, "0")} min`;
+}
+
+export default function CageHistoryPanel({
+  cage,
+  auditLog,
+  levelHistory,
+  calibration,
+  onClose,
+  now = Date.now,
+}: {
+  cage: Cage;
+  auditLog: AuditLog;
+  levelHistory: LevelHistory;
+  calibration?: ValveCalibration;
+  onClose: () => void;
+  now?: () => number;
+}) {
+  const [range, setRange] = useState<RangeKey>("24h");
+  const [span, setSpan] = useState(() => ({ from: now() - RANGES["24h"], to: now() }));
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [samples, setSamples] = useState<LevelSample[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  function reload(key: RangeKey) {
+    const to = now();
+    setRange(key);
+    setSpan({ from: to - RANGES[key], to });
+  }
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([auditLog.queryCage(cage.id, span), levelHistory.query(cage.id, span.from, span.to)])
+      .then(([e, s]) => {
+        if (cancelled) return;
+        setEntries(e);
+        setSamples(s);
+        setError(null);
+      })
+      .catch((err) => !cancelled && setError(String(err)));
+    return () => {
+      cancelled = true;
+    };
+  }, [auditLog, levelHistory, cage.id, span]);
+
+  const { from, to } = span;
+  const x = (t: number) => LABEL_W + ((t - from) / (to - from)) * (CHART_W - LABEL_W);
+  const timelines = Object.fromEntries(ROWS.map((r) => [r.field, buildTimeline(entries, r.field, currentValue(cage, r.field), from, to)])) as Record<TimelineField, Segment[]>;
+  const days = dutyCycles(timelines.stirring, timelines.valveOpen, from, to);
+
+  const tickStep = range === "24h" ? 3 * 3600_000 : 24 * 3600_000;
+  const ticks: number[] = [];
+  const firstTick = new Date(from);
+  firstTick.setMinutes(0, 0, 0);
+  if (range === "7d") firstTick.setHours(0);
+  for (let t = firstTick.getTime() + tickStep; t < to; t += tickStep) ticks.push(t);
+
+  const levelPoints = [...samples, { cageId: cage.id, at: to, levelPct: cage.levelPct }];
+  const levelY = (pct: number) => LEVEL_H - (pct / 100) * LEVEL_H;
+  const levelTop = ROWS.length * (ROW_H + 4) + 8;
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/30 flex items-start justify-center pt-12" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-lg border border-slate-200 w-[920px] max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-3 py-2 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className="font-medium text-[13px]">{cage.name} history</div>
+            {(Object.keys(RANGES) as RangeKey[]).map((k) => (
+              <button
+                key={k}
+                onClick={() => reload(k)}
+                className={`px-2 py-0.5 rounded-full border ${range === k ? "bg-slate-900 text-white border-slate-900" : "bg-white border-slate-300"}`}
+              >
+                {k}
+              </button>
+            ))}
+          </div>
+          <button className="px-2 py-0.5 rounded border" onClick={onClose}>Close</button>
+        </div>
+
+        <div className="p-3 overflow-auto">
+          {error && <div className="mb-2 text-red-700">Could not read history: {error}</div>}
+          <svg width={CHART_W} height={levelTop + LEVEL_H + 16} className="text-[9px]">
+            {ticks.map((t) => (
+              <g key={t}>
+                <line x1={x(t)} x2={x(t)} y1={0} y2={levelTop + LEVEL_H} stroke="#e2e8f0" />
+                <text x={x(t)} y={levelTop + LEVEL_H + 12} textAnchor="middle" fill="#64748b">
+                  {range === "24h" ? new Date(t).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" }) : new Date(t).toLocaleDateString([], { month: "short", day: "numeric" })}
+                </text>
+              </g>
+            ))}
+            {ROWS.map((row, i) => (
+              <g key={row.field} transform={`translate(0, ${i * (ROW_H + 4)})`}>
+                <text x={0} y={ROW_H - 3} fill="#475569">{row.label}</text>
+                <rect x={LABEL_W} y={0} width={CHART_W - LABEL_W} height={ROW_H} fill="#f8fafc" />
+                {timelines[row.field].map((s) => {
+                  const fill = row.color(s.value);
+                  return fill ? (
+                    <rect key={s.start} x={x(s.start)} y={0} width={Math.max(1, x(s.end) - x(s.start))} height={ROW_H} fill={fill}>
+                      <title>{`${s.value}: ${new Date(s.start).toLocaleString()} – ${new Date(s.end).toLocaleString()}`}</title>
+                    </rect>
+                  ) : null;
+                })}
+              </g>
+            ))}
+            <g transform={`translate(0, ${levelTop})`}>
+              <text x={0} y={10} fill="#475569">Level %</text>
+              <rect x={LABEL_W} y={0} width={CHART_W - LABEL_W} height={LEVEL_H} fill="#f8fafc" />
+              {[cage.auto.valveOpenBelowPct, cage.auto.valveCloseAbovePct].map((pct) => (
+                <line key={pct} x1={LABEL_W} x2={CHART_W} y1={levelY(pct)} y2={levelY(pct)} stroke="#94a3b8" strokeDasharray="3 3" />
+              ))}
+              <polyline fill="none" stroke="#059669" strokeWidth={1.5} points={levelPoints.map((p) => `${x(Math.max(p.at, from))},${levelY(p.levelPct)}`).join(" ")} />
+            </g>
+          </svg>
+          {samples.length === 0 && <div className="text-[10px] text-slate-500">No level samples recorded in this range yet.</div>}
+
+          <table className="mt-3 text-left">
+            <thead className="text-slate-500">
+              <tr>
+                <th className="pr-4 font-medium">Day</th>
+                <th className="pr-4 font-medium">Stir</th>
+                <th className="pr-4 font-medium">Stir duty</th>
+                <th className="pr-4 font-medium">Valve open</th>
+                <th className="pr-4 font-medium">Valve duty</th>
+                <th className="pr-4 font-medium" title={`Valve ${describeCalibration(calibration)}`}>Dispensed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {days.map((d) => (
+                <tr key={d.day} className="border-t border-slate-100">
+                  <td className="pr-4">{d.day}</td>
+                  <td className="pr-4">{formatDuration(d.stirMs)}</td>
+                  <td className="pr-4">{((d.stirMs / d.spanMs) * 100).toFixed(1)}%</td>
+                  <td className="pr-4">{formatDuration(d.valveMs)}</td>
+                  <td className="pr-4">{((d.valveMs / d.spanMs) * 100).toFixed(1)}%</td>
+                  <td className="pr-4">{calibration ? `${dispensedMl(d.valveMs, calibration)} mL` : "uncalibrated"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
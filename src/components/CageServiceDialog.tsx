@@ -0,0 +1,179 @@
+import { useEffect, useRef, useState } from "react";
+import { CALIBRATION_RUN_LIMITS, DEFAULT_CALIBRATION_RUN_SEC, calibrationBlocker, calibrationFromRun, formatFlow } from "../service";
+import type { CalibrationRun, ValveCalibration } from "../service";
+import type { Cage } from "../types";
+
+type Step = { kind: "idle" } | { kind: "running"; seconds: number } | { kind: "measure"; openMs: number };
+
+/** Out-of-service hold and the guided valve calibration for one cage. */
+export default function CageServiceDialog({
+  cage,
+  calibration,
+  canOperate,
+  user,
+  now,
+  onSetOutOfService,
+  onRunCalibration,
+  onSaveCalibration,
+  onClose,
+}: {
+  cage: Cage;
+  calibration: ValveCalibration | undefined;
+  canOperate: boolean;
+  /** Account recorded with a new calibration. */
+  user: string;
+  now: () => number;
+  onSetOutOfService: (reason: string | null) => void;
+  onRunCalibration: (seconds: number) => CalibrationRun;
+  onSaveCalibration: (calibration: ValveCalibration) => void;
+  onClose: () => void;
+}) {
+  const [reason, setReason] = useState(cage.outOfService?.reason ?? "");
+  const [seconds, setSeconds] = useState(DEFAULT_CALIBRATION_RUN_SEC);
+  const [measuredMl, setMeasuredMl] = useState("");
+  const [step, setStep] = useState<Step>({ kind: "idle" });
+  const [error, setError] = useState<string | null>(null);
+  const run = useRef<CalibrationRun | null>(null);
+  const blocker = calibrationBlocker(cage);
+  const secondsOk = seconds >= CALIBRATION_RUN_LIMITS.minSec && seconds <= CALIBRATION_RUN_LIMITS.maxSec;
+
+  // Closing the dialog mid-run closes the valve.
+  useEffect(() => () => run.current?.cancel(), []);
+
+  function start() {
+    setError(null);
+    setStep({ kind: "running", seconds });
+    const r = onRunCalibration(seconds);
+    run.current = r;
+    r.done
+      .then((openMs) => setStep({ kind: "measure", openMs }))
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : String(err));
+        setStep({ kind: "idle" });
+      })
+      .finally(() => {
+        if (run.current === r) run.current = null;
+      });
+  }
+
+  function save(openMs: number) {
+    const result = calibrationFromRun(Number(measuredMl), openMs, now(), user);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    onSaveCalibration(result.calibration);
+    setMeasuredMl("");
+    setError(null);
+    setStep({ kind: "idle" });
+  }
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/30 flex items-start justify-center pt-24" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-lg border border-slate-200 w-96" onClick={(e) => e.stopPropagation()}>
+        <div className="px-3 py-2 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <div className="font-medium text-[13px]">{cage.name} service</div>
+            <div className="text-[10px] text-slate-600">
+              Station {cage.station} · {cage.outOfService ? "out of service" : cage.mode}
+            </div>
+          </div>
+          <button className="px-2 py-0.5 rounded border" onClick={onClose}>Close</button>
+        </div>
+
+        <fieldset className="p-3 space-y-1.5 border-b border-slate-100" disabled={!canOperate}>
+          <div className="font-medium">Out of service</div>
+          {cage.outOfService ? (
+            <>
+              <div className="text-[10px] text-slate-700">
+                Since {new Date(cage.outOfService.since).toLocaleString()}
+                {cage.outOfService.by && ` by ${cage.outOfService.by}`}
+              </div>
+              <div className="flex gap-1">
+                <input className="min-w-0 flex-1 px-1 py-0.5 border rounded" value={reason} onChange={(e) => setReason(e.target.value)} />
+                <button className="px-2 py-0.5 rounded border disabled:opacity-50" disabled={!reason.trim() || reason.trim() === cage.outOfService.reason} onClick={() => onSetOutOfService(reason.trim())}>
+                  Update
+                </button>
+              </div>
+              <button className="px-2.5 py-0.5 rounded border bg-slate-900 text-white" onClick={() => onSetOutOfService(null)}>
+                Return to service (stays OFF)
+              </button>
+            </>
+          ) : (
+            <>
+              <div className="text-[10px] text-slate-600">
+                Switches the cage OFF, stops the stirrer and closes the valve. Manual controls, group operations, AUTO and the API leave it alone until it is returned to service.
+              </div>
+              <div className="flex gap-1">
+                <input className="min-w-0 flex-1 px-1 py-0.5 border rounded" placeholder="Reason (e.g. empty, stirrer broken)" value={reason} onChange={(e) => setReason(e.target.value)} />
+                <button className="px-2 py-0.5 rounded border disabled:opacity-50" disabled={!reason.trim()} onClick={() => onSetOutOfService(reason.trim())}>
+                  Take out of service
+                </button>
+              </div>
+            </>
+          )}
+        </fieldset>
+
+        <fieldset className="p-3 space-y-1.5" disabled={!canOperate}>
+          <div className="font-medium">Valve calibration</div>
+          <div className="text-[10px] text-slate-700">
+            {calibration
+              ? `${formatFlow(calibration.mlPerSec)} · ${calibration.measuredMl} mL in ${calibration.openSec} s · ${new Date(calibration.calibratedAt).toLocaleDateString()}${calibration.calibratedBy ? ` by ${calibration.calibratedBy}` : ""}`
+              : "Not calibrated; reports show valve-open time only."}
+          </div>
+          {step.kind === "idle" && (
+            <>
+              <ol className="text-[10px] text-slate-600 list-decimal ml-4">
+                <li>Switch the cage to MANUAL and move the bowl IN.</li>
+                <li>Place a measuring cylinder under the valve.</li>
+                <li>Open the valve for a fixed time; it closes by itself.</li>
+                <li>Enter the collected volume.</li>
+              </ol>
+              <div className="flex items-center gap-1">
+                <span>Open for</span>
+                <input
+                  type="number"
+                  min={CALIBRATION_RUN_LIMITS.minSec}
+                  max={CALIBRATION_RUN_LIMITS.maxSec}
+                  className={`w-14 px-1 py-0.5 border rounded ${secondsOk ? "" : "border-red-400"}`}
+                  value={seconds}
+                  onChange={(e) => setSeconds(Number(e.target.value))}
+                />
+                <span>s</span>
+                <button className="ml-auto px-2 py-0.5 rounded border disabled:opacity-50" disabled={blocker !== null || !secondsOk} onClick={start}>
+                  Open valve
+                </button>
+              </div>
+              {blocker && <div className="text-[10px] text-amber-700">{blocker}</div>}
+            </>
+          )}
+          {step.kind === "running" && (
+            <div className="flex items-center justify-between">
+              <span className="text-amber-800">Valve open for {step.seconds} s; it closes by itself…</span>
+              <button className="px-2 py-0.5 rounded border" onClick={() => run.current?.cancel()}>
+                Cancel
+              </button>
+            </div>
+          )}
+          {step.kind === "measure" && (
+            <>
+              <div className="text-[10px] text-slate-700">The controller reported the valve open for {(step.openMs / 1000).toFixed(1)} s.</div>
+              <div className="flex items-center gap-1">
+                <span>Collected</span>
+                <input type="number" min={0} className="w-20 px-1 py-0.5 border rounded" value={measuredMl} onChange={(e) => setMeasuredMl(e.target.value)} autoFocus />
+                <span>mL</span>
+                <button className="ml-auto px-2 py-0.5 rounded border" onClick={() => setStep({ kind: "idle" })}>
+                  Discard
+                </button>
+                <button className="px-2.5 py-0.5 rounded border bg-slate-900 text-white" onClick={() => save(step.openMs)}>
+                  Save
+                </button>
+              </div>
+            </>
+          )}
+          {error && <div className="text-[10px] text-red-700">{error}</div>}
+        </fieldset>
+      </div>
+    </div>
+  );
+}
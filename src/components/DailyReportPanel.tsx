@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import type { Alarm } from "../alarms";
+import type { AuditEntry, AuditLog } from "../auditLog";
+import { buildDailyReport, stationTotals } from "../dailyReport";
+import type { CageDayReport, DayTotals, StationDayReport } from "../dailyReport";
+import { downloadFile, toCsv } from "../exportFile";
+import type { CsvColumn } from "../exportFile";
+import type { ValveCalibrations } from "../service";
+import { MODES } from "../types";
+import type { Cage } from "../types";
+
+type ReportRow = { scope: "cage" | "station"; station: number; cage: string; totals: DayTotals };
+
+const minutes = (ms: number) => Math.round(ms / 60_000);
+
+function csvColumns(day: string): CsvColumn<ReportRow>[] {
+  return [
+    { header: "date", value: () => day },
+    { header: "scope", value: (r) => r.scope },
+    { header: "station", value: (r) => r.station },
+    { header: "cage", value: (r) => r.cage },
+    ...MODES.map((m): CsvColumn<ReportRow> => ({ header: `${m.toLowerCase()}_min`, value: (r) => minutes(r.totals.modeMs[m]) })),
+    { header: "stir_cycles", value: (r) => r.totals.stirCycles },
+    { header: "stir_sec", value: (r) => r.totals.stirSec },
+    { header: "valve_open_min", value: (r) => r.totals.valveOpenMin },
+    { header: "dispensed_ml", value: (r) => r.totals.dispensedMl ?? "" },
+    { header: "low_events", value: (r) => r.totals.lowEvents },
+    { header: "alarms", value: (r) => r.totals.alarms },
+    { header: "interventions", value: (r) => r.totals.interventions },
+  ];
+}
+
+function toDateInput(t: number) {
+  const d = new Date(t);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/** Local midnight of a yyyy-mm-dd date input, optionally shifted by whole days. */
+function dayStart(value: string, addDays = 0) {
+  const [y, m, d] = value.split("-").map(Number);
+  return new Date(y, m - 1, d + addDays).getTime();
+}
+
+function TotalsCells({ totals }: { totals: DayTotals }) {
+  return (
+    <>
+      {MODES.map((m) => (
+        <td key={m} className="px-2 py-0.5 text-right">{minutes(totals.modeMs[m]) || ""}</td>
+      ))}
+      <td className="px-2 py-0.5 text-right">{totals.stirCycles}</td>
+      <td className="px-2 py-0.5 text-right">{totals.stirSec}</td>
+      <td className="px-2 py-0.5 text-right">{totals.valveOpenMin.toFixed(1)}</td>
+      <td className="px-2 py-0.5 text-right">{totals.dispensedMl ?? "–"}</td>
+      <td className="px-2 py-0.5 text-right">{totals.lowEvents}</td>
+      <td className="px-2 py-0.5 text-right">{totals.alarms}</td>
+      <td className="px-2 py-0.5 text-right">{totals.interventions}</td>
+    </>
+  );
+}
+
+/** End-of-day summary per cage and station; printable and exportable for the study notebook. */
+export default function DailyReportPanel({
+  facilityName,
+  cages,
+  alarms,
+  auditLog,
+  calibrations,
+  onClose,
+  now = Date.now,
+}: {
+  facilityName: string;
+  cages: Cage[];
+  alarms: Alarm[];
+  auditLog: AuditLog;
+  calibrations: ValveCalibrations;
+  onClose: () => void;
+  now?: () => number;
+}) {
+  const [day, setDay] = useState(() => toDateInput(now()));
+  const [generatedAt, setGeneratedAt] = useState(() => now());
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const from = dayStart(day);
+  const to = Math.min(dayStart(day, 1), generatedAt);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Through now, not just the day: later changes tell what state each cage was in at day end.
+    auditLog
+      .query({ from, to: generatedAt + 1 })
+      .then((rows) => {
+        if (cancelled) return;
+        setEntries(rows);
+        setError(null);
+      })
+      .catch((err) => !cancelled && setError(String(err)));
+    return () => {
+      cancelled = true;
+    };
+  }, [auditLog, from, generatedAt]);
+
+  const cageRows: CageDayReport[] = from < to ? buildDailyReport(cages, entries, alarms, from, to, calibrations) : [];
+  const stations: StationDayReport[] = stationTotals(cageRows);
+  const rows: ReportRow[] = stations.flatMap((s) => [
+    ...cageRows.filter((r) => r.station === s.station).map((r): ReportRow => ({ scope: "cage", station: r.station, cage: r.cage, totals: r })),
+    { scope: "station", station: s.station, cage: "", totals: s },
+  ]);
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/30 flex items-start justify-center pt-12 print:static print:block print:bg-white print:pt-0" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg border border-slate-200 w-[960px] max-h-[85vh] flex flex-col print:w-full print:max-h-none print:shadow-none print:border-0"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-3 py-2 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <div className="font-medium text-[13px]">
+              {facilityName} daily operations report · {day}
+            </div>
+            <div className="text-[10px] text-slate-600">
+              Built from the audit log and alarm history{to < dayStart(day, 1) ? ` up to ${new Date(to).toLocaleTimeString()}` : ""}. Times in minutes.
+            </div>
+          </div>
+          <div className="flex items-center gap-1.5 print:hidden">
+            <input type="date" className="px-1 py-0.5 border rounded" value={day} onChange={(e) => e.target.value && setDay(e.target.value)} />
+            <button className="px-2 py-0.5 rounded border" onClick={() => setGeneratedAt(now())}>Refresh</button>
+            <button className="px-2 py-0.5 rounded border" onClick={() => window.print()}>Print</button>
+            <button className="px-2 py-0.5 rounded border" onClick={() => downloadFile(`cage-report_${day}.csv`, "text/csv", toCsv(rows, csvColumns(day)))}>Export CSV</button>
+            <button className="px-2 py-0.5 rounded border" onClick={onClose}>Close</button>
+          </div>
+        </div>
+
+        <div className="overflow-auto print:overflow-visible">
+          {error && <div className="px-3 py-2 text-red-700">Could not read log: {error}</div>}
+          {from >= to && <div className="px-3 py-2 text-slate-500">This day has not started yet.</div>}
+          <table className="w-full text-left">
+            <thead className="sticky top-0 bg-slate-50 text-slate-500">
+              <tr>
+                <th className="px-3 py-1 font-medium">Cage</th>
+                {MODES.map((m) => (
+                  <th key={m} className="px-2 py-1 font-medium text-right">{m}</th>
+                ))}
+                <th className="px-2 py-1 font-medium text-right">Stir cycles</th>
+                <th className="px-2 py-1 font-medium text-right">Stir s</th>
+                <th className="px-2 py-1 font-medium text-right">Valve open</th>
+                <th className="px-2 py-1 font-medium text-right">Dispensed mL</th>
+                <th className="px-2 py-1 font-medium text-right">LOW events</th>
+                <th className="px-2 py-1 font-medium text-right">Alarms</th>
+                <th className="px-2 py-1 font-medium text-right">Interventions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) =>
+                r.scope === "cage" ? (
+                  <tr key={r.cage} className="border-t border-slate-100">
+                    <td className="px-3 py-0.5">{r.cage}</td>
+                    <TotalsCells totals={r.totals} />
+                  </tr>
+                ) : (
+                  <tr key={`station-${r.station}`} className="border-t border-slate-300 bg-slate-50 font-semibold">
+                    <td className="px-3 py-0.5">Station {r.station}</td>
+                    <TotalsCells totals={r.totals} />
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+        </div>
+        <div className="px-3 py-1 border-t border-slate-100 text-[10px] text-slate-500">
+          Interventions count operator (manual or group) changes; changes within 5 s of each other on a cage count once. Stir cycles count stir starts within the day. Dispensed volume needs a valve calibration; station totals include calibrated cages only.
+        </div>
+      </div>
+    </div>
+  );
+}
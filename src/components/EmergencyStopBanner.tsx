@@ -0,0 +1,50 @@
+import { useState } from "react";
+import { describeStop } from "../emergencyStop";
+import type { StopGroup } from "../emergencyStop";
+
+/** One row per E-STOP that still latches cages; resetting takes a second, explicit confirmation. */
+export default function EmergencyStopBanner({ groups, canReset, onReset }: { groups: StopGroup[]; canReset: boolean; onReset: (ids: number[]) => void }) {
+  const [confirming, setConfirming] = useState<string | null>(null);
+  return (
+    <div className="bg-red-700 text-white text-[11px]">
+      {groups.map(({ key, stop, cages }) => (
+        <div key={key} className="max-w-[1800px] mx-auto px-3 py-1 flex items-start gap-3">
+          <span className="font-bold tracking-widest">{describeStop(stop)}</span>
+          <div className="flex-1">
+            <div className="text-red-100">
+              Pressed {new Date(stop.at).toLocaleString()}
+              {stop.by && ` by ${stop.by}`}. {cages.length} cage(s) latched OFF: valves closed, stirrers stopped, bowls left in place. Nothing is sent to them until the stop is reset.
+            </div>
+            <div className="text-[10px]">{cages.map((c) => `${c.name} (was ${c.stopped?.modeBefore})`).join(" · ")}</div>
+          </div>
+          {confirming === key ? (
+            <div className="flex items-center gap-1">
+              <span>Cages stay OFF after the reset.</span>
+              <button className="px-2 py-0.5 rounded border border-red-300 hover:bg-red-600" onClick={() => setConfirming(null)}>
+                Cancel
+              </button>
+              <button
+                className="px-2 py-0.5 rounded border border-white bg-white text-red-800 font-medium"
+                onClick={() => {
+                  setConfirming(null);
+                  onReset(cages.map((c) => c.id));
+                }}
+              >
+                Confirm reset
+              </button>
+            </div>
+          ) : (
+            <button
+              className="px-2 py-0.5 rounded border border-red-300 hover:bg-red-600 disabled:opacity-50"
+              disabled={!canReset}
+              title={canReset ? undefined : "Only operators can reset an emergency stop"}
+              onClick={() => setConfirming(key)}
+            >
+              Reset…
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import type { FacilityConfigError } from "../facility";
+
+export default function FacilityConfigErrorScreen({ error }: { error: FacilityConfigError }) {
+  return (
+    <div className="w-full min-h-screen bg-white text-slate-900 text-[12px] p-6">
+      <div className="max-w-3xl rounded border border-red-300 bg-red-50 p-4">
+        <h1 className="text-base font-semibold text-red-800">Invalid facility configuration</h1>
+        <p className="mt-1 text-red-800">
+          Fix <code>src/config/facility.json</code> and reload. The monitor will not start with an invalid layout.
+        </p>
+        <ul className="mt-2 list-disc ml-5 space-y-0.5 text-red-900">
+          {error.issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import type { GroupPlan } from "../groupOps";
+
+/** Dry-run diff of a group operation; nothing is sent until the operator confirms. */
+export default function GroupPreviewDialog({ plan, onConfirm, onClose }: { plan: GroupPlan; onConfirm: () => void; onClose: () => void }) {
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/30 flex items-start justify-center pt-24" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-lg border border-slate-200 w-[28rem] max-h-[calc(100vh-8rem)] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-3 py-2 border-b border-slate-100">
+          <div className="font-medium text-[13px]">{plan.label}</div>
+          <div className="text-[10px] text-slate-600">
+            {plan.changes.length} cage(s) change, {plan.skipped.length} skipped
+          </div>
+        </div>
+        <div className="p-3 space-y-2 overflow-auto">
+          {plan.notes.length > 0 && (
+            <ul className="text-[10px] text-slate-700 list-disc ml-4">
+              {plan.notes.map((n) => (
+                <li key={n}>{n}</li>
+              ))}
+            </ul>
+          )}
+          {plan.changes.length > 0 && (
+            <table className="w-full text-[10px]">
+              <thead className="text-slate-500 text-left">
+                <tr>
+                  <th className="pr-2 font-normal">Cage</th>
+                  <th className="pr-2 font-normal">Field</th>
+                  <th className="pr-2 font-normal">Now</th>
+                  <th className="font-normal">After</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.changes.flatMap((p) =>
+                  p.changes.map((ch, i) => (
+                    <tr key={`${p.cageId}:${ch.field}`} className={i === 0 ? "border-t border-slate-100" : ""}>
+                      <td className="pr-2 font-medium">{i === 0 ? `${p.cage} (S${p.station})` : ""}</td>
+                      <td className="pr-2">{ch.field}</td>
+                      <td className="pr-2 text-slate-500">{ch.before}</td>
+                      <td>{ch.after}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          )}
+          {plan.skipped.length > 0 && (
+            <div>
+              <div className="font-medium text-amber-900">Skipped</div>
+              <ul className="text-[10px] text-amber-800">
+                {plan.skipped.map((s) => (
+                  <li key={s.cageId}>
+                    {s.cage} (S{s.station}): {s.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+        <div className="px-3 py-2 border-t border-slate-100 flex justify-end gap-1.5">
+          <button className="px-2 py-0.5 rounded border" onClick={onClose}>Cancel</button>
+          <button className="px-2.5 py-0.5 rounded border bg-slate-900 text-white disabled:opacity-50" disabled={plan.changes.length === 0} onClick={onConfirm}>
+            Apply to {plan.changes.length} cage(s)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useEffect, useState } from "react";
+import { describeIntakeRecord, intakeEntry } from "../intake";
+import type { IntakeForm, IntakeLog, IntakeRecord, NewIntakeRecord } from "../intake";
+import type { Cage } from "../types";
+
+const RECENT_MS = 14 * 24 * 3600_000;
+const EMPTY_FORM: IntakeForm = { offeredKg: "", refusedKg: "", weightKg: "" };
+
+function toDateTimeInput(t: number) {
+  const d = new Date(t);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+/** Feed offered/refused and body-weight entry for one cage, with its records of the last two weeks. */
+export default function IntakeEntryDialog({
+  cage,
+  intakeLog,
+  canOperate,
+  user,
+  now,
+  onAdd,
+  onRemove,
+  onClose,
+}: {
+  cage: Cage;
+  intakeLog: IntakeLog;
+  canOperate: boolean;
+  /** Account recorded with new entries. */
+  user: string;
+  now: () => number;
+  onAdd: (records: NewIntakeRecord[]) => Promise<void>;
+  onRemove: (record: IntakeRecord) => Promise<void>;
+  onClose: () => void;
+}) {
+  const [form, setForm] = useState<IntakeForm>(EMPTY_FORM);
+  const [at, setAt] = useState(() => toDateTimeInput(now()));
+  const [records, setRecords] = useState<IntakeRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    function load() {
+      const to = now();
+      intakeLog
+        .queryCage(cage.id, { from: to - RECENT_MS, to: to + 1 })
+        .then((rows) => !cancelled && setRecords(rows.reverse()))
+        .catch((err) => !cancelled && setError(String(err)));
+    }
+    load();
+    const unsubscribe = intakeLog.subscribe(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [intakeLog, cage.id, now]);
+
+  function save() {
+    const result = intakeEntry(cage, form, new Date(at).getTime(), now(), user);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setBusy(true);
+    onAdd(result.records)
+      .then(() => {
+        setForm(EMPTY_FORM);
+        setError(null);
+      })
+      .catch((err) => setError(`Not saved: ${String(err)}`))
+      .finally(() => setBusy(false));
+  }
+
+  const field = (key: keyof IntakeForm, label: string) => (
+    <label className="flex items-center gap-1">
+      <span className="w-24">{label}</span>
+      <input type="number" min={0} step="0.01" className="w-20 px-1 py-0.5 border rounded" value={form[key]} onChange={(e) => setForm({ ...form, [key]: e.target.value })} />
+      <span>kg</span>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/30 flex items-start justify-center pt-24" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-lg border border-slate-200 w-96" onClick={(e) => e.stopPropagation()}>
+        <div className="px-3 py-2 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <div className="font-medium text-[13px]">{cage.name} feed and weight</div>
+            <div className="text-[10px] text-slate-600">
+              Station {cage.station}
+              {cage.study ? ` · ${cage.study.studyId} · ${cage.study.treatment}${cage.study.animalId ? ` · animal ${cage.study.animalId}` : ""}` : " · no study assigned"}
+            </div>
+          </div>
+          <button className="px-2 py-0.5 rounded border" onClick={onClose}>Close</button>
+        </div>
+
+        <fieldset className="p-3 space-y-1.5 border-b border-slate-100" disabled={!canOperate || busy}>
+          <label className="flex items-center gap-1">
+            <span className="w-24">Measured at</span>
+            <input type="datetime-local" className="px-1 py-0.5 border rounded" value={at} onChange={(e) => setAt(e.target.value)} />
+          </label>
+          {field("offeredKg", "Feed offered")}
+          {field("refusedKg", "Feed refused")}
+          {field("weightKg", "Body weight")}
+          <div className="text-[10px] text-slate-600">
+            Enter the feed offered for the period just ended together with what was weighed back (0 if nothing). Either part may be left blank.
+          </div>
+          <div className="flex justify-end">
+            <button className="px-2.5 py-0.5 rounded border bg-slate-900 text-white" onClick={save}>
+              Save
+            </button>
+          </div>
+          {error && <div className="text-[10px] text-red-700">{error}</div>}
+        </fieldset>
+
+        <div className="p-3 max-h-60 overflow-auto">
+          <div className="font-medium mb-1">Last 14 days</div>
+          {records.length === 0 && <div className="text-[10px] text-slate-500">No records.</div>}
+          <ul className="space-y-0.5 text-[10px]">
+            {records.map((r) => (
+              <li key={r.seq} className="flex items-center justify-between gap-2">
+                <span>
+                  {new Date(r.at).toLocaleString()} · {describeIntakeRecord(r)}
+                  {r.by && <span className="text-slate-500"> · {r.by}</span>}
+                </span>
+                {canOperate && (
+                  <button className="text-slate-400 hover:text-red-700" title="Delete this record" onClick={() => onRemove(r).catch((err) => setError(`Not deleted: ${String(err)}`))}>
+                    delete
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useState } from "react";
+import type { AuditEntry, AuditLog } from "../auditLog";
+import { downloadFile, toCsv } from "../exportFile";
+import type { CsvColumn } from "../exportFile";
+import { buildIntakeDays, intakeKey, summarizeCages, summarizeTreatments } from "../intake";
+import type { DayRange, IntakeDay, IntakeLog, IntakeRecord } from "../intake";
+import type { ValveCalibrations } from "../service";
+import { listStudies } from "../study";
+import type { Cage } from "../types";
+
+// One row per cage and day, one variable per column, blank where nothing was measured.
+const CSV_COLUMNS: CsvColumn<IntakeDay>[] = [
+  { header: "date", value: (r) => r.date },
+  { header: "study", value: (r) => r.studyId },
+  { header: "treatment", value: (r) => r.treatment },
+  { header: "animal", value: (r) => r.animalId },
+  { header: "cage", value: (r) => r.cage },
+  { header: "station", value: (r) => r.station },
+  { header: "feed_offered_kg", value: (r) => r.offeredKg },
+  { header: "feed_refused_kg", value: (r) => r.refusedKg },
+  { header: "feed_intake_kg", value: (r) => r.intakeKg },
+  { header: "valve_open_min", value: (r) => r.valveOpenMin },
+  { header: "dispensed_ml", value: (r) => r.dispensedMl },
+  { header: "body_weight_kg", value: (r) => r.weightKg },
+];
+
+const MAX_DAYS = 120;
+
+function toDateInput(t: number) {
+  const d = new Date(t);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/** Local midnight of a yyyy-mm-dd date input, optionally shifted by whole days. */
+function dayStart(value: string, addDays = 0) {
+  const [y, m, d] = value.split("-").map(Number);
+  return new Date(y, m - 1, d + addDays).getTime();
+}
+
+/** Calendar days from `first` through `last`, today cut off at `until`. */
+function dayRanges(first: string, last: string, until: number): DayRange[] {
+  const days: DayRange[] = [];
+  for (let from = dayStart(first); from <= dayStart(last) && from < until && days.length < MAX_DAYS; from = dayStart(toDateInput(from), 1)) {
+    days.push({ date: toDateInput(from), from, to: Math.min(dayStart(toDateInput(from), 1), until) });
+  }
+  return days;
+}
+
+const kg = (v: number | null, digits = 2) => (v === null ? "–" : v.toFixed(digits));
+
+/** Daily feed intake and ADG per cage and treatment over a date range, with the tidy CSV export. */
+export default function IntakePanel({
+  cages,
+  auditLog,
+  intakeLog,
+  calibrations,
+  onClose,
+  now = Date.now,
+}: {
+  cages: Cage[];
+  auditLog: AuditLog;
+  intakeLog: IntakeLog;
+  calibrations: ValveCalibrations;
+  onClose: () => void;
+  now?: () => number;
+}) {
+  const [first, setFirst] = useState(() => toDateInput(now() - 6 * 24 * 3600_000));
+  const [last, setLast] = useState(() => toDateInput(now()));
+  const [studyId, setStudyId] = useState("");
+  const [generatedAt, setGeneratedAt] = useState(() => now());
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [records, setRecords] = useState<IntakeRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  // Cages as of generatedAt, like the entries: the rows are not rebuilt on every scheduler tick.
+  const [snapshot, setSnapshot] = useState(() => ({ at: generatedAt, cages }));
+  if (snapshot.at !== generatedAt) setSnapshot({ at: generatedAt, cages });
+  const from = dayStart(first);
+  const to = Math.min(dayStart(last, 1), generatedAt);
+
+  useEffect(() => intakeLog.subscribe(() => setGeneratedAt(now())), [intakeLog, now]);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Audit entries through now: later changes tell what state each cage was in at day end.
+    Promise.all([auditLog.query({ from, to: generatedAt + 1 }), intakeLog.query({ from, to })])
+      .then(([e, r]) => {
+        if (cancelled) return;
+        setEntries(e);
+        setRecords(r);
+        setError(null);
+      })
+      .catch((err) => !cancelled && setError(String(err)));
+    return () => {
+      cancelled = true;
+    };
+  }, [auditLog, intakeLog, from, to, generatedAt]);
+
+  const allDays = useMemo(
+    () => buildIntakeDays(snapshot.cages, records, entries, dayRanges(first, last, snapshot.at), calibrations),
+    [snapshot, records, entries, first, last, calibrations]
+  );
+  const days = useMemo(() => allDays.filter((d) => !studyId || d.studyId === studyId), [allDays, studyId]);
+  const cageRows = useMemo(() => summarizeCages(allDays, records, studyId), [allDays, records, studyId]);
+  const treatmentRows = useMemo(() => summarizeTreatments(cageRows), [cageRows]);
+  const studies = [...new Set([...listStudies(snapshot.cages), ...records.map((r) => r.studyId).filter(Boolean)])].sort();
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/30 flex items-start justify-center pt-12" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-lg border border-slate-200 w-[960px] max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-3 py-2 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <div className="font-medium text-[13px]">Feed intake and growth · {first} to {last}</div>
+            <div className="text-[10px] text-slate-600">From the feed and weight records, and valve-open time from the audit log.</div>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <input type="date" className="px-1 py-0.5 border rounded" value={first} max={last} onChange={(e) => e.target.value && setFirst(e.target.value)} />
+            <span>to</span>
+            <input type="date" className="px-1 py-0.5 border rounded" value={last} min={first} onChange={(e) => e.target.value && setLast(e.target.value)} />
+            <select className="px-1 py-0.5 border rounded" value={studyId} onChange={(e) => setStudyId(e.target.value)}>
+              <option value="">All studies</option>
+              {studies.map((s) => (
+                <option key={s} value={s}>{s}</option>
+              ))}
+            </select>
+            <button className="px-2 py-0.5 rounded border" onClick={() => setGeneratedAt(now())}>Refresh</button>
+            <button className="px-2 py-0.5 rounded border" onClick={() => downloadFile(`intake_${first}_${last}${studyId ? `_${studyId}` : ""}.csv`, "text/csv", toCsv(days, CSV_COLUMNS))}>
+              Export CSV
+            </button>
+            <button className="px-2 py-0.5 rounded border" onClick={onClose}>Close</button>
+          </div>
+        </div>
+
+        <div className="overflow-auto">
+          {error && <div className="px-3 py-2 text-red-700">Could not read records: {error}</div>}
+          {from >= to && <div className="px-3 py-2 text-slate-500">This range has not started yet.</div>}
+          <div className="px-3 pt-2 font-medium">Per treatment</div>
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 text-slate-500">
+              <tr>
+                <th className="px-3 py-1 font-medium">Study</th>
+                <th className="px-2 py-1 font-medium">Treatment</th>
+                <th className="px-2 py-1 font-medium text-right">Cages</th>
+                <th className="px-2 py-1 font-medium text-right">Intake kg/d</th>
+                <th className="px-2 py-1 font-medium text-right">Dispensed mL/d</th>
+                <th className="px-2 py-1 font-medium text-right">ADG kg/d</th>
+                <th className="px-2 py-1 font-medium text-right">Cages with ADG</th>
+              </tr>
+            </thead>
+            <tbody>
+              {treatmentRows.map((t) => (
+                <tr key={`${t.studyId}:${t.treatment}`} className="border-t border-slate-100">
+                  <td className="px-3 py-0.5">{t.studyId}</td>
+                  <td className="px-2 py-0.5">{t.treatment}</td>
+                  <td className="px-2 py-0.5 text-right">{t.cages}</td>
+                  <td className="px-2 py-0.5 text-right">{kg(t.meanIntakeKg)}</td>
+                  <td className="px-2 py-0.5 text-right">{t.meanDispensedMl ?? "–"}</td>
+                  <td className="px-2 py-0.5 text-right">{kg(t.meanAdgKg, 3)}</td>
+                  <td className="px-2 py-0.5 text-right">{t.adgCages}</td>
+                </tr>
+              ))}
+              {treatmentRows.length === 0 && (
+                <tr>
+                  <td className="px-3 py-1 text-slate-500" colSpan={7}>No cages on study in this range.</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+
+          <div className="px-3 pt-3 font-medium">Per cage</div>
+          <table className="w-full text-left">
+            <thead className="bg-slate-50 text-slate-500">
+              <tr>
+                <th className="px-3 py-1 font-medium">Cage</th>
+                <th className="px-2 py-1 font-medium">Treatment</th>
+                <th className="px-2 py-1 font-medium">Animal</th>
+                <th className="px-2 py-1 font-medium text-right">Intake days</th>
+                <th className="px-2 py-1 font-medium text-right">Intake kg/d</th>
+                <th className="px-2 py-1 font-medium text-right">Dispensed mL/d</th>
+                <th className="px-2 py-1 font-medium text-right">Weighings</th>
+                <th className="px-2 py-1 font-medium text-right">First kg</th>
+                <th className="px-2 py-1 font-medium text-right">Last kg</th>
+                <th className="px-2 py-1 font-medium text-right">ADG kg/d</th>
+              </tr>
+            </thead>
+            <tbody>
+              {cageRows.map((c) => (
+                <tr key={intakeKey(c)} className="border-t border-slate-100">
+                  <td className="px-3 py-0.5">{c.cage}</td>
+                  <td className="px-2 py-0.5">{c.treatment || "–"}</td>
+                  <td className="px-2 py-0.5">{c.animalId || "–"}</td>
+                  <td className="px-2 py-0.5 text-right">{c.intakeDays}</td>
+                  <td className="px-2 py-0.5 text-right">{kg(c.meanIntakeKg)}</td>
+                  <td className="px-2 py-0.5 text-right">{c.meanDispensedMl ?? "–"}</td>
+                  <td className="px-2 py-0.5 text-right">{c.weighings}</td>
+                  <td className="px-2 py-0.5 text-right">{kg(c.firstWeightKg, 1)}</td>
+                  <td className="px-2 py-0.5 text-right">{kg(c.lastWeightKg, 1)}</td>
+                  <td className="px-2 py-0.5 text-right">{kg(c.adgKg, 3)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="px-3 py-1 border-t border-slate-100 text-[10px] text-slate-500">
+          Intake is feed offered minus refused, on the day the refusals were weighed back; kg/d averages the days with a feed record. Dispensed volume needs a valve calibration. Rows are per cage, study and animal. ADG is the gain between that animal's first and last weighing in the range, per day (weighings at least a day apart). Treatment values are means of the cage values. The export has one row per cage and day (at most {MAX_DAYS} days).
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { DEFAULT_WINDOW, minutesOfDay, newProgramId, validateProgram } from "../programs";
+import type { FeedingProgram, ProgramWindow } from "../types";
+
+type DayKey = "weekday" | "weekend";
+const DAYS: { key: DayKey; label: string }[] = [
+  { key: "weekday", label: "Weekday (Mon–Fri)" },
+  { key: "weekend", label: "Weekend (Sat–Sun)" },
+];
+
+const CHART_W = 420;
+const LABEL_W = 56;
+const ROW_H = 14;
+const x = (min: number) => LABEL_W + (min / (24 * 60)) * (CHART_W - LABEL_W);
+
+/** Day view of one program: feeding windows (bowl IN), valve-enabled windows and stir starts. */
+function DayPreview({ program }: { program: FeedingProgram }) {
+  return (
+    <svg width={CHART_W} height={DAYS.length * (ROW_H + 6) + 14} className="text-[9px]">
+      {[0, 6, 12, 18, 24].map((h) => (
+        <g key={h}>
+          <line x1={x(h * 60)} x2={x(h * 60)} y1={0} y2={DAYS.length * (ROW_H + 6)} stroke="#e2e8f0" />
+          <text x={x(h * 60)} y={DAYS.length * (ROW_H + 6) + 10} textAnchor="middle" fill="#64748b">
+            {String(h).padStart(2, "0")}:00
+          </text>
+        </g>
+      ))}
+      {DAYS.map((d, i) => (
+        <g key={d.key} transform={`translate(0 ${i * (ROW_H + 6)})`}>
+          <text x={0} y={ROW_H - 3} fill="#475569">{d.key === "weekday" ? "Weekday" : "Weekend"}</text>
+          <rect x={LABEL_W} y={0} width={CHART_W - LABEL_W} height={ROW_H} fill="#f8fafc" />
+          {program[d.key].map((w, j) => {
+            const start = minutesOfDay(w.start);
+            const end = minutesOfDay(w.end);
+            if (start === null || end === null || end <= start) return null;
+            const stirs = w.stirEveryMin > 0 && w.stirDurationSec > 0 ? Math.ceil((end - start) / w.stirEveryMin) : 0;
+            return (
+              <g key={j}>
+                <rect x={x(start)} y={0} width={x(end) - x(start)} height={ROW_H} fill={w.valveEnabled ? "#10b981" : "#94a3b8"} opacity={0.5}>
+                  <title>{`${w.start}–${w.end}: bowl IN, valve ${w.valveEnabled ? "enabled" : "off"}, stir ${stirs ? `every ${w.stirEveryMin} min for ${w.stirDurationSec} s` : "off"}`}</title>
+                </rect>
+                {Array.from({ length: stirs }, (_, k) => (
+                  <line key={k} x1={x(start + k * w.stirEveryMin)} x2={x(start + k * w.stirEveryMin)} y1={2} y2={ROW_H - 2} stroke="#2563eb" />
+                ))}
+              </g>
+            );
+          })}
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+function WindowRow({ w, onChange, onRemove }: { w: ProgramWindow; onChange: (w: ProgramWindow) => void; onRemove: () => void }) {
+  return (
+    <tr>
+      <td className="pr-1">
+        <input type="time" className="px-1 py-0.5 border rounded" value={w.start} onChange={(e) => onChange({ ...w, start: e.target.value })} />
+      </td>
+      <td className="pr-1">
+        <input type="time" className="px-1 py-0.5 border rounded" value={w.end} onChange={(e) => onChange({ ...w, end: e.target.value })} />
+      </td>
+      <td className="pr-1">
+        <input type="number" min={0} className="w-12 px-1 py-0.5 border rounded" value={w.stirEveryMin} onChange={(e) => onChange({ ...w, stirEveryMin: Number(e.target.value) })} />
+      </td>
+      <td className="pr-1">
+        <input type="number" min={0} className="w-12 px-1 py-0.5 border rounded" value={w.stirDurationSec} onChange={(e) => onChange({ ...w, stirDurationSec: Number(e.target.value) })} />
+      </td>
+      <td className="pr-1 text-center">
+        <input type="checkbox" className="h-3.5 w-3.5" checked={w.valveEnabled} onChange={(e) => onChange({ ...w, valveEnabled: e.target.checked })} />
+      </td>
+      <td>
+        <button className="px-1.5 rounded border" onClick={onRemove} title="Remove window">
+          ×
+        </button>
+      </td>
+    </tr>
+  );
+}
+
+/** Library of named feeding programs; edits are kept as a draft until saved. */
+export default function ProgramEditor({
+  programs,
+  usage,
+  readOnly,
+  onSave,
+  onClose,
+}: {
+  programs: FeedingProgram[];
+  usage: (programId: string) => number;
+  readOnly: boolean;
+  onSave: (programs: FeedingProgram[]) => void;
+  onClose: () => void;
+}) {
+  const [draft, setDraft] = useState<FeedingProgram[]>(programs);
+  const [selectedId, setSelectedId] = useState<string | null>(programs[0]?.id ?? null);
+  const program = draft.find((p) => p.id === selectedId) ?? null;
+  const invalid = draft.filter((p) => validateProgram(p, draft).length > 0);
+
+  function update(next: FeedingProgram) {
+    setDraft((prev) => prev.map((p) => (p.id === next.id ? next : p)));
+  }
+  function add(base?: FeedingProgram) {
+    const id = newProgramId(draft);
+    const p: FeedingProgram = base
+      ? { ...base, id, name: `${base.name} (copy)` }
+      : { id, name: `Program ${draft.length + 1}`, weekday: [{ ...DEFAULT_WINDOW }], weekend: [{ ...DEFAULT_WINDOW }] };
+    setDraft((prev) => [...prev, p]);
+    setSelectedId(id);
+  }
+  function remove(id: string) {
+    const rest = draft.filter((p) => p.id !== id);
+    setDraft(rest);
+    setSelectedId(rest[0]?.id ?? null);
+  }
+  function setWindows(day: DayKey, windows: ProgramWindow[]) {
+    if (program) update({ ...program, [day]: windows });
+  }
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/30 flex items-start justify-center pt-16" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-lg border border-slate-200 w-[44rem] max-h-[calc(100vh-6rem)] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="px-3 py-2 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <div className="font-medium text-[13px]">Feeding programs</div>
+            <div className="text-[10px] text-slate-600">
+              AUTO cages on a program keep the bowl OUT between its windows.{readOnly && " View only: admins edit programs."}
+            </div>
+          </div>
+          <button className="px-2 py-0.5 rounded border" onClick={onClose}>Close</button>
+        </div>
+        <div className="flex min-h-0 flex-1">
+          <div className="w-40 border-r border-slate-100 p-2 space-y-1 overflow-auto">
+            {draft.map((p) => (
+              <button
+                key={p.id}
+                className={`w-full text-left px-1.5 py-0.5 rounded border ${p.id === selectedId ? "bg-slate-900 text-white border-slate-900" : "border-slate-200"} ${invalid.includes(p) ? "text-red-700" : ""}`}
+                onClick={() => setSelectedId(p.id)}
+              >
+                {p.name || "(unnamed)"}
+                <span className="text-[9px] opacity-70"> · {usage(p.id)} cage(s)</span>
+              </button>
+            ))}
+            <div className="flex gap-1 pt-1">
+              <button className="px-1.5 py-0.5 rounded border" disabled={readOnly} onClick={() => add()}>New</button>
+              <button className="px-1.5 py-0.5 rounded border" disabled={readOnly || !program} onClick={() => program && add(program)}>Duplicate</button>
+            </div>
+          </div>
+          {program ? (
+            <fieldset className="min-w-0 flex-1 p-3 space-y-2 overflow-auto" disabled={readOnly}>
+              <div className="flex items-center gap-2">
+                <span className="text-slate-600">Name</span>
+                <input className="flex-1 px-1 py-0.5 border rounded" value={program.name} onChange={(e) => update({ ...program, name: e.target.value })} />
+                <button
+                  className="px-2 py-0.5 rounded border"
+                  onClick={() => remove(program.id)}
+                  title={usage(program.id) ? `${usage(program.id)} cage(s) go back to their fixed interval` : ""}
+                >
+                  Delete
+                </button>
+              </div>
+              <DayPreview program={program} />
+              {DAYS.map((d) => (
+                <div key={d.key}>
+                  <div className="flex items-center justify-between">
+                    <div className="font-medium">{d.label}</div>
+                    <div className="flex gap-1">
+                      {d.key === "weekend" && (
+                        <button className="px-1.5 py-0.5 rounded border" onClick={() => setWindows("weekend", program.weekday.map((w) => ({ ...w })))}>
+                          Same as weekday
+                        </button>
+                      )}
+                      <button className="px-1.5 py-0.5 rounded border" onClick={() => setWindows(d.key, [...program[d.key], { ...DEFAULT_WINDOW }])}>
+                        + Window
+                      </button>
+                    </div>
+                  </div>
+                  {program[d.key].length === 0 ? (
+                    <div className="text-[10px] text-slate-500">No feeding windows: bowl stays OUT all day.</div>
+                  ) : (
+                    <table className="text-[10px]">
+                      <thead className="text-slate-500 text-left">
+                        <tr>
+                          <th className="pr-1 font-normal">Start</th>
+                          <th className="pr-1 font-normal">End</th>
+                          <th className="pr-1 font-normal">Stir every (min)</th>
+                          <th className="pr-1 font-normal">for (s)</th>
+                          <th className="pr-1 font-normal">Valve</th>
+                          <th />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {program[d.key].map((w, i) => (
+                          <WindowRow
+                            key={i}
+                            w={w}
+                            onChange={(next) => setWindows(d.key, program[d.key].map((other, j) => (j === i ? next : other)))}
+                            onRemove={() => setWindows(d.key, program[d.key].filter((_, j) => j !== i))}
+                          />
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              ))}
+              {validateProgram(program, draft).map((issue) => (
+                <div key={issue} className="text-[10px] text-red-700">{issue}</div>
+              ))}
+            </fieldset>
+          ) : (
+            <div className="flex-1 p-3 text-slate-500">No programs. Create one with New.</div>
+          )}
+        </div>
+        <div className="px-3 py-2 border-t border-slate-100 flex items-center justify-end gap-1.5">
+          {invalid.length > 0 && <span className="text-[10px] text-red-700 mr-auto">Fix {invalid.map((p) => p.name || "(unnamed)").join(", ")} before saving</span>}
+          <button className="px-2 py-0.5 rounded border" onClick={onClose}>Cancel</button>
+          <button className="px-2.5 py-0.5 rounded border bg-slate-900 text-white disabled:opacity-50" disabled={readOnly || invalid.length > 0} onClick={() => onSave(draft)}>
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
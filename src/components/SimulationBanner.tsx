@@ -0,0 +1,28 @@
+import { SIMULATION_SPEEDS } from "../simulation";
+
+/** Always visible in simulation mode so nobody mistakes simulated cages for the real ones. */
+export default function SimulationBanner({ now, speed, onSpeed, onAdvance }: { now: number; speed: number; onSpeed: (speed: number) => void; onAdvance: (ms: number) => void }) {
+  return (
+    <div className="bg-fuchsia-700 text-white text-[11px]">
+      <div className="max-w-[1800px] mx-auto px-3 py-1 flex items-center gap-3">
+        <span className="font-bold tracking-widest">SIMULATION</span>
+        <span className="text-fuchsia-100">Virtual clock and simulated hardware; nothing is sent to the real cages and live data is not changed.</span>
+        <span className="ml-auto font-mono">{new Date(now).toLocaleString()}</span>
+        <div className="flex items-center gap-1">
+          {SIMULATION_SPEEDS.map((s) => (
+            <button
+              key={s}
+              className={`px-1.5 py-0.5 rounded border ${s === speed ? "bg-white text-fuchsia-800 border-white" : "border-fuchsia-300 hover:bg-fuchsia-600"}`}
+              onClick={() => onSpeed(s)}
+            >
+              {s}×
+            </button>
+          ))}
+          <button className="px-1.5 py-0.5 rounded border border-fuchsia-300 hover:bg-fuchsia-600" onClick={() => onAdvance(3600_000)}>
+            +1 h
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { EMPTY_STUDY, validateStudy } from "../study";
+import type { Cage, StudyAssignment } from "../types";
+
+/** Assign (or remove) study metadata for one cage or a whole selection. */
+export default function StudyEditor({
+  cages,
+  studies,
+  treatments,
+  onSave,
+  onClose,
+}: {
+  cages: Cage[];
+  studies: string[];
+  treatments: string[];
+  onSave: (study: StudyAssignment | null) => void;
+  onClose: () => void;
+}) {
+  const single = cages.length === 1 ? cages[0] : null;
+  const [draft, setDraft] = useState<StudyAssignment>(() => ({ ...EMPTY_STUDY, ...(single?.study ?? cages.find((c) => c.study)?.study), ...(single ? {} : { animalId: "" }) }));
+  const error = validateStudy(draft);
+
+  function field(key: keyof StudyAssignment, label: string, type = "text", list?: string) {
+    return (
+      <label className="flex items-center gap-2">
+        <span className="w-24 text-slate-600">{label}</span>
+        <input type={type} list={list} className="flex-1 px-1 py-0.5 border rounded" value={draft[key]} onChange={(e) => setDraft({ ...draft, [key]: e.target.value })} />
+      </label>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 z-20 bg-slate-900/30 flex items-start justify-center pt-24" onClick={onClose}>
+      <div className="bg-white rounded-lg shadow-lg border border-slate-200 w-80" onClick={(e) => e.stopPropagation()}>
+        <div className="px-3 py-2 border-b border-slate-100">
+          <div className="font-medium text-[13px]">Study assignment</div>
+          <div className="text-[10px] text-slate-600">{single ? single.name : `${cages.length} cages: ${cages.map((c) => c.name).join(", ")}`}</div>
+        </div>
+        <div className="p-3 space-y-1.5">
+          {field("studyId", "Study ID", "text", "study-ids")}
+          {field("treatment", "Treatment", "text", "treatments")}
+          {single && field("animalId", "Animal ID")}
+          {field("startDate", "Start date", "date")}
+          {field("endDate", "End date", "date")}
+          <datalist id="study-ids">
+            {studies.map((s) => (
+              <option key={s} value={s} />
+            ))}
+          </datalist>
+          <datalist id="treatments">
+            {treatments.map((t) => (
+              <option key={t} value={t} />
+            ))}
+          </datalist>
+          {error && <div className="text-[10px] text-red-700">{error}</div>}
+        </div>
+        <div className="px-3 py-2 border-t border-slate-100 flex justify-between">
+          <button className="px-2 py-0.5 rounded border" onClick={() => onSave(null)} disabled={!cages.some((c) => c.study)}>
+            Remove
+          </button>
+          <div className="flex gap-1.5">
+            <button className="px-2 py-0.5 rounded border" onClick={onClose}>Cancel</button>
+            <button className="px-2.5 py-0.5 rounded border bg-slate-900 text-white disabled:opacity-50" disabled={!!error} onClick={() => onSave(draft)}>
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
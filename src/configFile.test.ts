@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { createInitialCages } from "./cages";
+import { buildConfigFile, parseConfigFile } from "./configFile";
+import { loadFacilityConfig } from "./facility";
+import { DEFAULT_PROGRAMS } from "./programs";
+import type { AutoPreset } from "./types";
+
+const cages = createInitialCages(loadFacilityConfig()).slice(0, 3);
+const PRESET: AutoPreset = { id: "preset-1", name: "Morning", auto: { ...cages[0].auto }, programId: null };
+
+function fileText(edit: (file: Record<string, unknown> & { cages: Record<string, unknown>[] }) => void = () => {}): string {
+  const file = JSON.parse(JSON.stringify(buildConfigFile("Test", cages, DEFAULT_PROGRAMS, [PRESET], Date.UTC(2026, 0, 5))));
+  edit(file);
+  return JSON.stringify(file);
+}
+
+describe("configuration file import", () => {
+  it("reads back an exported file", () => {
+    expect(parseConfigFile(fileText())).toEqual({ ok: true, file: buildConfigFile("Test", cages, DEFAULT_PROGRAMS, [PRESET], Date.UTC(2026, 0, 5)) });
+  });
+
+  it("refuses malformed JSON and other documents", () => {
+    expect(parseConfigFile("{ cages: [")).toEqual({ ok: false, errors: [expect.stringMatching(/^Not valid JSON: /)] });
+    expect(parseConfigFile("[]")).toEqual({ ok: false, errors: ['Not a cage configuration file (expected "format": "pncl-cage-config")'] });
+    expect(parseConfigFile(fileText((f) => (f.version = 2)))).toEqual({ ok: false, errors: ["Unsupported file version 2 (expected 1)"] });
+  });
+
+  it("refuses valve low % at or above valve high %, in cages and presets", () => {
+    const result = parseConfigFile(
+      fileText((f) => {
+        f.cages[0].auto = { ...cages[0].auto, valveOpenBelowPct: 70, valveCloseAbovePct: 70 };
+        f.cages[2].auto = { ...cages[2].auto, valveOpenBelowPct: 80, valveCloseAbovePct: 40 };
+        f.presets = [{ ...PRESET, auto: { ...PRESET.auto, valveOpenBelowPct: 90, valveCloseAbovePct: 20 } }];
+      })
+    );
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        `cages[0] (${cages[0].name}): valve low % must be below valve high %`,
+        `cages[2] (${cages[2].name}): valve low % must be below valve high %`,
+        "presets[0] (Morning): Valve low % must be below valve high %",
+      ],
+    });
+  });
+
+  it("lists every bad entry instead of importing part of the file", () => {
+    const result = parseConfigFile(
+      fileText((f) => {
+        f.cages[0].mode = "TURBO";
+        f.cages[1].auto = { ...cages[1].auto, valveCloseAbovePct: 140 };
+        f.cages[2].name = cages[0].name;
+        delete f.programs;
+      })
+    );
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        "programs: missing list",
+        `cages[0] (${cages[0].name}): invalid mode "TURBO"`,
+        `cages[1] (${cages[1].name}): invalid AUTO settings`,
+        `cages[2]: ${cages[0].name} appears more than once`,
+      ],
+    });
+  });
+});
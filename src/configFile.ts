@@ -0,0 +1,141 @@
+// Cage configuration files: every cage's mode, AUTO settings, feeding program and study, plus the
+// program and preset libraries, as one JSON document. Imports are validated here and previewed
+// as a group operation before anything changes.
+
+import { isAutoSettings, isStudyOrNull } from "./persistence";
+import { isPreset, validatePreset } from "./presets";
+import { isProgram, validateProgram } from "./programs";
+import { MODES } from "./types";
+import type { AutoPreset, AutoSettings, Cage, FeedingProgram, Mode, StudyAssignment } from "./types";
+
+export const CONFIG_FORMAT = "pncl-cage-config";
+export const CONFIG_VERSION = 1;
+
+/** One cage in a configuration file, matched to the facility by name on import. */
+export type CageConfigEntry = {
+  name: string;
+  station: number;
+  mode: Mode;
+  auto: AutoSettings;
+  programId: string | null;
+  study: StudyAssignment | null;
+};
+
+export type CageConfigFile = {
+  format: typeof CONFIG_FORMAT;
+  version: number;
+  exportedAt: string;
+  facility: string;
+  cages: CageConfigEntry[];
+  programs: FeedingProgram[];
+  presets: AutoPreset[];
+};
+
+export type ConfigParseResult = { ok: true; file: CageConfigFile } | { ok: false; errors: string[] };
+
+export function buildConfigFile(facility: string, cages: Cage[], programs: FeedingProgram[], presets: AutoPreset[], at: number): CageConfigFile {
+  return {
+    format: CONFIG_FORMAT,
+    version: CONFIG_VERSION,
+    exportedAt: new Date(at).toISOString(),
+    facility,
+    cages: cages.map(({ name, station, mode, auto, programId, study }) => ({ name, station, mode, auto, programId, study })),
+    programs,
+    presets,
+  };
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function entryProblem(v: unknown): string | null {
+  if (!isObject(v)) return "not an object";
+  if (typeof v.name !== "string" || !v.name) return "missing cage name";
+  if (!Number.isInteger(v.station)) return "invalid station";
+  if (!MODES.includes(v.mode as Mode)) return `invalid mode ${JSON.stringify(v.mode)}`;
+  if (!isAutoSettings(v.auto)) return "invalid AUTO settings";
+  if (v.auto.valveOpenBelowPct >= v.auto.valveCloseAbovePct) return "valve low % must be below valve high %";
+  if (v.programId !== null && typeof v.programId !== "string") return "invalid feeding program";
+  if (!isStudyOrNull(v.study)) return "invalid study assignment";
+  return null;
+}
+
+/** Checks a configuration file against the cage model; every problem is listed, nothing is partially accepted. */
+export function parseConfigFile(text: string): ConfigParseResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (err) {
+    return { ok: false, errors: [`Not valid JSON: ${err instanceof Error ? err.message : String(err)}`] };
+  }
+  if (!isObject(raw) || raw.format !== CONFIG_FORMAT) return { ok: false, errors: [`Not a cage configuration file (expected "format": "${CONFIG_FORMAT}")`] };
+  if (raw.version !== CONFIG_VERSION) return { ok: false, errors: [`Unsupported file version ${JSON.stringify(raw.version)} (expected ${CONFIG_VERSION})`] };
+
+  const errors: string[] = [];
+  const cages = Array.isArray(raw.cages) ? raw.cages : null;
+  const programs = Array.isArray(raw.programs) ? raw.programs : null;
+  const presets = Array.isArray(raw.presets) ? raw.presets : null;
+  if (!cages) errors.push("cages: missing list");
+  if (!programs) errors.push("programs: missing list");
+  if (!presets) errors.push("presets: missing list");
+  cages?.forEach((c, i) => {
+    const problem = entryProblem(c);
+    if (problem) errors.push(`cages[${i}]${isObject(c) && typeof c.name === "string" ? ` (${c.name})` : ""}: ${problem}`);
+  });
+  const names = (cages ?? []).map((c) => (isObject(c) ? c.name : undefined));
+  names.forEach((n, i) => {
+    if (typeof n === "string" && names.indexOf(n) !== i) errors.push(`cages[${i}]: ${n} appears more than once`);
+  });
+  programs?.forEach((p, i) => {
+    if (!isProgram(p)) errors.push(`programs[${i}]: invalid feeding program`);
+    else validateProgram(p, programs.filter(isProgram)).forEach((issue) => errors.push(`programs[${i}] (${p.name}): ${issue}`));
+  });
+  presets?.forEach((p, i) => {
+    if (!isPreset(p)) errors.push(`presets[${i}]: invalid preset`);
+    else validatePreset(p, presets.filter(isPreset)).forEach((issue) => errors.push(`presets[${i}] (${p.name}): ${issue}`));
+  });
+  if (errors.length) return { ok: false, errors };
+  return {
+    ok: true,
+    file: {
+      format: CONFIG_FORMAT,
+      version: CONFIG_VERSION,
+      exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : "",
+      facility: typeof raw.facility === "string" ? raw.facility : "",
+      cages: cages as CageConfigEntry[],
+      programs: programs as FeedingProgram[],
+      presets: presets as AutoPreset[],
+    },
+  };
+}
+
+export type LibraryMerge<T> = { merged: T[]; added: string[]; replaced: string[] };
+
+/** Items from the file are added, or replace the library item with the same id when they differ. */
+export function mergeLibrary<T extends { id: string; name: string }>(current: T[], incoming: T[]): LibraryMerge<T> {
+  const merged = [...current];
+  const added: string[] = [];
+  const replaced: string[] = [];
+  incoming.forEach((item) => {
+    const i = merged.findIndex((m) => m.id === item.id);
+    if (i < 0) {
+      merged.push(item);
+      added.push(item.name);
+    } else if (JSON.stringify(merged[i]) !== JSON.stringify(item)) {
+      merged[i] = item;
+      replaced.push(item.name);
+    }
+  });
+  return { merged, added, replaced };
+}
+
+export function describeMerge<T>(label: string, merge: LibraryMerge<T>): string | null {
+  const parts = [merge.added.length ? `adds ${merge.added.join(", ")}` : "", merge.replaced.length ? `replaces ${merge.replaced.join(", ")}` : ""].filter(Boolean);
+  return parts.length ? `${label}: ${parts.join("; ")}` : null;
+}
+
+export function configFileName(at: number): string {
+  const d = new Date(at);
+  return `cage-config_${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}.json`;
+}
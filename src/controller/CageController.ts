@@ -0,0 +1,189 @@
+// Hardware controller abstraction. The UI never writes actuator state directly;
+// it sends commands through a CageController and renders whatever the device reports.
+
+import type { Bowl } from "../types";
+
+/** Actuator and sensor state as reported by the station hardware for one cage. */
+export type DeviceReport = {
+  cageId: number;
+  bowl: Bowl;
+  stirring: boolean;
+  valveOpen: boolean;
+  levelPct: number; // feed level, percent of bowl capacity
+};
+
+export type Actuators = Pick<DeviceReport, "bowl" | "stirring" | "valveOpen">;
+
+export type ControllerCommand =
+  | { type: "SET_BOWL"; cageId: number; bowl: Bowl }
+  | { type: "SET_STIR"; cageId: number; on: boolean }
+  | { type: "SET_VALVE"; cageId: number; open: boolean }
+  | { type: "READ_STATE"; cageId: number };
+
+/**
+ * Wire-level link to the station hardware. A transport resolves each command with the
+ * device state after it was executed and may push unsolicited reports (e.g. level changes).
+ */
+export interface ControllerTransport {
+  send(command: ControllerCommand): Promise<DeviceReport>;
+  onReport(listener: (report: DeviceReport) => void): () => void;
+}
+
+/** How long to wait for a device answer and how often to resend before giving up. */
+export type CommandPolicy = {
+  timeoutMs: number;
+  retries: number; // extra attempts after the first
+  retryDelayMs: number;
+  probeMs: number; // READ_STATE probe interval while the connection is lost
+};
+
+export const DEFAULT_COMMAND_POLICY: CommandPolicy = { timeoutMs: 3000, retries: 2, retryDelayMs: 500, probeMs: 5000 };
+
+/** "lost" once a command ran out of attempts without an answer; "online" again on the next answer. */
+export type ConnectionStatus = "online" | "lost";
+
+export class CommandTimeoutError extends Error {
+  readonly command: ControllerCommand;
+
+  constructor(command: ControllerCommand, attempts: number, timeoutMs: number) {
+    super(`${command.type} for cage ${command.cageId}: no answer after ${attempts} attempt(s) of ${timeoutMs} ms`);
+    this.name = "CommandTimeoutError";
+    this.command = command;
+  }
+}
+
+/** A step of applyActuators failed; `field` is the actuator that did not reach its target. */
+export class ActuationError extends Error {
+  readonly cageId: number;
+  readonly field: keyof Actuators;
+  readonly timedOut: boolean;
+
+  constructor(cageId: number, field: keyof Actuators, cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = "ActuationError";
+    this.cageId = cageId;
+    this.field = field;
+    this.timedOut = cause instanceof CommandTimeoutError;
+  }
+}
+
+export interface CageController {
+  setBowl(cageId: number, bowl: Bowl): Promise<DeviceReport>;
+  setStir(cageId: number, on: boolean): Promise<DeviceReport>;
+  setValve(cageId: number, open: boolean): Promise<DeviceReport>;
+  /** Current feed level in percent. */
+  readLevel(cageId: number): Promise<number>;
+  readState(cageId: number): Promise<DeviceReport>;
+  /** Called for every report, whether it answers a command or was pushed by the device. */
+  subscribe(listener: (report: DeviceReport) => void): () => void;
+  connection(): ConnectionStatus;
+  onConnectionChange(listener: (status: ConnectionStatus) => void): () => void;
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export function createTransportController(transport: ControllerTransport, policy: CommandPolicy = DEFAULT_COMMAND_POLICY): CageController {
+  const listeners = new Set<(report: DeviceReport) => void>();
+  const connectionListeners = new Set<(status: ConnectionStatus) => void>();
+  const emit = (report: DeviceReport) => listeners.forEach((l) => l(report));
+  let status: ConnectionStatus = "online";
+  let probe: ReturnType<typeof setInterval> | null = null;
+
+  function setStatus(next: ConnectionStatus, probeCageId?: number) {
+    if (next === "lost" && probe === null && probeCageId !== undefined) {
+      probe = setInterval(() => {
+        attempt({ type: "READ_STATE", cageId: probeCageId }).catch(() => {});
+      }, policy.probeMs);
+    }
+    if (next === "online" && probe !== null) {
+      clearInterval(probe);
+      probe = null;
+    }
+    if (next === status) return;
+    status = next;
+    connectionListeners.forEach((l) => l(next));
+  }
+
+  transport.onReport((report) => {
+    setStatus("online");
+    emit(report);
+  });
+
+  /** One attempt with a deadline. A late answer is still emitted: it is the device's real state. */
+  async function attempt(command: ControllerCommand): Promise<DeviceReport> {
+    const answer = transport.send(command).then((report) => {
+      setStatus("online");
+      emit(report);
+      return report;
+    });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const deadline = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new CommandTimeoutError(command, 1, policy.timeoutMs)), policy.timeoutMs);
+    });
+    try {
+      return await Promise.race([answer, deadline]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  async function send(command: ControllerCommand) {
+    let lastError: unknown;
+    for (let n = 0; n <= policy.retries; n++) {
+      if (n > 0) await delay(policy.retryDelayMs);
+      try {
+        return await attempt(command);
+      } catch (err) {
+        lastError = err;
+      }
+    }
+    if (lastError instanceof CommandTimeoutError) {
+      setStatus("lost", command.cageId);
+      throw new CommandTimeoutError(command, policy.retries + 1, policy.timeoutMs);
+    }
+    throw lastError;
+  }
+
+  return {
+    setBowl: (cageId, bowl) => send({ type: "SET_BOWL", cageId, bowl }),
+    setStir: (cageId, on) => send({ type: "SET_STIR", cageId, on }),
+    setValve: (cageId, open) => send({ type: "SET_VALVE", cageId, open }),
+    readLevel: async (cageId) => (await send({ type: "READ_STATE", cageId })).levelPct,
+    readState: (cageId) => send({ type: "READ_STATE", cageId }),
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    connection: () => status,
+    onConnectionChange(listener) {
+      connectionListeners.add(listener);
+      return () => {
+        connectionListeners.delete(listener);
+      };
+    },
+  };
+}
+
+/**
+ * Drive a cage towards the target actuator state in an order that is safe for the hardware:
+ * close the valve first, then move the bowl and stirrer, and only open the valve last. Once
+ * `signal` is aborted (an emergency stop) the remaining steps are dropped.
+ */
+export async function applyActuators(controller: CageController, cageId: number, target: Partial<Actuators>, signal?: AbortSignal) {
+  async function step(field: keyof Actuators, run: () => Promise<DeviceReport>) {
+    if (signal?.aborted) return;
+    try {
+      await run();
+    } catch (err) {
+      throw new ActuationError(cageId, field, err);
+    }
+  }
+  const { bowl } = target;
+  if (target.valveOpen === false) await step("valveOpen", () => controller.setValve(cageId, false));
+  if (target.stirring === false) await step("stirring", () => controller.setStir(cageId, false));
+  if (bowl !== undefined) await step("bowl", () => controller.setBowl(cageId, bowl));
+  if (target.stirring === true) await step("stirring", () => controller.setStir(cageId, true));
+  if (target.valveOpen === true) await step("valveOpen", () => controller.setValve(cageId, true));
+}
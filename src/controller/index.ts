@@ -0,0 +1,12 @@
+export { ActuationError, CommandTimeoutError, DEFAULT_COMMAND_POLICY, applyActuators, createTransportController } from "./CageController";
+export type {
+  Actuators,
+  CageController,
+  CommandPolicy,
+  ConnectionStatus,
+  ControllerCommand,
+  ControllerTransport,
+  DeviceReport,
+} from "./CageController";
+export { createSimulatedTransport } from "./simulatedTransport";
+export type { SimulatedTransport, SimulatedTransportOptions } from "./simulatedTransport";
@@ -0,0 +1,84 @@
+// In-browser stand-in for the station hardware. Commands complete after a short
+// actuation delay and the simulated device enforces the bowl/valve interlock itself.
+
+import type { ControllerCommand, ControllerTransport, DeviceReport } from "./CageController";
+
+export type SimulatedTransportOptions = {
+  cageIds: number[];
+  latencyMs?: number;
+  /** Device state to start from (e.g. saved by the CLI); other cages start bowl IN, all off, 60 %. */
+  initial?: DeviceReport[];
+  /** Timer the latency runs on; the simulation mode passes its virtual clock's. */
+  setTimer?: (fn: () => void, ms: number) => void;
+};
+
+export type SimulatedTransport = ControllerTransport & {
+  /** Test hook: change the level sensor reading of a simulated cage. */
+  setLevel(cageId: number, levelPct: number): void;
+  /** Test hook: while offline, commands are swallowed without an answer, as with a dead link. */
+  setOnline(online: boolean): void;
+  /** Test hook: current device state without a command round trip (used by the feed model). */
+  peek(cageId: number): DeviceReport | undefined;
+};
+
+export function createSimulatedTransport({ cageIds, latencyMs = 120, initial = [], setTimer = (fn, ms) => setTimeout(fn, ms) }: SimulatedTransportOptions): SimulatedTransport {
+  const devices = new Map<number, DeviceReport>();
+  cageIds.forEach((cageId) => devices.set(cageId, { ...(initial.find((d) => d.cageId === cageId) ?? { cageId, bowl: "IN", stirring: false, valveOpen: false, levelPct: 60 }) }));
+  const listeners = new Set<(report: DeviceReport) => void>();
+  let online = true;
+
+  function execute(command: ControllerCommand): DeviceReport {
+    const device = devices.get(command.cageId);
+    if (!device) throw new Error(`Unknown cage id ${command.cageId}`);
+    switch (command.type) {
+      case "SET_BOWL":
+        device.bowl = command.bowl;
+        if (command.bowl === "OUT") device.valveOpen = false; // hardware interlock
+        break;
+      case "SET_STIR":
+        device.stirring = command.on;
+        break;
+      case "SET_VALVE":
+        if (command.open && device.bowl !== "IN") throw new Error(`Cage ${command.cageId}: valve cannot open while bowl is OUT`);
+        device.valveOpen = command.open;
+        break;
+      case "READ_STATE":
+        break;
+    }
+    return { ...device };
+  }
+
+  return {
+    send(command) {
+      return new Promise((resolve, reject) => {
+        if (!online) return;
+        setTimer(() => {
+          try {
+            resolve(execute(command));
+          } catch (err) {
+            reject(err);
+          }
+        }, latencyMs);
+      });
+    },
+    onReport(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    setLevel(cageId, levelPct) {
+      const device = devices.get(cageId);
+      if (!device) return;
+      device.levelPct = Math.min(100, Math.max(0, levelPct));
+      listeners.forEach((l) => l({ ...device }));
+    },
+    setOnline(next) {
+      online = next;
+    },
+    peek(cageId) {
+      const device = devices.get(cageId);
+      return device && { ...device };
+    },
+  };
+}
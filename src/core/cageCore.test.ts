@@ -0,0 +1,272 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createInitialCages } from "../cages";
+import { applyActuators, createSimulatedTransport, createTransportController } from "../controller";
+import { loadFacilityConfig } from "../facility";
+import { planGroupOperation } from "../groupOps";
+import { calibrationFromRun, runCalibration } from "../service";
+import { createCageCore } from "./cageCore";
+import type { Actor, CoreEvent } from "./cageCore";
+
+const OPERATOR: Actor = { source: "manual", user: "tester" };
+const LATENCY_MS = 100;
+
+// A core on simulated hardware, ticking every second under fake timers.
+function setup() {
+  const transport = createSimulatedTransport({ cageIds: createInitialCages(loadFacilityConfig()).map((c) => c.id), latencyMs: LATENCY_MS });
+  const controller = createTransportController(transport);
+  const core = createCageCore({ cages: createInitialCages(loadFacilityConfig()), controller });
+  const events: CoreEvent[] = [];
+  core.onEvent((e) => events.push(e));
+  const stop = core.start();
+  const cage = (name: string) => core.cages().find((c) => c.name === name)!;
+  return { core, controller, transport, events, stop, cage };
+}
+
+let rig: ReturnType<typeof setup>;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(2026, 0, 5, 12, 0, 0));
+  rig = setup();
+});
+
+afterEach(() => {
+  rig.stop();
+  vi.useRealTimers();
+});
+
+describe("mode transitions", () => {
+  it("only shows actuator changes once the device confirms them", async () => {
+    const { core, cage } = rig;
+    core.setMode(cage("C1").id, "MANUAL", OPERATOR);
+    expect(cage("C1").mode).toBe("MANUAL");
+    expect(cage("C1").bowl).toBe("IN");
+    await vi.advanceTimersByTimeAsync(LATENCY_MS * 4);
+    expect(cage("C1").bowl).toBe("OUT");
+  });
+
+  it("reports the operator-owned change with its actor", () => {
+    const { core, cage, events } = rig;
+    core.setMode(cage("C1").id, "SEMI", OPERATOR);
+    expect(events).toContainEqual(expect.objectContaining({ type: "update", actor: OPERATOR }));
+  });
+
+  it("stops the stirrer and closes the valve when a cage goes OFF", async () => {
+    const { core, cage } = rig;
+    const id = cage("C2").id;
+    core.setMode(id, "MANUAL", OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    const on = core.actuate(id, { bowl: "IN", stirring: true, valveOpen: true }, OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    await on;
+    expect(cage("C2")).toMatchObject({ stirring: true, valveOpen: true });
+    const done = core.setMode(id, "OFF", OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    await done;
+    expect(cage("C2")).toMatchObject({ mode: "OFF", bowl: "IN", stirring: false, valveOpen: false });
+  });
+});
+
+describe("interlocks", () => {
+  it("refuses to open the valve while the bowl is OUT", async () => {
+    const { core, cage, events } = rig;
+    const id = cage("C3").id;
+    core.setMode(id, "MANUAL", OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    events.length = 0;
+    await core.actuate(id, { valveOpen: true }, OPERATOR);
+    expect(events).toEqual([expect.objectContaining({ type: "blocked", rule: expect.objectContaining({ id: "VALVE_REQUIRES_BOWL_IN" }) })]);
+    expect(cage("C3").valveOpen).toBe(false);
+  });
+
+  it("closes the valve and stops the stirrer along with moving the bowl OUT", async () => {
+    const { core, cage, events } = rig;
+    const id = cage("C4").id;
+    core.setMode(id, "MANUAL", OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    const on = core.actuate(id, { bowl: "IN", stirring: true, valveOpen: true }, OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    await on;
+    events.length = 0;
+    const out = core.actuate(id, { bowl: "OUT" }, OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    await out;
+    expect(events[0]).toMatchObject({ type: "command", target: { bowl: "OUT", valveOpen: false, stirring: false } });
+    expect(cage("C4")).toMatchObject({ bowl: "OUT", stirring: false, valveOpen: false });
+  });
+});
+
+describe("AUTO scheduling", () => {
+  it("stirs for the configured duration on the configured cadence", async () => {
+    const { core, cage } = rig;
+    const id = cage("C5").id;
+    core.setAutoSettings(id, { stirEveryMin: 1, stirDurationSec: 10 }, OPERATOR);
+    core.setMode(id, "AUTO", OPERATOR);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(cage("C5").stirring).toBe(true);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(cage("C5").stirring).toBe(false);
+    await vi.advanceTimersByTimeAsync(50_000);
+    expect(cage("C5").stirring).toBe(true);
+  });
+
+  it("opens the valve at the low threshold and closes it at the high threshold", async () => {
+    const { core, cage, transport } = rig;
+    const id = cage("C6").id;
+    core.setAutoSettings(id, { stirEveryMin: 0 }, OPERATOR);
+    core.setMode(id, "AUTO", OPERATOR);
+    await vi.advanceTimersByTimeAsync(2000);
+    transport.setLevel(id, cage("C6").auto.valveOpenBelowPct);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(cage("C6").valveOpen).toBe(true);
+    transport.setLevel(id, 50);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(cage("C6").valveOpen).toBe(true);
+    transport.setLevel(id, cage("C6").auto.valveCloseAbovePct);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(cage("C6").valveOpen).toBe(false);
+  });
+
+  it("leaves AUTO at the auto-exit time", async () => {
+    const { core, cage, events } = rig;
+    const id = cage("C7").id;
+    core.setAutoSettings(id, { autoExitEnabled: true, autoExitTime: "12:05" }, OPERATOR);
+    core.setMode(id, "AUTO", OPERATOR);
+    await vi.advanceTimersByTimeAsync(4 * 60_000);
+    expect(cage("C7").mode).toBe("AUTO");
+    await vi.advanceTimersByTimeAsync(61_000);
+    expect(cage("C7").mode).toBe("OFF");
+    expect(events).toContainEqual(expect.objectContaining({ type: "update", actor: { source: "auto", user: "system" } }));
+  });
+});
+
+describe("group plans", () => {
+  it("changes the planned cages and leaves the skipped ones alone", async () => {
+    const { core, cage } = rig;
+    core.setMode(cage("C8").id, "MANUAL", OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    const station = core.cages().filter((c) => c.station === cage("C8").station);
+    const plan = planGroupOperation({ kind: "mode", mode: "MANUAL" }, station, Date.now(), []);
+    expect(plan.skipped.map((s) => s.cage)).toEqual(["C8"]);
+    const done = core.applyPlan(plan, { ...OPERATOR, source: "group" });
+    await vi.advanceTimersByTimeAsync(1000);
+    await done;
+    expect(station.map((c) => cage(c.name).mode)).toEqual(station.map(() => "MANUAL"));
+  });
+});
+
+describe("out of service", () => {
+  it("switches the cage OFF and refuses mode changes and actuation until returned", async () => {
+    const { core, cage, events } = rig;
+    const id = cage("C9").id;
+    core.setMode(id, "AUTO", OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    const held = core.setOutOfService(id, "stirrer broken", OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    await held;
+    expect(cage("C9")).toMatchObject({ mode: "OFF", outOfService: { reason: "stirrer broken", by: "tester" } });
+    events.length = 0;
+    await core.setMode(id, "MANUAL", OPERATOR);
+    await core.actuate(id, { bowl: "OUT" }, OPERATOR);
+    expect(events).toEqual([
+      expect.objectContaining({ type: "outOfService", requested: { mode: "MANUAL" }, actor: OPERATOR }),
+      expect.objectContaining({ type: "outOfService", requested: { bowl: "OUT" }, actor: OPERATOR }),
+    ]);
+    expect(cage("C9").mode).toBe("OFF");
+    await core.setOutOfService(id, null, OPERATOR);
+    expect(cage("C9")).toMatchObject({ mode: "OFF", outOfService: null });
+  });
+
+  it("is skipped by group plans and the AUTO scheduler", async () => {
+    const { core, cage } = rig;
+    const id = cage("C10").id;
+    const held = core.setOutOfService(id, "empty", OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    await held;
+    const station = core.cages().filter((c) => c.station === cage("C10").station);
+    const plan = planGroupOperation({ kind: "mode", mode: "AUTO" }, station, Date.now(), []);
+    expect(plan.skipped).toEqual([expect.objectContaining({ cage: "C10", reason: "out of service (empty)" })]);
+    // Even a cage held while still in AUTO (e.g. synced from another screen) is left alone.
+    core.setCages((prev) => prev.map((c) => (c.id === id ? { ...c, mode: "AUTO", autoAnchor: Date.now(), bowl: "OUT" } : c)));
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(cage("C10").bowl).toBe("OUT");
+  });
+});
+
+describe("valve calibration", () => {
+  it("closes the valve after the run time and measures the reported open time", async () => {
+    const { core, cage } = rig;
+    const id = cage("C11").id;
+    core.setMode(id, "MANUAL", OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    const bowlIn = core.actuate(id, { bowl: "IN" }, OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    await bowlIn;
+    const run = runCalibration(core, id, 20, OPERATOR, { now: () => Date.now() });
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(cage("C11").valveOpen).toBe(true);
+    await vi.advanceTimersByTimeAsync(20_000);
+    const openMs = await run.done;
+    expect(cage("C11").valveOpen).toBe(false);
+    expect(openMs).toBeGreaterThanOrEqual(20_000);
+    expect(openMs).toBeLessThan(21_000);
+    const result = calibrationFromRun(100, openMs, Date.now(), "tester");
+    expect(result.ok && result.calibration.mlPerSec).toBeCloseTo(100 / (openMs / 1000));
+  });
+
+  it("fails when an interlock refuses to open the valve", async () => {
+    const { core, cage } = rig;
+    const id = cage("C12").id;
+    core.setMode(id, "MANUAL", OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    const run = runCalibration(core, id, 20, OPERATOR, { now: () => Date.now() });
+    await expect(run.done).rejects.toThrow("Valve requires bowl IN");
+  });
+});
+
+describe("emergency stop", () => {
+  it("latches the cages OFF, drops AUTO and refuses commands until reset", async () => {
+    const { core, cage, events } = rig;
+    const id = cage("C13").id;
+    core.setAutoSettings(id, { stirEveryMin: 1, stirDurationSec: 30 }, OPERATOR);
+    core.setMode(id, "AUTO", OPERATOR);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(cage("C13").stirring).toBe(true);
+    const stopped = core.emergencyStop([id], { scope: "facility", station: null }, OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    await stopped;
+    expect(cage("C13")).toMatchObject({ mode: "OFF", bowl: "IN", stirring: false, valveOpen: false, stopped: { scope: "facility", by: "tester", modeBefore: "AUTO" } });
+    events.length = 0;
+    await core.setMode(id, "MANUAL", OPERATOR);
+    await core.actuate(id, { stirring: true }, OPERATOR);
+    expect(events).toEqual([
+      expect.objectContaining({ type: "stopped", requested: { mode: "MANUAL" }, actor: OPERATOR }),
+      expect.objectContaining({ type: "stopped", requested: { stirring: true }, actor: OPERATOR }),
+    ]);
+    // Even with AUTO restored behind its back (e.g. a stale screen), the scheduler leaves it alone.
+    core.setCages((prev) => prev.map((c) => (c.id === id ? { ...c, mode: "AUTO", autoAnchor: Date.now() } : c)));
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(cage("C13").stirring).toBe(false);
+    core.resetEmergencyStop([id], OPERATOR);
+    expect(cage("C13").stopped).toBeNull();
+  });
+
+  it("drops the rest of a command under way and stops a cage that reports running again", async () => {
+    const { core, cage, controller } = rig;
+    const id = cage("C14").id;
+    core.setMode(id, "MANUAL", OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    // Bowl IN, then stirrer and valve: stop while the bowl is still moving.
+    const on = core.actuate(id, { bowl: "IN", stirring: true, valveOpen: true }, OPERATOR);
+    await vi.advanceTimersByTimeAsync(LATENCY_MS / 2);
+    const stopped = core.emergencyStop([id], { scope: "station", station: cage("C14").station }, OPERATOR);
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all([on, stopped]);
+    expect(cage("C14")).toMatchObject({ stirring: false, valveOpen: false });
+    // A command from outside the core (e.g. another controller client) reaches the hardware anyway.
+    const late = applyActuators(controller, id, { stirring: true });
+    await vi.advanceTimersByTimeAsync(1000);
+    await late;
+    expect(cage("C14").stirring).toBe(false);
+  });
+});
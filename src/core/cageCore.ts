@@ -0,0 +1,351 @@
+// Framework-free cage control core: the cage table, mode transitions, interlock-checked actuation
+// and the AUTO scheduler. The React UI and the command-line client (server/cageCli.ts) both drive
+// it; neither writes cage state around it. Actuator and level fields only change through device
+// reports, exactly as in the UI. Cages out of service, or latched by an emergency stop, are left
+// alone by every path.
+
+import type { EventSource } from "../auditLog";
+import { applyActuators } from "../controller";
+import type { Actuators, CageController, DeviceReport } from "../controller";
+import { STOP_TARGET, violatesStop } from "../emergencyStop";
+import { configTransition, manualTarget, modeTransition, withSettings } from "../groupOps";
+import type { CageSnapshot, GroupPlan } from "../groupOps";
+import { checkInterlocks } from "../interlocks";
+import type { InterlockRule } from "../interlocks";
+import { autoValveTarget } from "../level";
+import { AUTO_EXIT_MODE, SCHEDULER_TICK_MS, armAuto, planForCage } from "../scheduler";
+import type { AutoSettings, Cage, EmergencyStop, FeedingProgram, Mode, StudyAssignment } from "../types";
+
+export interface Clock {
+  now(): number;
+}
+
+export const systemClock: Clock = { now: () => Date.now() };
+
+/** Who caused a change; `user` is the account name, "system" for the AUTO scheduler. */
+export type Actor = { source: EventSource; user: string };
+
+export const AUTO_ACTOR: Actor = { source: "auto", user: "system" };
+
+/** What a refused call asked for: the actuator target and, for mode changes, the mode. */
+export type RefusedRequest = Partial<Actuators> & { mode?: Mode };
+
+/** What the core did, for audit logging and command tracking by whoever drives it. */
+export type CoreEvent =
+  /** Operator-owned fields (mode, AUTO settings/schedule, program, study) changed. */
+  | { type: "update"; before: Cage; after: Cage; actor: Actor }
+  | { type: "command"; cageId: number; target: Partial<Actuators>; sentAt: number; actor: Actor }
+  | { type: "commandDone"; cageId: number; sentAt: number; report: DeviceReport | undefined }
+  | { type: "commandFailed"; cageId: number; sentAt: number; error: unknown }
+  | { type: "blocked"; cage: Cage; requested: Partial<Actuators>; rule: InterlockRule; actor: Actor }
+  /** A mode change or actuation was refused because the cage is out of service. */
+  | { type: "outOfService"; cage: Cage; requested: RefusedRequest; actor: Actor }
+  /** A mode change or actuation was refused because the cage is latched by an emergency stop. */
+  | { type: "stopped"; cage: Cage; requested: RefusedRequest; actor: Actor }
+  /** A device report; `last` is the previous report for the cage. */
+  | { type: "report"; cage: Cage; last: DeviceReport; report: DeviceReport };
+
+/** How one actuation ended, for callers that answer for it (the SEMI API); the events say the same. */
+export type ActuationResult =
+  | { status: "done"; report: DeviceReport | undefined }
+  | { status: "failed"; error: unknown }
+  | { status: "blocked"; rule: InterlockRule }
+  | { status: "outOfService" | "stopped" | "unknownCage" };
+
+export type CageCoreOptions = {
+  cages: Cage[];
+  controller: CageController;
+  programs?: FeedingProgram[];
+  clock?: Clock;
+};
+
+export interface CageCore {
+  cages(): Cage[];
+  cage(id: number): Cage | undefined;
+  /** Replaces cage state outside the control paths (selection, restored or synced state). */
+  setCages(update: (prev: Cage[]) => Cage[]): void;
+  programs(): FeedingProgram[];
+  setPrograms(programs: FeedingProgram[]): void;
+  subscribe(listener: (cages: Cage[]) => void): () => void;
+  onEvent(listener: (event: CoreEvent) => void): () => void;
+  /** Sends a change after the interlock check; resolves once the device answered or the command failed. */
+  actuate(id: number, requested: Partial<Actuators>, actor: Actor): Promise<void>;
+  /** actuate, resolving with how it ended. */
+  request(id: number, requested: Partial<Actuators>, actor: Actor): Promise<ActuationResult>;
+  setMode(id: number, mode: Mode, actor: Actor): Promise<void>;
+  setAutoSettings(id: number, patch: Partial<AutoSettings>, actor: Actor): void;
+  /** Back on the fixed interval (null) the stir cycle restarts from now. */
+  setProgram(id: number, programId: string | null, actor: Actor): void;
+  setStudy(id: number, study: StudyAssignment | null, actor: Actor): void;
+  /**
+   * Takes a cage out of service (switched OFF with the stirrer stopped and the valve closed; the
+   * bowl stays where it is) or, with a null reason, returns it to service in OFF.
+   */
+  setOutOfService(id: number, reason: string | null, actor: Actor): Promise<void>;
+  /**
+   * Emergency stop: latches the cages in OFF, drops queued scheduler and actuator commands, and
+   * closes their valves and stops their stirrers without moving the bowls.
+   */
+  emergencyStop(ids: number[], scope: Pick<EmergencyStop, "scope" | "station">, actor: Actor): Promise<void>;
+  /** Clears the latch of the given cages; they stay OFF. */
+  resetEmergencyStop(ids: number[], actor: Actor): void;
+  /** Writes the operator-owned fields of `next` and sends `target`. */
+  applyState(id: number, next: Cage, target: Partial<Actuators>, actor: Actor): Promise<void>;
+  /** Applies a confirmed group plan to the cages it changes; `library` overrides the programs (imports). */
+  applyPlan(plan: GroupPlan, actor: Actor, library?: FeedingProgram[]): Promise<void>;
+  /** Puts a cage back to a snapshot taken before a group operation. */
+  restore(snapshot: CageSnapshot, actor: Actor): Promise<void>;
+  /** Re-asserts the bowl position of AUTO cages after a restart; the next tick does the rest. */
+  resumeAuto(): Promise<void>;
+  /** One scheduler pass: AUTO exits, feeding windows, stir cycles and the level-driven valve. */
+  tick(at?: number): void;
+  /** Follows device reports until the returned function is called. */
+  connect(): () => void;
+  /** connect() plus a scheduler tick every `tickMs`. */
+  start(tickMs?: number): () => void;
+}
+
+export function createCageCore({ cages: initial, controller, programs: initialPrograms = [], clock = systemClock }: CageCoreOptions): CageCore {
+  let cages = initial;
+  let programs = initialPrograms;
+  const listeners = new Set<(cages: Cage[]) => void>();
+  const eventListeners = new Set<(event: CoreEvent) => void>();
+  const reported = new Map<number, DeviceReport>(initial.map((c) => [c.id, { cageId: c.id, bowl: c.bowl, stirring: c.stirring, valveOpen: c.valveOpen, levelPct: c.levelPct }]));
+  // Actuator changes the scheduler has sent and not yet seen confirmed, so it does not resend every tick.
+  const commanded = { bowl: new Map<number, unknown>(), stirring: new Map<number, unknown>(), valveOpen: new Map<number, unknown>() };
+  // Aborted by an emergency stop, so multi-step commands already under way go no further.
+  const aborts = new Map<number, AbortController>();
+  // Latched cages that reported running again and have a repeat stop on its way.
+  const restopping = new Set<number>();
+
+  function emit(event: CoreEvent) {
+    eventListeners.forEach((l) => l(event));
+  }
+  function setCages(update: (prev: Cage[]) => Cage[]) {
+    const next = update(cages);
+    if (next === cages) return;
+    cages = next;
+    listeners.forEach((l) => l(cages));
+  }
+  function find(id: number) {
+    return cages.find((c) => c.id === id);
+  }
+  function write(before: Cage, after: Cage, actor: Actor) {
+    const { mode, auto, autoAnchor, autoExitAt, programId, study, outOfService, stopped } = after;
+    setCages((prev) => prev.map((c) => (c.id === before.id ? { ...c, mode, auto, autoAnchor, autoExitAt, programId, study, outOfService, stopped } : c)));
+    emit({ type: "update", before, after: find(before.id) ?? after, actor });
+  }
+
+  // False (after telling the listeners) when the cage is latched or out of service.
+  function controllable(c: Cage, requested: RefusedRequest, actor: Actor): boolean {
+    if (c.stopped) emit({ type: "stopped", cage: c, requested, actor });
+    else if (c.outOfService) emit({ type: "outOfService", cage: c, requested, actor });
+    return !c.stopped && !c.outOfService;
+  }
+  function abortSignal(id: number): AbortSignal {
+    const abort = aborts.get(id) ?? new AbortController();
+    aborts.set(id, abort);
+    return abort.signal;
+  }
+
+  function actuate(id: number, requested: Partial<Actuators>, actor: Actor): Promise<void> {
+    return request(id, requested, actor).then(() => {});
+  }
+
+  function request(id: number, requested: Partial<Actuators>, actor: Actor): Promise<ActuationResult> {
+    const c = find(id);
+    if (!c) return Promise.resolve({ status: "unknownCage" });
+    if (!controllable(c, requested, actor)) return Promise.resolve({ status: c.stopped ? "stopped" : "outOfService" });
+    return send(c, requested, actor);
+  }
+
+  function send(c: Cage, requested: Partial<Actuators>, actor: Actor): Promise<ActuationResult> {
+    const id = c.id;
+    const check = checkInterlocks(c, requested);
+    if (!check.ok) {
+      emit({ type: "blocked", cage: c, requested, rule: check.rule, actor });
+      return Promise.resolve({ status: "blocked", rule: check.rule });
+    }
+    const sentAt = clock.now();
+    emit({ type: "command", cageId: id, target: check.target, sentAt, actor });
+    return applyActuators(controller, id, check.target, abortSignal(id)).then(
+      (): ActuationResult => {
+        const report = reported.get(id);
+        emit({ type: "commandDone", cageId: id, sentAt, report });
+        return { status: "done", report };
+      },
+      (error): ActuationResult => {
+        emit({ type: "commandFailed", cageId: id, sentAt, error });
+        return { status: "failed", error };
+      }
+    );
+  }
+
+  function setMode(id: number, mode: Mode, actor: Actor): Promise<void> {
+    const c = find(id);
+    if (!c || !controllable(c, { mode }, actor)) return Promise.resolve();
+    const { next, target } = modeTransition(c, mode, clock.now(), programs);
+    write(c, next, actor);
+    return actuate(id, target, actor);
+  }
+
+  function applyState(id: number, next: Cage, target: Partial<Actuators>, actor: Actor): Promise<void> {
+    const c = find(id);
+    if (!c || !controllable(c, { ...(next.mode !== c.mode && { mode: next.mode }), ...target }, actor)) return Promise.resolve();
+    write(c, next, actor);
+    return Object.keys(target).length ? actuate(id, target, actor) : Promise.resolve();
+  }
+
+  // Sends one scheduler-owned actuator change unless the same change is still on its way.
+  function schedule<F extends keyof Actuators>(c: Cage, field: F, value: Actuators[F]): boolean {
+    if (c[field] === value || commanded[field].get(c.id) === value) return false;
+    commanded[field].set(c.id, value);
+    actuate(c.id, { [field]: value }, AUTO_ACTOR).then(() => commanded[field].delete(c.id));
+    return true;
+  }
+
+  function tick(at = clock.now()) {
+    cages.forEach((c) => {
+      if (c.outOfService || c.stopped) return;
+      const plan = planForCage(c, at, programs);
+      if (!plan) return;
+      if (plan.exitDue) {
+        setMode(c.id, AUTO_EXIT_MODE, AUTO_ACTOR);
+        return;
+      }
+      // Feeding program windows: bowl IN at the window start, OUT (valve closed, stir off) at its end.
+      if (schedule(c, "bowl", plan.bowl)) return;
+      schedule(c, "stirring", plan.stirring);
+      schedule(c, "valveOpen", plan.valveEnabled && autoValveTarget(c.levelPct, c.auto, c.valveOpen));
+    });
+  }
+
+  function connect() {
+    return controller.subscribe((report) => {
+      const cage = find(report.cageId);
+      const last = reported.get(report.cageId);
+      reported.set(report.cageId, report);
+      setCages((prev) =>
+        prev.map((c) => (c.id === report.cageId ? { ...c, bowl: report.bowl, stirring: report.stirring, valveOpen: report.valveOpen, levelPct: report.levelPct } : c))
+      );
+      if (cage && last) emit({ type: "report", cage, last, report });
+      // A command that was already on the wire (or another screen) outran the stop: stop again.
+      const now = find(report.cageId);
+      if (now && violatesStop(now, report) && !restopping.has(now.id)) {
+        restopping.add(now.id);
+        send(now, STOP_TARGET, AUTO_ACTOR).finally(() => restopping.delete(now.id));
+      }
+    });
+  }
+
+  return {
+    cages: () => cages,
+    cage: find,
+    setCages,
+    programs: () => programs,
+    setPrograms(next) {
+      programs = next;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    onEvent(listener) {
+      eventListeners.add(listener);
+      return () => {
+        eventListeners.delete(listener);
+      };
+    },
+    actuate,
+    request,
+    setMode,
+    setAutoSettings(id, patch, actor) {
+      const c = find(id);
+      if (!c) return;
+      write(c, c.mode === "AUTO" ? armAuto(c, clock.now(), patch) : { ...c, auto: { ...c.auto, ...patch } }, actor);
+    },
+    setProgram(id, programId, actor) {
+      const c = find(id);
+      if (!c || c.programId === programId) return;
+      write(c, { ...c, programId, autoAnchor: c.mode === "AUTO" ? clock.now() : c.autoAnchor }, actor);
+    },
+    setStudy(id, study, actor) {
+      const c = find(id);
+      if (c) write(c, { ...c, study: study && { ...study } }, actor);
+    },
+    setOutOfService(id, reason, actor) {
+      const c = find(id);
+      if (!c) return Promise.resolve();
+      if (reason === null) {
+        if (c.outOfService) write(c, { ...c, outOfService: null }, actor);
+        return Promise.resolve();
+      }
+      const since = c.outOfService?.since ?? clock.now();
+      write(c, { ...modeTransition(c, "OFF", clock.now(), programs).next, outOfService: { reason, since, by: actor.user } }, actor);
+      return send(c, STOP_TARGET, actor).then(() => {});
+    },
+    async emergencyStop(ids, { scope, station }, actor) {
+      const at = clock.now();
+      const stopped = cages.filter((c) => ids.includes(c.id));
+      stopped.forEach((c) => {
+        aborts.get(c.id)?.abort();
+        aborts.delete(c.id);
+        (Object.keys(commanded) as (keyof Actuators)[]).forEach((f) => commanded[f].delete(c.id));
+        const latch = c.stopped ?? { scope, station, at, by: actor.user, modeBefore: c.mode };
+        write(c, { ...modeTransition(c, "OFF", at, programs).next, stopped: latch }, actor);
+      });
+      await Promise.all(stopped.map((c) => send(c, STOP_TARGET, actor)));
+    },
+    resetEmergencyStop(ids, actor) {
+      cages.filter((c) => ids.includes(c.id) && c.stopped).forEach((c) => write(c, { ...c, stopped: null }, actor));
+    },
+    applyState,
+    async applyPlan(plan, actor, library = programs) {
+      const op = plan.operation;
+      const at = clock.now();
+      const ids = new Set(plan.changes.map((p) => p.cageId));
+      // Cages taken out of service or stopped after the preview are skipped like any other.
+      const sent = cages
+        .filter((c) => ids.has(c.id) && !c.outOfService && !c.stopped)
+        .map((c) => {
+          if (op.kind === "mode") return setMode(c.id, op.mode, actor);
+          if (op.kind === "manual") return actuate(c.id, manualTarget(c, op.action), actor);
+          if (op.kind === "settings") return applyState(c.id, withSettings(c, op.auto, op.programId, at), {}, actor);
+          if (op.kind === "program") {
+            if (c.programId !== op.programId) write(c, { ...c, programId: op.programId, autoAnchor: c.mode === "AUTO" ? at : c.autoAnchor }, actor);
+            return Promise.resolve();
+          }
+          if (op.kind === "import") {
+            const entry = op.file.cages.find((e) => e.name === c.name);
+            if (!entry) return Promise.resolve();
+            const { next, target } = configTransition(c, entry, at, library);
+            return applyState(c.id, next, target, actor);
+          }
+          write(c, armAuto(c, at, op.settings), actor);
+          return Promise.resolve();
+        });
+      await Promise.all(sent);
+    },
+    restore(s, actor) {
+      const c = find(s.id);
+      if (!c) return Promise.resolve();
+      return applyState(s.id, { ...c, mode: s.mode, auto: s.auto, autoAnchor: s.autoAnchor, autoExitAt: s.autoExitAt, programId: s.programId, study: s.study }, { bowl: s.bowl, stirring: s.stirring, valveOpen: s.valveOpen }, actor);
+    },
+    async resumeAuto() {
+      const at = clock.now();
+      await Promise.all(cages.filter((c) => c.mode === "AUTO").map((c) => actuate(c.id, { bowl: planForCage(c, at, programs)?.bowl ?? "IN" }, AUTO_ACTOR)));
+    },
+    tick,
+    connect,
+    start(tickMs = SCHEDULER_TICK_MS) {
+      const disconnect = connect();
+      const t = setInterval(() => tick(), tickMs);
+      return () => {
+        clearInterval(t);
+        disconnect();
+      };
+    },
+  };
+}
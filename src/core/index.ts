@@ -0,0 +1,2 @@
+export { AUTO_ACTOR, createCageCore, systemClock } from "./cageCore";
+export type { ActuationResult, Actor, CageCore, CageCoreOptions, Clock, CoreEvent, RefusedRequest } from "./cageCore";
@@ -0,0 +1,108 @@
+// Daily operations report per cage and station, rebuilt from the audit log (mode, stir and valve
+// transitions, LOW crossings, operator actions) and the alarm history. Dispensed volume comes from
+// the valve-open time and each valve's flow calibration.
+
+import type { AuditEntry, AuditField } from "./auditLog";
+import type { Alarm } from "./alarms";
+import { buildTimeline } from "./history";
+import type { Segment, TimelineField } from "./history";
+import { dispensedMl } from "./service";
+import type { ValveCalibrations } from "./service";
+import { MODES } from "./types";
+import type { Cage, Mode } from "./types";
+
+export type DayTotals = {
+  modeMs: Record<Mode, number>;
+  stirCycles: number; // stir starts within the day
+  stirSec: number;
+  valveOpenMin: number;
+  dispensedMl: number | null; // null when no valve involved is calibrated
+  lowEvents: number; // crossings into LOW
+  alarms: number; // alarms raised within the day
+  interventions: number; // operator actions, see INTERVENTION_GAP_MS
+};
+
+export type CageDayReport = DayTotals & { cageId: number; cage: string; station: number };
+export type StationDayReport = DayTotals & { station: number; cages: number };
+
+// Changes an operator makes from the UI; the actuator entries a single click causes arrive
+// within a moment of each other and count as one intervention.
+const INTERVENTION_FIELDS: AuditField[] = ["mode", "auto", "program", "bowl", "stirring", "valveOpen"];
+const INTERVENTION_GAP_MS = 5000;
+
+function emptyTotals(): DayTotals {
+  return { modeMs: { OFF: 0, MANUAL: 0, SEMI: 0, AUTO: 0 }, stirCycles: 0, stirSec: 0, valveOpenMin: 0, dispensedMl: null, lowEvents: 0, alarms: 0, interventions: 0 };
+}
+
+function currentValue(c: Cage, field: TimelineField): string {
+  if (field === "mode") return c.mode;
+  if (field === "bowl") return c.bowl;
+  return (field === "stirring" ? c.stirring : c.valveOpen) ? "ON" : "OFF";
+}
+
+/** Value of a field at `t`: the `before` of the first later change, or the current value. */
+function valueAt(entries: AuditEntry[], field: TimelineField, t: number, current: string): string {
+  return entries.find((e) => e.field === field && e.at >= t)?.before ?? current;
+}
+
+function onMs(segments: Segment[]): number {
+  return segments.filter((s) => s.value === "ON").reduce((sum, s) => sum + (s.end - s.start), 0);
+}
+
+function countInterventions(entries: AuditEntry[]): number {
+  let count = 0;
+  let last = -Infinity;
+  entries
+    .filter((e) => (e.source === "manual" || e.source === "group") && INTERVENTION_FIELDS.includes(e.field))
+    .forEach((e) => {
+      if (e.at - last > INTERVENTION_GAP_MS) count++;
+      last = e.at;
+    });
+  return count;
+}
+
+/**
+ * Totals for each cage over [from, to). `entries` must cover `from` up to now, so the state at
+ * `to` can be recovered for a past day; they are expected oldest first.
+ */
+export function buildDailyReport(cages: Cage[], entries: AuditEntry[], alarms: Alarm[], from: number, to: number, calibrations: ValveCalibrations = {}): CageDayReport[] {
+  return cages.map((c) => {
+    const own = entries.filter((e) => e.cageId === c.id);
+    const inDay = own.filter((e) => e.at >= from && e.at < to);
+    const timeline = (field: TimelineField) => buildTimeline(own, field, valueAt(own, field, to, currentValue(c, field)), from, to);
+    const totals = emptyTotals();
+    timeline("mode").forEach((s) => {
+      if (MODES.includes(s.value as Mode)) totals.modeMs[s.value as Mode] += s.end - s.start;
+    });
+    totals.stirCycles = inDay.filter((e) => e.field === "stirring" && e.after === "ON").length;
+    totals.stirSec = Math.round(onMs(timeline("stirring")) / 1000);
+    const valveMs = onMs(timeline("valveOpen"));
+    totals.valveOpenMin = Math.round(valveMs / 600) / 100;
+    totals.dispensedMl = dispensedMl(valveMs, calibrations[c.name]);
+    totals.lowEvents = inDay.filter((e) => e.field === "level" && e.after.startsWith("LOW")).length;
+    totals.alarms = alarms.filter((a) => a.cageId === c.id && a.raisedAt >= from && a.raisedAt < to).length;
+    totals.interventions = countInterventions(inDay);
+    return { ...totals, cageId: c.id, cage: c.name, station: c.station };
+  });
+}
+
+/** Cage rows summed per station, in station order. */
+export function stationTotals(rows: CageDayReport[]): StationDayReport[] {
+  const byStation = new Map<number, StationDayReport>();
+  rows.forEach((r) => {
+    const s = byStation.get(r.station) ?? { ...emptyTotals(), station: r.station, cages: 0 };
+    MODES.forEach((m) => {
+      s.modeMs[m] += r.modeMs[m];
+    });
+    s.stirCycles += r.stirCycles;
+    s.stirSec += r.stirSec;
+    s.valveOpenMin = Math.round((s.valveOpenMin + r.valveOpenMin) * 100) / 100;
+    if (r.dispensedMl !== null) s.dispensedMl = (s.dispensedMl ?? 0) + r.dispensedMl;
+    s.lowEvents += r.lowEvents;
+    s.alarms += r.alarms;
+    s.interventions += r.interventions;
+    s.cages++;
+    byStation.set(r.station, s);
+  });
+  return [...byStation.values()].sort((a, b) => a.station - b.station);
+}
@@ -0,0 +1,49 @@
+// Shared IndexedDB database for data that outgrows localStorage (audit log, level history,
+// feed intake and body-weight records).
+
+export const DB_NAME = "pncl-cage-monitor";
+const DB_VERSION = 3;
+
+export const AUDIT_STORE = "audit";
+export const LEVEL_STORE = "levels";
+export const INTAKE_STORE = "intake";
+
+const dbs = new Map<string, Promise<IDBDatabase>>();
+
+/** Opens (once per name) the monitor database; simulation mode uses a database of its own. */
+export function openDb(name = DB_NAME): Promise<IDBDatabase> {
+  const open = dbs.get(name);
+  if (open) return open;
+  const db = new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(name, DB_VERSION);
+    req.onupgradeneeded = (e) => {
+      const d = req.result;
+      const tx = req.transaction!;
+      if (e.oldVersion < 1) {
+        d.createObjectStore(AUDIT_STORE, { keyPath: "seq", autoIncrement: true }).createIndex("at", "at");
+      }
+      if (e.oldVersion < 2) {
+        tx.objectStore(AUDIT_STORE).createIndex("cage_at", ["cageId", "at"]);
+        const levels = d.createObjectStore(LEVEL_STORE, { autoIncrement: true });
+        levels.createIndex("at", "at");
+        levels.createIndex("cage_at", ["cageId", "at"]);
+      }
+      if (e.oldVersion < 3) {
+        const intake = d.createObjectStore(INTAKE_STORE, { keyPath: "seq", autoIncrement: true });
+        intake.createIndex("at", "at");
+        intake.createIndex("cage_at", ["cageId", "at"]);
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  dbs.set(name, db);
+  return db;
+}
+
+export function requestResult<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
@@ -0,0 +1,35 @@
+// Emergency stop (E-STOP) for the whole facility or one station. A stop latches every affected
+// cage: its mode goes to OFF, the AUTO scheduler and any queued commands are cancelled, the valve
+// closes and the stirrer stops. The bowl is not moved, since something may be caught in it.
+// Nothing is sent to a latched cage, from any control path, until an operator resets the stop.
+
+import type { Actuators } from "./controller";
+import type { Cage, EmergencyStop } from "./types";
+
+/** Sent to every stopped cage, and again whenever a latched cage reports a valve open or stirrer running. */
+export const STOP_TARGET: Partial<Actuators> = { stirring: false, valveOpen: false };
+
+export function describeStop(s: EmergencyStop | null): string {
+  return s ? `E-STOP (${s.scope === "facility" ? "facility" : `station ${s.station}`})` : "running";
+}
+
+/** True when a report shows a latched cage doing something the stop should have ended. */
+export function violatesStop(c: Cage, report: Pick<Actuators, "stirring" | "valveOpen">): boolean {
+  return c.stopped !== null && (report.stirring || report.valveOpen);
+}
+
+/** One E-STOP press and the cages it latched that are still latched. */
+export type StopGroup = { key: string; stop: EmergencyStop; cages: Cage[] };
+
+/** Latched cages grouped by the stop that latched them, oldest first. */
+export function stopGroups(cages: Cage[]): StopGroup[] {
+  const groups = new Map<string, StopGroup>();
+  cages.forEach((c) => {
+    if (!c.stopped) return;
+    const key = `${c.stopped.scope}:${c.stopped.station ?? ""}:${c.stopped.at}`;
+    const group = groups.get(key) ?? { key, stop: c.stopped, cages: [] };
+    group.cages.push(c);
+    groups.set(key, group);
+  });
+  return [...groups.values()].sort((a, b) => a.stop.at - b.stop.at);
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { toCsv } from "./exportFile";
+import type { CsvColumn } from "./exportFile";
+
+type Row = { user: string; note: string | null; deltaKg: number };
+
+const COLUMNS: CsvColumn<Row>[] = [
+  { header: "user", value: (r) => r.user },
+  { header: "note", value: (r) => r.note },
+  { header: "delta_kg", value: (r) => r.deltaKg },
+];
+
+describe("CSV export", () => {
+  it("quotes separators and blanks missing values", () => {
+    expect(toCsv([{ user: "tester", note: 'bowl "B", refilled\n', deltaKg: 1.5 }, { user: "tester", note: null, deltaKg: 0 }], COLUMNS)).toBe(
+      'user,note,delta_kg\r\ntester,"bowl ""B"", refilled\n",1.5\r\ntester,,0\r\n'
+    );
+  });
+
+  it("keeps text that starts like a formula from being run, but not numbers", () => {
+    const rows = [
+      { user: "=HYPERLINK(\"http://x\")", note: "+1", deltaKg: -0.4 },
+      { user: "@SUM(A1)", note: "-2+3", deltaKg: 2 },
+    ];
+    expect(toCsv(rows, COLUMNS).split("\r\n").slice(1, 3)).toEqual(['"\'=HYPERLINK(""http://x"")",\'+1,-0.4', "'@SUM(A1),'-2+3,2"]);
+  });
+});
@@ -0,0 +1,27 @@
+// Helpers for CSV/JSON downloads from the browser.
+
+export type CsvColumn<T> = { header: string; value: (row: T) => string | number | boolean | null | undefined };
+
+// Text a spreadsheet would run as a formula (user names, notes, study ids); numbers are left alone.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvCell(v: string | number | boolean | null | undefined): string {
+  const text = v === null || v === undefined ? "" : String(v);
+  const s = typeof v === "string" && FORMULA_START.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv<T>(rows: T[], columns: CsvColumn<T>[]): string {
+  const lines = [columns.map((c) => csvCell(c.header)).join(",")];
+  rows.forEach((row) => lines.push(columns.map((c) => csvCell(c.value(row))).join(",")));
+  return lines.join("\r\n") + "\r\n";
+}
+
+export function downloadFile(filename: string, mime: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
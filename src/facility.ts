@@ -0,0 +1,148 @@
+// Facility layout: rooms → stations → cages, loaded from src/config/facility.json.
+// The cage table, ids, names and the station grid are all generated from this config.
+
+import facilityJson from "./config/facility.json";
+
+export type BrainBoxLink = { label: string; url: string };
+
+export type StationConfig = {
+  number: number; // unique across the facility; used for station/cageNumber addressing
+  name: string;
+  cages: number;
+  columns: number; // cage cards per row in the station card
+  cageNames: string[]; // display names, one per cage
+  brainBoxes: BrainBoxLink[];
+};
+
+export type RoomConfig = {
+  id: string;
+  name: string;
+  columns: number; // station cards per row
+  stations: StationConfig[];
+};
+
+export type FacilityConfig = {
+  name: string;
+  rooms: RoomConfig[];
+};
+
+export class FacilityConfigError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid facility configuration:\n${issues.map((i) => `  - ${i}`).join("\n")}`);
+    this.name = "FacilityConfigError";
+    this.issues = issues;
+  }
+}
+
+const DEFAULT_CAGE_NAME_PATTERN = "C{n}";
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isPositiveInt(v: unknown): v is number {
+  return Number.isInteger(v) && (v as number) > 0;
+}
+
+/** "{n}" = facility-wide cage number, "{station}" = station number, "{cage}" = cage number in station. */
+function expandName(pattern: string, n: number, station: number, cage: number) {
+  return pattern.replace(/\{n\}/g, String(n)).replace(/\{station\}/g, String(station)).replace(/\{cage\}/g, String(cage));
+}
+
+/** Validate raw JSON and fill in defaults. Collects every problem before throwing. */
+export function parseFacilityConfig(raw: unknown): FacilityConfig {
+  const issues: string[] = [];
+  if (!isObject(raw)) throw new FacilityConfigError(["config must be a JSON object"]);
+
+  const pattern = raw.cageNamePattern ?? DEFAULT_CAGE_NAME_PATTERN;
+  if (typeof pattern !== "string" || !pattern.includes("{")) issues.push('cageNamePattern must be a string containing "{n}", "{station}" or "{cage}"');
+  if (!Array.isArray(raw.rooms) || raw.rooms.length === 0) throw new FacilityConfigError([...issues, "rooms must be a non-empty array"]);
+
+  const roomIds = new Set<string>();
+  const stationNumbers = new Set<number>();
+  const cageNames = new Set<string>();
+  let n = 0;
+
+  const rooms = raw.rooms.map((room: unknown, ri: number): RoomConfig => {
+    const where = `rooms[${ri}]`;
+    if (!isObject(room)) {
+      issues.push(`${where} must be an object`);
+      return { id: `room${ri}`, name: "", columns: 4, stations: [] };
+    }
+    const id = typeof room.id === "string" && room.id ? room.id : `room${ri + 1}`;
+    if (room.id !== undefined && (typeof room.id !== "string" || !room.id)) issues.push(`${where}.id must be a non-empty string`);
+    if (roomIds.has(id)) issues.push(`${where}.id "${id}" is used by another room`);
+    roomIds.add(id);
+    if (room.name !== undefined && typeof room.name !== "string") issues.push(`${where}.name must be a string`);
+    if (room.columns !== undefined && !isPositiveInt(room.columns)) issues.push(`${where}.columns must be a positive integer`);
+    if (!Array.isArray(room.stations) || room.stations.length === 0) {
+      issues.push(`${where}.stations must be a non-empty array`);
+      return { id, name: String(room.name ?? id), columns: 4, stations: [] };
+    }
+
+    const stations = room.stations.map((st: unknown, si: number): StationConfig => {
+      const at = `${where}.stations[${si}]`;
+      if (!isObject(st)) {
+        issues.push(`${at} must be an object`);
+        return { number: 0, name: "", cages: 0, columns: 3, cageNames: [], brainBoxes: [] };
+      }
+      if (!isPositiveInt(st.number)) issues.push(`${at}.number must be a positive integer`);
+      else if (stationNumbers.has(st.number)) issues.push(`${at}.number ${st.number} is used by another station`);
+      const number = isPositiveInt(st.number) ? st.number : 0;
+      stationNumbers.add(number);
+      if (!isPositiveInt(st.cages)) issues.push(`${at}.cages must be a positive integer`);
+      const count = isPositiveInt(st.cages) ? st.cages : 0;
+      if (st.columns !== undefined && !isPositiveInt(st.columns)) issues.push(`${at}.columns must be a positive integer`);
+      if (st.name !== undefined && typeof st.name !== "string") issues.push(`${at}.name must be a string`);
+
+      let names: string[];
+      if (st.cageNames !== undefined) {
+        if (!Array.isArray(st.cageNames) || st.cageNames.some((c) => typeof c !== "string" || !c.trim())) {
+          issues.push(`${at}.cageNames must be an array of non-empty strings`);
+          names = [];
+        } else {
+          names = st.cageNames as string[];
+          if (names.length !== count) issues.push(`${at}.cageNames has ${names.length} names for ${count} cages`);
+        }
+      } else {
+        names = Array.from({ length: count }, (_, i) => expandName(String(pattern), n + i + 1, number, i + 1));
+      }
+      n += count;
+      names.forEach((name) => {
+        if (cageNames.has(name.toUpperCase())) issues.push(`cage name "${name}" (${at}) is used more than once`);
+        cageNames.add(name.toUpperCase());
+      });
+
+      const brainBoxes: BrainBoxLink[] = [];
+      if (st.brainBoxes !== undefined && !Array.isArray(st.brainBoxes)) issues.push(`${at}.brainBoxes must be an array`);
+      (Array.isArray(st.brainBoxes) ? st.brainBoxes : []).forEach((b: unknown, bi: number) => {
+        if (isObject(b) && typeof b.label === "string" && typeof b.url === "string") brainBoxes.push({ label: b.label, url: b.url });
+        else issues.push(`${at}.brainBoxes[${bi}] must be { "label": string, "url": string }`);
+      });
+
+      return {
+        number,
+        name: typeof st.name === "string" ? st.name : `Feeding Station ${number}`,
+        cages: count,
+        columns: isPositiveInt(st.columns) ? st.columns : 3,
+        cageNames: names,
+        brainBoxes,
+      };
+    });
+
+    return { id, name: typeof room.name === "string" ? room.name : id, columns: isPositiveInt(room.columns) ? room.columns : 4, stations };
+  });
+
+  if (issues.length > 0) throw new FacilityConfigError(issues);
+  return { name: typeof raw.name === "string" ? raw.name : "Facility", rooms };
+}
+
+export function loadFacilityConfig(): FacilityConfig {
+  return parseFacilityConfig(facilityJson);
+}
+
+export function facilityStations(facility: FacilityConfig): (StationConfig & { room: string })[] {
+  return facility.rooms.flatMap((r) => r.stations.map((s) => ({ ...s, room: r.id })));
+}
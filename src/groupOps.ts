@@ -0,0 +1,180 @@
+// Group operations as data: a dry-run plan lists the per-field diff for every selected cage and
+// the cages that will be skipped, before anything is sent. Snapshots taken on apply back the undo.
+
+import { describeAutoSettings, formatAuditValue } from "./auditLog";
+import type { AuditField } from "./auditLog";
+import type { CageConfigEntry, CageConfigFile } from "./configFile";
+import type { Actuators } from "./controller";
+import { checkInterlocks } from "./interlocks";
+import { autoValveTarget } from "./level";
+import { programName } from "./programs";
+import { armAuto, disarmAuto, planForCage } from "./scheduler";
+import { describeStudy } from "./study";
+import type { AutoSettings, Cage, FeedingProgram, Mode } from "./types";
+
+export type ManualAction = "BOWL" | "STIR" | "VALVE";
+
+/** How long a confirmed group operation can be undone. */
+export const GROUP_UNDO_WINDOW_MS = 60_000;
+
+export type GroupOperation =
+  | { kind: "mode"; mode: Mode }
+  | { kind: "manual"; action: ManualAction }
+  | { kind: "auto"; settings: AutoSettings }
+  | { kind: "program"; programId: string | null }
+  /** AUTO settings and program from a preset or another cage (`sourceCageId`), whatever the cage's mode. */
+  | { kind: "settings"; from: string; sourceCageId: number | null; auto: AutoSettings; programId: string | null }
+  /** A configuration file; `notes` describe library changes that come with it. */
+  | { kind: "import"; source: string; file: CageConfigFile; notes: string[] };
+
+export type FieldChange = { field: AuditField; before: string; after: string };
+export type PlannedChange = { cageId: number; cage: string; station: number; changes: FieldChange[] };
+export type SkippedCage = { cageId: number; cage: string; station: number; reason: string };
+
+export type GroupPlan = {
+  operation: GroupOperation;
+  label: string;
+  changes: PlannedChange[];
+  skipped: SkippedCage[];
+  /** Facility-wide remarks shown with the preview (library changes, unknown cages). */
+  notes: string[];
+};
+
+export type CageSnapshot = Pick<Cage, "id" | "mode" | "auto" | "autoAnchor" | "autoExitAt" | "programId" | "study" | "bowl" | "stirring" | "valveOpen">;
+
+export type GroupUndo = { label: string; appliedAt: number; snapshots: CageSnapshot[] };
+
+const MANUAL_LABELS: Record<ManualAction, string> = { BOWL: "Toggle bowl", STIR: "Toggle stir", VALVE: "Toggle valve" };
+
+/** Actuator target for a MANUAL toggle; safety interlocks are applied when it is sent. */
+export function manualTarget(c: Cage, action: ManualAction): Partial<Actuators> {
+  if (action === "BOWL") return { bowl: c.bowl === "IN" ? "OUT" : "IN" };
+  if (action === "STIR") return { stirring: !c.stirring };
+  return { valveOpen: !c.valveOpen };
+}
+
+/** Scheduling state and actuator target of a cage entering a mode. */
+export function modeTransition(c: Cage, mode: Mode, at: number, programs: FeedingProgram[]): { next: Cage; target: Partial<Actuators> } {
+  const next = mode === "AUTO" ? armAuto({ ...c, mode }, at) : disarmAuto({ ...c, mode });
+  if (mode === "MANUAL") return { next, target: { bowl: "OUT", stirring: false, valveOpen: false } };
+  if (mode === "AUTO") {
+    const plan = planForCage(next, at, programs);
+    return {
+      next,
+      target: { bowl: plan?.bowl ?? "IN", stirring: plan?.stirring ?? false, valveOpen: !!plan?.valveEnabled && autoValveTarget(c.levelPct, next.auto, false) },
+    };
+  }
+  return { next, target: { bowl: "IN", stirring: false, valveOpen: false } };
+}
+
+/** Cage with new AUTO settings and program; an AUTO cage's stir cycle restarts if its cadence or program changed. */
+export function withSettings(c: Cage, auto: AutoSettings, programId: string | null, at: number): Cage {
+  const next = { ...c, auto: { ...auto }, programId };
+  if (c.mode !== "AUTO") return next;
+  const restart = auto.stirEveryMin !== c.auto.stirEveryMin || auto.stirDurationSec !== c.auto.stirDurationSec || programId !== c.programId;
+  return armAuto(restart ? { ...next, autoAnchor: null } : next, at);
+}
+
+/** Cage state and actuator target after applying one entry of a configuration file. */
+export function configTransition(c: Cage, entry: CageConfigEntry, at: number, programs: FeedingProgram[]): { next: Cage; target: Partial<Actuators> } {
+  const settled = withSettings({ ...c, study: entry.study && { ...entry.study } }, entry.auto, entry.programId, at);
+  if (entry.mode === c.mode) return { next: settled, target: {} };
+  return modeTransition(settled, entry.mode, at, programs);
+}
+
+export function describeOperation(op: GroupOperation, programs: FeedingProgram[]): string {
+  if (op.kind === "mode") return `Set mode ${op.mode}`;
+  if (op.kind === "manual") return MANUAL_LABELS[op.action];
+  if (op.kind === "program") return `Feeding program: ${programName(op.programId, programs)}`;
+  if (op.kind === "settings") return `Settings from ${op.from}`;
+  if (op.kind === "import") return `Import ${op.source}`;
+  return `AUTO settings: ${describeAutoSettings(op.settings)}`;
+}
+
+function actuatorChanges(c: Cage, target: Partial<Actuators>): FieldChange[] {
+  return (Object.keys(target) as (keyof Actuators)[])
+    .filter((f) => target[f] !== c[f])
+    .map((f) => ({ field: f, before: formatAuditValue(c[f]), after: formatAuditValue(target[f]) }));
+}
+
+function settingsChanges(c: Cage, auto: AutoSettings, programId: string | null, programs: FeedingProgram[]): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const before = describeAutoSettings(c.auto);
+  const after = describeAutoSettings(auto);
+  if (before !== after) changes.push({ field: "auto", before, after });
+  if (c.programId !== programId) changes.push({ field: "program", before: programName(c.programId, programs), after: programName(programId, programs) });
+  return changes;
+}
+
+function missingProgram(programId: string | null, programs: FeedingProgram[]): string | null {
+  return programId !== null && !programs.some((p) => p.id === programId) ? `program ${programId} is not in the library` : null;
+}
+
+function planCage(op: GroupOperation, c: Cage, at: number, programs: FeedingProgram[]): FieldChange[] | string {
+  if (c.stopped) return "latched by an emergency stop";
+  if (c.outOfService) return `out of service (${c.outOfService.reason})`;
+  if (op.kind === "settings") {
+    if (c.id === op.sourceCageId) return "source of the settings";
+    const changes = settingsChanges(c, op.auto, op.programId, programs);
+    return missingProgram(op.programId, programs) ?? (changes.length ? changes : "settings already match");
+  }
+  if (op.kind === "import") {
+    const entry = op.file.cages.find((e) => e.name === c.name);
+    if (!entry) return "not in the file";
+    const missing = missingProgram(entry.programId, programs);
+    if (missing) return missing;
+    const { target } = configTransition(c, entry, at, programs);
+    const check = checkInterlocks(c, target);
+    if (!check.ok) return `blocked by interlock: ${check.rule.description}`;
+    const changes = settingsChanges(c, entry.auto, entry.programId, programs);
+    if (c.mode !== entry.mode) changes.unshift({ field: "mode", before: c.mode, after: entry.mode });
+    if (describeStudy(c.study) !== describeStudy(entry.study)) changes.push({ field: "study", before: describeStudy(c.study), after: describeStudy(entry.study) });
+    changes.push(...actuatorChanges(c, check.target));
+    return changes.length ? changes : "already matches the file";
+  }
+  if (op.kind === "program") {
+    if (c.programId === op.programId) return `already on ${programName(op.programId, programs)}`;
+    return [{ field: "program", before: programName(c.programId, programs), after: programName(op.programId, programs) }];
+  }
+  if (op.kind === "mode") {
+    const { target } = modeTransition(c, op.mode, at, programs);
+    const check = checkInterlocks(c, target);
+    if (!check.ok) return `blocked by interlock: ${check.rule.description}`;
+    const changes = actuatorChanges(c, check.target);
+    if (c.mode !== op.mode) changes.unshift({ field: "mode", before: c.mode, after: op.mode });
+    return changes.length ? changes : `already ${op.mode}, nothing changes`;
+  }
+  if (op.kind === "manual") {
+    if (c.mode !== "MANUAL") return `in ${c.mode}; manual controls need MANUAL`;
+    const check = checkInterlocks(c, manualTarget(c, op.action));
+    if (!check.ok) return `blocked by interlock: ${check.rule.description}`;
+    return actuatorChanges(c, check.target);
+  }
+  if (c.mode !== "AUTO") return `in ${c.mode}; AUTO settings need AUTO`;
+  const before = describeAutoSettings(c.auto);
+  const after = describeAutoSettings({ ...c.auto, ...op.settings });
+  return before === after ? "settings already match" : [{ field: "auto", before, after }];
+}
+
+/** Dry run: what the operation would change on each cage, and which cages it leaves alone and why. */
+export function planGroupOperation(op: GroupOperation, cages: Cage[], at: number, programs: FeedingProgram[]): GroupPlan {
+  const plan: GroupPlan = { operation: op, label: describeOperation(op, programs), changes: [], skipped: [], notes: [] };
+  let targets = cages;
+  if (op.kind === "import") {
+    // Only the cages named in the file are planned; names this facility does not have are listed.
+    targets = cages.filter((c) => op.file.cages.some((e) => e.name === c.name));
+    const unknown = op.file.cages.filter((e) => !cages.some((c) => c.name === e.name)).map((e) => e.name);
+    plan.notes = unknown.length ? [...op.notes, `Not in this facility, ignored: ${unknown.join(", ")}`] : [...op.notes];
+  }
+  targets.forEach((c) => {
+    const result = planCage(op, c, at, programs);
+    const ref = { cageId: c.id, cage: c.name, station: c.station };
+    if (typeof result === "string") plan.skipped.push({ ...ref, reason: result });
+    else plan.changes.push({ ...ref, changes: result });
+  });
+  return plan;
+}
+
+export function snapshotCage(c: Cage): CageSnapshot {
+  return { id: c.id, mode: c.mode, auto: { ...c.auto }, autoAnchor: c.autoAnchor, autoExitAt: c.autoExitAt, programId: c.programId, study: c.study, bowl: c.bowl, stirring: c.stirring, valveOpen: c.valveOpen };
+}
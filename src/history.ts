@@ -0,0 +1,118 @@
+// Per-cage history. Mode/bowl/stir/valve timelines are rebuilt from the audit log; feed level
+// is sampled into its own IndexedDB store (every few minutes, or sooner on a real change).
+
+import type { AuditEntry, AuditField } from "./auditLog";
+import { LEVEL_STORE, openDb, requestResult } from "./db";
+
+export type LevelSample = { cageId: number; at: number; levelPct: number };
+
+const SAMPLE_EVERY_MS = 5 * 60_000;
+const SAMPLE_ON_CHANGE_PCT = 2;
+const RETENTION_MS = 35 * 24 * 3600_000;
+
+export interface LevelHistory {
+  /** Offer the current reading; it is stored only when the sampling policy asks for it. */
+  observe(cageId: number, levelPct: number, at: number): void;
+  query(cageId: number, from: number, to: number): Promise<LevelSample[]>;
+}
+
+export function createLevelHistory(dbName?: string, now: () => number = Date.now): LevelHistory {
+  const db = openDb(dbName);
+  const last = new Map<number, LevelSample>();
+
+  // Drop samples past the retention window once per session.
+  db.then((d) => {
+    const req = d.transaction(LEVEL_STORE, "readwrite").objectStore(LEVEL_STORE).index("at").openCursor(IDBKeyRange.upperBound(now() - RETENTION_MS));
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      cursor.delete();
+      cursor.continue();
+    };
+  }).catch((err) => console.error("Failed to prune level history", err));
+
+  return {
+    observe(cageId, levelPct, at) {
+      const prev = last.get(cageId);
+      if (prev && at - prev.at < SAMPLE_EVERY_MS && Math.abs(levelPct - prev.levelPct) < SAMPLE_ON_CHANGE_PCT) return;
+      const sample = { cageId, at, levelPct };
+      last.set(cageId, sample);
+      db.then((d) => requestResult(d.transaction(LEVEL_STORE, "readwrite").objectStore(LEVEL_STORE).add(sample))).catch((err) =>
+        console.error("Failed to record level sample", err)
+      );
+    },
+    async query(cageId, from, to) {
+      const d = await db;
+      const index = d.transaction(LEVEL_STORE).objectStore(LEVEL_STORE).index("cage_at");
+      return (await requestResult(index.getAll(IDBKeyRange.bound([cageId, from], [cageId, to], false, true)))) as LevelSample[];
+    },
+  };
+}
+
+export type Segment = { start: number; end: number; value: string };
+
+export type TimelineField = Extract<AuditField, "mode" | "bowl" | "stirring" | "valveOpen">;
+
+/**
+ * Segments of constant value for one field between `from` and `to`. The value before the first
+ * change in range is taken from that change's `before`; with no change it is `current`.
+ */
+export function buildTimeline(entries: AuditEntry[], field: TimelineField, current: string, from: number, to: number): Segment[] {
+  const changes = entries.filter((e) => e.field === field && e.at >= from && e.at < to).sort((a, b) => a.at - b.at);
+  const segments: Segment[] = [];
+  let start = from;
+  let value = changes[0]?.before ?? current;
+  changes.forEach((e) => {
+    if (e.at > start) segments.push({ start, end: e.at, value });
+    start = e.at;
+    value = e.after;
+  });
+  if (to > start) segments.push({ start, end: to, value });
+  return segments;
+}
+
+export type DutyCycle = { day: string; dayStart: number; spanMs: number; stirMs: number; valveMs: number };
+
+function localDayStart(t: number) {
+  const d = new Date(t);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+function dayKey(t: number) {
+  const d = new Date(t);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+/** Time in the ON state per local calendar day, split at midnight. */
+export function onTimeByDay(segments: Segment[], onValue = "ON"): Map<string, number> {
+  const out = new Map<string, number>();
+  segments
+    .filter((s) => s.value === onValue)
+    .forEach((s) => {
+      let t = s.start;
+      while (t < s.end) {
+        const next = new Date(localDayStart(t));
+        next.setDate(next.getDate() + 1);
+        const end = Math.min(s.end, next.getTime());
+        out.set(dayKey(t), (out.get(dayKey(t)) ?? 0) + (end - t));
+        t = end;
+      }
+    });
+  return out;
+}
+
+/** Daily stir and valve duty cycles over [from, to); `spanMs` is the part of each day in range. */
+export function dutyCycles(stir: Segment[], valve: Segment[], from: number, to: number): DutyCycle[] {
+  const stirByDay = onTimeByDay(stir);
+  const valveByDay = onTimeByDay(valve);
+  const days: DutyCycle[] = [];
+  for (let t = localDayStart(from); t < to; ) {
+    const next = new Date(t);
+    next.setDate(next.getDate() + 1);
+    const key = dayKey(t);
+    days.push({ day: key, dayStart: t, spanMs: Math.min(to, next.getTime()) - Math.max(from, t), stirMs: stirByDay.get(key) ?? 0, valveMs: valveByDay.get(key) ?? 0 });
+    t = next.getTime();
+  }
+  return days;
+}
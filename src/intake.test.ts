@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import type { AuditEntry } from "./auditLog";
+import { createInitialCages } from "./cages";
+import { buildDailyReport } from "./dailyReport";
+import { loadFacilityConfig } from "./facility";
+import { averageDailyGain, buildIntakeDays, intakeEntry, summarizeCages, summarizeTreatments } from "./intake";
+import type { DayRange, IntakeForm, IntakeRecord } from "./intake";
+import type { Cage, StudyAssignment } from "./types";
+
+const DAY_MS = 24 * 3600_000;
+const JAN_5 = new Date(2026, 0, 5).getTime();
+const BLANK: IntakeForm = { offeredKg: "", refusedKg: "", weightKg: "" };
+
+function study(studyId: string, treatment: string, animalId: string): StudyAssignment {
+  return { studyId, treatment, animalId, startDate: "", endDate: "" };
+}
+
+function cage(name: string, assignment: StudyAssignment | null = null): Cage {
+  return { ...createInitialCages(loadFacilityConfig()).find((c) => c.name === name)!, study: assignment };
+}
+
+/** Days from Jan 5, 2026 onwards. */
+function days(count: number): DayRange[] {
+  return Array.from({ length: count }, (_, i) => {
+    const from = new Date(2026, 0, 5 + i).getTime();
+    return { date: `2026-01-${String(5 + i).padStart(2, "0")}`, from, to: new Date(2026, 0, 6 + i).getTime() };
+  });
+}
+
+let seq = 0;
+/** Stored records for a form entered on `c` at `at`, as the intake log would return them. */
+function entered(c: Cage, at: number, form: Partial<IntakeForm>): IntakeRecord[] {
+  const result = intakeEntry(c, { ...BLANK, ...form }, at, at, "tester");
+  if (!result.ok) throw new Error(result.error);
+  return result.records.map((r) => ({ ...r, seq: ++seq, recordedAt: at }));
+}
+
+describe("intake entry", () => {
+  const c = cage("C1", study("S1", "A", "a1"));
+  const at = JAN_5 + 8 * 3600_000;
+
+  it("records feed and weight separately, with the cage's study at entry time", () => {
+    const result = intakeEntry(c, { offeredKg: "2", refusedKg: "0.4", weightKg: "41.5" }, at, at, "tester");
+    expect(result).toEqual({
+      ok: true,
+      records: [
+        expect.objectContaining({ kind: "feed", offeredKg: 2, refusedKg: 0.4, studyId: "S1", treatment: "A", animalId: "a1", at, by: "tester" }),
+        expect.objectContaining({ kind: "weight", weightKg: 41.5 }),
+      ],
+    });
+  });
+
+  it("records only the parts filled in", () => {
+    expect(intakeEntry(c, { ...BLANK, weightKg: "40" }, at, at, "tester")).toEqual({ ok: true, records: [expect.objectContaining({ kind: "weight" })] });
+    expect(intakeEntry(c, { ...BLANK, offeredKg: "2", refusedKg: "0" }, at, at, "tester")).toEqual({ ok: true, records: [expect.objectContaining({ kind: "feed", refusedKg: 0 })] });
+  });
+
+  it("refuses blank forms, half a feed record, refusals above the offer and future times", () => {
+    expect(intakeEntry(c, BLANK, at, at, "tester")).toEqual({ ok: false, error: "Enter feed offered and refused, a body weight, or both" });
+    expect(intakeEntry(c, { ...BLANK, offeredKg: "2" }, at, at, "tester")).toMatchObject({ ok: false, error: expect.stringContaining("both feed offered and feed refused") });
+    expect(intakeEntry(c, { ...BLANK, refusedKg: "1" }, at, at, "tester")).toMatchObject({ ok: false, error: expect.stringContaining("both feed offered and feed refused") });
+    expect(intakeEntry(c, { ...BLANK, offeredKg: "2", refusedKg: "2.5" }, at, at, "tester")).toEqual({ ok: false, error: "Feed refused cannot exceed feed offered" });
+    expect(intakeEntry(c, { ...BLANK, weightKg: "0" }, at, at, "tester")).toMatchObject({ ok: false });
+    expect(intakeEntry(c, { ...BLANK, weightKg: "40" }, at + 1, at, "tester")).toEqual({ ok: false, error: "The measurement time is in the future" });
+  });
+});
+
+describe("daily intake", () => {
+  it("puts a record at midnight on the day it starts and sums a day's feed records", () => {
+    const c = cage("C1", study("S1", "A", "a1"));
+    const records = [
+      ...entered(c, JAN_5, { offeredKg: "1", refusedKg: "0.2" }),
+      ...entered(c, JAN_5 + DAY_MS - 1, { offeredKg: "1", refusedKg: "0.3", weightKg: "40" }),
+      ...entered(c, JAN_5 + DAY_MS, { offeredKg: "2", refusedKg: "0.5" }),
+    ];
+    const rows = buildIntakeDays([c], records, [], days(2));
+    expect(rows).toEqual([
+      expect.objectContaining({ date: "2026-01-05", offeredKg: 2, refusedKg: 0.5, intakeKg: 1.5, weightKg: 40 }),
+      expect.objectContaining({ date: "2026-01-06", offeredKg: 2, refusedKg: 0.5, intakeKg: 1.5, weightKg: null }),
+    ]);
+  });
+
+  it("keeps a row for assigned cages without records and leaves out unassigned ones", () => {
+    const rows = buildIntakeDays([cage("C1", study("S1", "A", "a1")), cage("C2")], [], [], days(1));
+    expect(rows).toEqual([expect.objectContaining({ cage: "C1", studyId: "S1", offeredKg: null, intakeKg: null, weightKg: null })]);
+  });
+
+  it("splits a day on which the cage was restocked and gives the valve time to the later animal", () => {
+    const before = cage("C1", study("S1", "A", "a1"));
+    const after = { ...cage("C1", study("S2", "B", "b1")), valveOpen: true };
+    const records = [...entered(before, JAN_5 + 7 * 3600_000, { weightKg: "45" }), ...entered(after, JAN_5 + 15 * 3600_000, { weightKg: "30" })];
+    const rows = buildIntakeDays([after], records, [], days(1));
+    expect(rows).toEqual([
+      expect.objectContaining({ studyId: "S1", animalId: "a1", weightKg: 45, valveOpenMin: null }),
+      expect.objectContaining({ studyId: "S2", animalId: "b1", weightKg: 30, valveOpenMin: 24 * 60 }),
+    ]);
+  });
+
+  it("gives each day the valve time the daily report gives it, across midnight and with valves open now", () => {
+    const c1 = cage("C1", study("S1", "A", "a1"));
+    const c2 = { ...cage("C2", study("S1", "B", "a2")), valveOpen: true };
+    const valve = (c: Cage, at: number, after: "ON" | "OFF"): AuditEntry => ({
+      seq: ++seq,
+      at,
+      cageId: c.id,
+      cage: c.name,
+      station: c.station,
+      source: "auto",
+      user: "system",
+      field: "valveOpen",
+      before: after === "ON" ? "OFF" : "ON",
+      after,
+    });
+    const entries = [
+      valve(c1, JAN_5 + 6 * 3600_000, "ON"),
+      valve(c1, JAN_5 + 6 * 3600_000 + 90_000, "OFF"),
+      valve(c2, JAN_5 + 7 * 3600_000, "ON"),
+      valve(c1, JAN_5 + DAY_MS - 60_000, "ON"),
+      valve(c1, JAN_5 + DAY_MS + 120_000, "OFF"),
+      valve(c2, JAN_5 + 2 * DAY_MS + 3600_000, "OFF"),
+      valve(c2, JAN_5 + 3 * DAY_MS + 3600_000, "ON"),
+    ];
+    const calibrations = { C1: { mlPerSec: 2, openSec: 30, measuredMl: 60, calibratedAt: JAN_5, calibratedBy: "tester" } };
+    const range = days(4);
+    const rows = buildIntakeDays([c1, c2], [], entries, range, calibrations);
+    const expected = range.flatMap((d) => buildDailyReport([c1, c2], entries, [], d.from, d.to, calibrations));
+    expect(rows.map((r) => [r.date, r.cage, r.valveOpenMin, r.dispensedMl])).toEqual(rows.map((r, i) => [r.date, r.cage, expected[i].valveOpenMin, expected[i].dispensedMl]));
+    expect(rows.slice(0, 2).map((r) => r.valveOpenMin)).toEqual([2.5, 17 * 60]);
+  });
+});
+
+describe("average daily gain", () => {
+  it("needs two weighings at least a day apart", () => {
+    expect(averageDailyGain([])).toBeNull();
+    expect(averageDailyGain([{ at: JAN_5, weightKg: 40 }])).toBeNull();
+    expect(averageDailyGain([{ at: JAN_5, weightKg: 40 }, { at: JAN_5 + DAY_MS / 2, weightKg: 41 }])).toBeNull();
+  });
+
+  it("is the gain between the first and last weighing per day, in any input order", () => {
+    expect(averageDailyGain([{ at: JAN_5 + 4 * DAY_MS, weightKg: 42 }, { at: JAN_5, weightKg: 40 }, { at: JAN_5 + DAY_MS, weightKg: 45 }])).toBe(0.5);
+    expect(averageDailyGain([{ at: JAN_5, weightKg: 40 }, { at: JAN_5 + DAY_MS, weightKg: 41.25 }])).toBe(1.25);
+  });
+});
+
+describe("cage and treatment summaries", () => {
+  // C1 holds animal a1 on S1 until Jan 8, then b1 on S2; C2 holds a2 on S1 throughout.
+  const c1Before = cage("C1", study("S1", "A", "a1"));
+  const c1After = cage("C1", study("S2", "B", "b1"));
+  const c2 = cage("C2", study("S1", "A", "a2"));
+  const records = [
+    ...entered(c1Before, JAN_5 + 8 * 3600_000, { offeredKg: "2", refusedKg: "0", weightKg: "40" }),
+    ...entered(c1Before, JAN_5 + 2 * DAY_MS + 8 * 3600_000, { offeredKg: "2", refusedKg: "1", weightKg: "44" }),
+    ...entered(c1After, JAN_5 + 3 * DAY_MS + 8 * 3600_000, { weightKg: "30" }),
+    ...entered(c1After, JAN_5 + 5 * DAY_MS + 8 * 3600_000, { offeredKg: "1", refusedKg: "0.5", weightKg: "33" }),
+    ...entered(c2, JAN_5 + 8 * 3600_000, { weightKg: "38" }),
+    ...entered(c2, JAN_5 + 4 * DAY_MS + 8 * 3600_000, { offeredKg: "3", refusedKg: "1", weightKg: "42" }),
+  ];
+  const rows = buildIntakeDays([c1After, c2], records, [], days(6));
+
+  it("keeps the animals of a reused cage apart", () => {
+    const summaries = summarizeCages(rows, records);
+    expect(summaries).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ cage: "C1", studyId: "S1", animalId: "a1", weighings: 2, firstWeightKg: 40, lastWeightKg: 44, adgKg: 2, meanIntakeKg: 1.5, intakeDays: 2 }),
+        expect.objectContaining({ cage: "C1", studyId: "S2", animalId: "b1", weighings: 2, firstWeightKg: 30, lastWeightKg: 33, adgKg: 1.5, meanIntakeKg: 0.5, intakeDays: 1 }),
+        expect.objectContaining({ cage: "C2", studyId: "S1", animalId: "a2", adgKg: 1, meanIntakeKg: 2 }),
+      ])
+    );
+    expect(summaries).toHaveLength(3);
+  });
+
+  it("limits rows and weighings to the selected study", () => {
+    const summaries = summarizeCages(rows, records, "S1");
+    expect(summaries.map((s) => [s.cage, s.animalId, s.adgKg])).toEqual([
+      ["C1", "a1", 2],
+      ["C2", "a2", 1],
+    ]);
+    expect(summarizeTreatments(summaries)).toEqual([{ studyId: "S1", treatment: "A", cages: 2, meanIntakeKg: 1.75, meanDispensedMl: null, meanAdgKg: 1.5, adgCages: 2 }]);
+  });
+
+  it("averages cage values per study and treatment", () => {
+    expect(summarizeTreatments(summarizeCages(rows, records))).toEqual([
+      expect.objectContaining({ studyId: "S1", treatment: "A", cages: 2, meanAdgKg: 1.5 }),
+      expect.objectContaining({ studyId: "S2", treatment: "B", cages: 1, meanAdgKg: 1.5, meanIntakeKg: 0.5 }),
+    ]);
+  });
+});
@@ -0,0 +1,330 @@
+// Feed intake and body-weight records, entered by hand per cage and kept in IndexedDB. A feed
+// record covers one feeding period: what was offered and what was weighed back when the period
+// ended. Daily intake combines those with the valve-open time (and dispensed volume, where the
+// valve is calibrated) from the audit log; average daily gain (ADG) comes from the weighings.
+
+import type { AuditEntry, AuditQuery } from "./auditLog";
+import { INTAKE_STORE, openDb, requestResult } from "./db";
+import { dispensedMl } from "./service";
+import type { ValveCalibrations } from "./service";
+import type { Cage } from "./types";
+
+const DAY_MS = 24 * 3600_000;
+
+export type IntakeMeasurement = { kind: "feed"; offeredKg: number; refusedKg: number } | { kind: "weight"; weightKg: number };
+
+export type NewIntakeRecord = IntakeMeasurement & {
+  at: number; // when the refusals were weighed back or the animal was weighed (epoch ms)
+  cageId: number;
+  cage: string;
+  station: number;
+  // Study assignment of the cage when the record was entered ("" if none).
+  studyId: string;
+  treatment: string;
+  animalId: string;
+  by: string;
+};
+
+export type IntakeRecord = NewIntakeRecord & {
+  seq: number; // IndexedDB key
+  recordedAt: number; // when it was entered
+};
+
+export interface IntakeLog {
+  add(record: NewIntakeRecord): Promise<IntakeRecord>;
+  remove(seq: number): Promise<void>;
+  /** Records with from <= at < to, oldest first. */
+  query(range: AuditQuery): Promise<IntakeRecord[]>;
+  queryCage(cageId: number, range: AuditQuery): Promise<IntakeRecord[]>;
+  /** Called after every add or remove. */
+  subscribe(listener: () => void): () => void;
+}
+
+/** `dbName` and `now` are overridden in simulation mode (separate database, virtual clock). */
+export function createIntakeLog({ dbName, now = Date.now }: { dbName?: string; now?: () => number } = {}): IntakeLog {
+  const db = openDb(dbName);
+  const listeners = new Set<() => void>();
+  const changed = () => listeners.forEach((l) => l());
+
+  return {
+    async add(record) {
+      const d = await db;
+      const entry = { ...record, recordedAt: now() };
+      const seq = await requestResult(d.transaction(INTAKE_STORE, "readwrite").objectStore(INTAKE_STORE).add(entry));
+      changed();
+      return { ...entry, seq: seq as number };
+    },
+    async remove(seq) {
+      const d = await db;
+      await requestResult(d.transaction(INTAKE_STORE, "readwrite").objectStore(INTAKE_STORE).delete(seq));
+      changed();
+    },
+    async query({ from, to }) {
+      const d = await db;
+      const index = d.transaction(INTAKE_STORE).objectStore(INTAKE_STORE).index("at");
+      return (await requestResult(index.getAll(IDBKeyRange.bound(from, to, false, true)))) as IntakeRecord[];
+    },
+    async queryCage(cageId, { from, to }) {
+      const d = await db;
+      const index = d.transaction(INTAKE_STORE).objectStore(INTAKE_STORE).index("cage_at");
+      return (await requestResult(index.getAll(IDBKeyRange.bound([cageId, from], [cageId, to], false, true)))) as IntakeRecord[];
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+export function describeIntakeRecord(r: IntakeMeasurement): string {
+  return r.kind === "feed" ? `feed ${r.offeredKg} kg offered, ${r.refusedKg} kg refused` : `body weight ${r.weightKg} kg`;
+}
+
+/** Form values as typed; blank fields are not recorded. */
+export type IntakeForm = { offeredKg: string; refusedKg: string; weightKg: string };
+
+export type IntakeEntryResult = { ok: true; records: NewIntakeRecord[] } | { ok: false; error: string };
+
+/** Records for one form submission: a feed record, a weight record, or both. */
+export function intakeEntry(c: Cage, form: IntakeForm, at: number, now: number, by: string): IntakeEntryResult {
+  const blank = (v: string) => v.trim() === "";
+  if (blank(form.offeredKg) && blank(form.refusedKg) && blank(form.weightKg)) return { ok: false, error: "Enter feed offered and refused, a body weight, or both" };
+  if (!Number.isFinite(at)) return { ok: false, error: "Enter the date and time of the measurement" };
+  if (at > now) return { ok: false, error: "The measurement time is in the future" };
+  const base = { at, cageId: c.id, cage: c.name, station: c.station, studyId: c.study?.studyId ?? "", treatment: c.study?.treatment ?? "", animalId: c.study?.animalId ?? "", by };
+  const records: NewIntakeRecord[] = [];
+  if (!blank(form.offeredKg) || !blank(form.refusedKg)) {
+    const offeredKg = Number(form.offeredKg);
+    const refusedKg = Number(form.refusedKg);
+    if (blank(form.offeredKg) || blank(form.refusedKg)) return { ok: false, error: "Enter both feed offered and feed refused (0 if none)" };
+    if (!Number.isFinite(offeredKg) || offeredKg <= 0) return { ok: false, error: "Feed offered must be a positive number of kg" };
+    if (!Number.isFinite(refusedKg) || refusedKg < 0) return { ok: false, error: "Feed refused must be 0 kg or more" };
+    if (refusedKg > offeredKg) return { ok: false, error: "Feed refused cannot exceed feed offered" };
+    records.push({ ...base, kind: "feed", offeredKg, refusedKg });
+  }
+  if (!blank(form.weightKg)) {
+    const weightKg = Number(form.weightKg);
+    if (!Number.isFinite(weightKg) || weightKg <= 0) return { ok: false, error: "Body weight must be a positive number of kg" };
+    records.push({ ...base, kind: "weight", weightKg });
+  }
+  return { ok: true, records };
+}
+
+/** One local calendar day; `to` is cut off at now for today. */
+export type DayRange = { date: string; from: number; to: number };
+
+/** One cage on one day: a row of the tidy export. */
+export type IntakeDay = {
+  date: string;
+  cageId: number;
+  cage: string;
+  station: number;
+  studyId: string;
+  treatment: string;
+  animalId: string;
+  offeredKg: number | null; // sums of the feed records weighed back that day
+  refusedKg: number | null;
+  intakeKg: number | null; // offered − refused
+  valveOpenMin: number | null; // null on the row of an animal that left the cage that day
+  dispensedMl: number | null; // also null without a valve calibration
+  weightKg: number | null; // last weighing of the day
+};
+
+/** Identifies one animal on one study in one cage; cages are reused between animals and studies. */
+export function intakeKey(r: { cageId: number; studyId: string; animalId: string }): string {
+  return `${r.cageId}\u0000${r.studyId}\u0000${r.animalId}`;
+}
+
+const round = (v: number, digits: number) => Math.round(v * 10 ** digits) / 10 ** digits;
+
+function studyOnDay(c: Cage, date: string) {
+  const s = c.study;
+  return s && (!s.startDate || s.startDate <= date) && (!s.endDate || date <= s.endDate) ? s : null;
+}
+
+/** Valve-open ms on each of `days` (ascending) from one cage's valveOpen changes, oldest first. */
+function valveOpenMsByDay(changes: AuditEntry[], current: boolean, days: DayRange[]): number[] {
+  let next = 0;
+  return days.map((day) => {
+    while (next < changes.length && changes[next].at < day.from) next++;
+    // As in buildTimeline: the state before the first change at or after `from`, else the current one.
+    let open = changes[next] ? changes[next].before === "ON" : current;
+    let since = day.from;
+    let ms = 0;
+    for (; next < changes.length && changes[next].at < day.to; next++) {
+      if (open) ms += changes[next].at - since;
+      since = changes[next].at;
+      open = changes[next].after === "ON";
+    }
+    return open ? ms + day.to - since : ms;
+  });
+}
+
+/** Groups items by a key in one pass, keeping their order. */
+function groupBy<T, K>(items: T[], key: (item: T) => K): Map<K, T[]> {
+  const groups = new Map<K, T[]>();
+  items.forEach((item) => {
+    const group = groups.get(key(item));
+    if (group) group.push(item);
+    else groups.set(key(item), [item]);
+  });
+  return groups;
+}
+
+/**
+ * Daily rows for the cages on study, or with records, in `days` (ascending). `entries` must cover
+ * the first day up to now, oldest first, as for buildDailyReport; they are grouped by cage once and
+ * swept day by day. Records are split by the study and animal they were entered for; a day without
+ * records takes the cage's current assignment if its dates cover the day. When a cage changed
+ * animals during a day, each gets a row and the valve figures go to the one recorded last that day.
+ */
+export function buildIntakeDays(cages: Cage[], records: IntakeRecord[], entries: AuditEntry[], days: DayRange[], calibrations: ValveCalibrations = {}): IntakeDay[] {
+  const recordsByCage = groupBy([...records].sort((a, b) => a.at - b.at), (r) => r.cageId);
+  const valveChanges = groupBy(entries.filter((e) => e.field === "valveOpen"), (e) => e.cageId);
+  const rows = cages
+    .filter((c) => c.study || recordsByCage.has(c.id))
+    .map((c) => {
+      const valveMs = valveOpenMsByDay(valveChanges.get(c.id) ?? [], c.valveOpen, days);
+      const recordsByDay = groupBy(recordsByCage.get(c.id) ?? [], (r) => days.findIndex((d) => r.at >= d.from && r.at < d.to));
+      return days.map((day, i) => intakeRows(c, day, recordsByDay.get(i) ?? [], valveMs[i], calibrations));
+    });
+  // Day by day, cages in order.
+  return days.flatMap((_, i) => rows.flatMap((cageRows) => cageRows[i]));
+}
+
+/** Rows of one cage on one day; `own` are its records that day, oldest first. */
+function intakeRows(c: Cage, day: DayRange, own: IntakeRecord[], valveMs: number, calibrations: ValveCalibrations): IntakeDay[] {
+  const assigned = studyOnDay(c, day.date);
+  const groups = new Map<string, { studyId: string; treatment: string; animalId: string; records: IntakeRecord[] }>();
+  own.forEach((r) => {
+    const group = groups.get(intakeKey(r)) ?? { studyId: r.studyId, treatment: r.treatment, animalId: r.animalId, records: [] };
+    group.records.push(r);
+    groups.set(intakeKey(r), group);
+  });
+  if (!own.length && assigned) groups.set(intakeKey({ cageId: c.id, ...assigned }), { ...assigned, records: [] });
+  if (!groups.size) return [];
+  const endKey = own.length ? intakeKey(own[own.length - 1]) : intakeKey({ cageId: c.id, ...assigned! });
+  return [...groups].map(([key, { studyId, treatment, animalId, records: rs }]) => {
+    const feed = rs.flatMap((r) => (r.kind === "feed" ? [r] : []));
+    const weights = rs.flatMap((r) => (r.kind === "weight" ? [r] : []));
+    const offeredKg = feed.length ? round(feed.reduce((sum, r) => sum + r.offeredKg, 0), 3) : null;
+    const refusedKg = feed.length ? round(feed.reduce((sum, r) => sum + r.refusedKg, 0), 3) : null;
+    return {
+      date: day.date,
+      cageId: c.id,
+      cage: c.name,
+      station: c.station,
+      studyId,
+      treatment,
+      animalId,
+      offeredKg,
+      refusedKg,
+      intakeKg: offeredKg !== null && refusedKg !== null ? round(offeredKg - refusedKg, 3) : null,
+      valveOpenMin: key === endKey ? Math.round(valveMs / 600) / 100 : null,
+      dispensedMl: key === endKey ? dispensedMl(valveMs, calibrations[c.name]) : null,
+      weightKg: weights.at(-1)?.weightKg ?? null,
+    };
+  });
+}
+
+/** kg/day between the first and last weighing; null with fewer than two weighings a day or more apart. */
+export function averageDailyGain(weighings: { at: number; weightKg: number }[]): number | null {
+  if (weighings.length < 2) return null;
+  const sorted = [...weighings].sort((a, b) => a.at - b.at);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const days = (last.at - first.at) / DAY_MS;
+  return days >= 1 ? round((last.weightKg - first.weightKg) / days, 3) : null;
+}
+
+function mean(values: (number | null)[]): number | null {
+  const known = values.filter((v): v is number => v !== null);
+  return known.length ? known.reduce((sum, v) => sum + v, 0) / known.length : null;
+}
+
+export type CageIntakeSummary = {
+  cageId: number;
+  cage: string;
+  station: number;
+  studyId: string;
+  treatment: string;
+  animalId: string;
+  intakeDays: number; // days with a feed record
+  meanIntakeKg: number | null; // per day with a feed record
+  meanDispensedMl: number | null; // per day
+  weighings: number;
+  firstWeightKg: number | null;
+  lastWeightKg: number | null;
+  adgKg: number | null;
+};
+
+/**
+ * Means over `days` and ADG over the weighings in `records`, per cage, study and animal (see
+ * intakeKey), limited to `studyId` when one is given.
+ */
+export function summarizeCages(days: IntakeDay[], records: IntakeRecord[], studyId = ""): CageIntakeSummary[] {
+  const byAnimal = new Map<string, IntakeDay[]>();
+  days
+    .filter((d) => !studyId || d.studyId === studyId)
+    .forEach((d) => byAnimal.set(intakeKey(d), [...(byAnimal.get(intakeKey(d)) ?? []), d]));
+  return [...byAnimal].map(([key, rows]) => {
+    const last = rows[rows.length - 1];
+    const weighings = records.flatMap((r) => (r.kind === "weight" && intakeKey(r) === key ? [r] : [])).sort((a, b) => a.at - b.at);
+    const meanIntakeKg = mean(rows.map((r) => r.intakeKg));
+    const meanDispensedMl = mean(rows.map((r) => r.dispensedMl));
+    return {
+      cageId: last.cageId,
+      cage: last.cage,
+      station: last.station,
+      studyId: last.studyId,
+      treatment: last.treatment,
+      animalId: last.animalId,
+      intakeDays: rows.filter((r) => r.intakeKg !== null).length,
+      meanIntakeKg: meanIntakeKg === null ? null : round(meanIntakeKg, 3),
+      meanDispensedMl: meanDispensedMl === null ? null : Math.round(meanDispensedMl),
+      weighings: weighings.length,
+      firstWeightKg: weighings[0]?.weightKg ?? null,
+      lastWeightKg: weighings.at(-1)?.weightKg ?? null,
+      adgKg: averageDailyGain(weighings),
+    };
+  });
+}
+
+export type TreatmentIntakeSummary = {
+  studyId: string;
+  treatment: string;
+  cages: number;
+  meanIntakeKg: number | null;
+  meanDispensedMl: number | null;
+  meanAdgKg: number | null;
+  adgCages: number; // cages with an ADG
+};
+
+/** Means of the cage means per study and treatment: the cage is the experimental unit. */
+export function summarizeTreatments(cages: CageIntakeSummary[]): TreatmentIntakeSummary[] {
+  const groups = new Map<string, CageIntakeSummary[]>();
+  cages
+    .filter((c) => c.treatment)
+    .forEach((c) => {
+      const key = `${c.studyId}\u0000${c.treatment}`;
+      groups.set(key, [...(groups.get(key) ?? []), c]);
+    });
+  return [...groups.values()]
+    .map((rows) => {
+      const meanIntakeKg = mean(rows.map((r) => r.meanIntakeKg));
+      const meanDispensedMl = mean(rows.map((r) => r.meanDispensedMl));
+      const meanAdgKg = mean(rows.map((r) => r.adgKg));
+      return {
+        studyId: rows[0].studyId,
+        treatment: rows[0].treatment,
+        cages: rows.length,
+        meanIntakeKg: meanIntakeKg === null ? null : round(meanIntakeKg, 3),
+        meanDispensedMl: meanDispensedMl === null ? null : Math.round(meanDispensedMl),
+        meanAdgKg: meanAdgKg === null ? null : round(meanAdgKg, 3),
+        adgCages: rows.filter((r) => r.adgKg !== null).length,
+      };
+    })
+    .sort((a, b) => a.studyId.localeCompare(b.studyId) || a.treatment.localeCompare(b.treatment, undefined, { numeric: true }));
+}
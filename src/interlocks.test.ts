@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { ActuationError, applyActuators } from "./controller";
+import type { Actuators, CageController, DeviceReport } from "./controller";
+import { INTERLOCK_RULES, InterlockError, checkInterlocks, enforceInterlocks } from "./interlocks";
+
+const IDLE_IN: Actuators = { bowl: "IN", stirring: false, valveOpen: false };
+const OUT: Actuators = { bowl: "OUT", stirring: false, valveOpen: false };
+const RUNNING: Actuators = { bowl: "IN", stirring: true, valveOpen: true };
+
+function rule(id: string) {
+  return INTERLOCK_RULES.find((r) => r.id === id)!;
+}
+
+describe("VALVE_REQUIRES_BOWL_IN", () => {
+  it("allows opening the valve with the bowl IN", () => {
+    expect(checkInterlocks(IDLE_IN, { valveOpen: true })).toEqual({ ok: true, target: { valveOpen: true } });
+  });
+
+  it("blocks opening the valve with the bowl OUT", () => {
+    expect(checkInterlocks(OUT, { valveOpen: true })).toEqual({ ok: false, rule: rule("VALVE_REQUIRES_BOWL_IN") });
+  });
+
+  it("blocks moving the bowl OUT while asking for the valve to stay open", () => {
+    expect(checkInterlocks(RUNNING, { bowl: "OUT", valveOpen: true })).toEqual({ ok: false, rule: rule("VALVE_REQUIRES_BOWL_IN") });
+  });
+
+  it("closes the valve when the bowl moves OUT", () => {
+    expect(checkInterlocks({ ...IDLE_IN, valveOpen: true }, { bowl: "OUT" })).toEqual({ ok: true, target: { bowl: "OUT", valveOpen: false } });
+  });
+});
+
+describe("NO_STIR_WHILE_BOWL_OUT", () => {
+  it("allows stirring with the bowl IN", () => {
+    expect(checkInterlocks(IDLE_IN, { stirring: true })).toEqual({ ok: true, target: { stirring: true } });
+  });
+
+  it("blocks stirring with the bowl OUT", () => {
+    expect(checkInterlocks(OUT, { stirring: true })).toEqual({ ok: false, rule: rule("NO_STIR_WHILE_BOWL_OUT") });
+  });
+
+  it("stops the stirrer when the bowl moves OUT", () => {
+    expect(checkInterlocks({ ...IDLE_IN, stirring: true }, { bowl: "OUT" })).toEqual({ ok: true, target: { bowl: "OUT", stirring: false } });
+  });
+});
+
+describe("interlock checks", () => {
+  it("applies every rule's fix together", () => {
+    expect(checkInterlocks(RUNNING, { bowl: "OUT" })).toEqual({ ok: true, target: { bowl: "OUT", valveOpen: false, stirring: false } });
+  });
+
+  it("allows switching things off and moving the bowl back IN in any state", () => {
+    expect(checkInterlocks(OUT, { bowl: "IN", stirring: true, valveOpen: true })).toEqual({ ok: true, target: { bowl: "IN", stirring: true, valveOpen: true } });
+    expect(checkInterlocks(RUNNING, { stirring: false, valveOpen: false })).toMatchObject({ ok: true });
+  });
+
+  it("throws the rule from enforceInterlocks", () => {
+    expect(enforceInterlocks(IDLE_IN, { valveOpen: true })).toEqual({ valveOpen: true });
+    expect(() => enforceInterlocks(OUT, { valveOpen: true })).toThrow(InterlockError);
+    expect(() => enforceInterlocks(OUT, { stirring: true })).toThrow("Blocked by interlock NO_STIR_WHILE_BOWL_OUT: No stir while bowl OUT");
+  });
+});
+
+/** Controller that records the order of the commands it is sent. */
+function recordingController(failOn?: keyof Actuators): { controller: CageController; calls: string[] } {
+  const calls: string[] = [];
+  const state: DeviceReport = { cageId: 1, ...IDLE_IN, levelPct: 60 };
+  const answer = (field: keyof Actuators, call: string, change: Partial<Actuators>) => {
+    calls.push(call);
+    if (field === failOn) return Promise.reject(new Error(`${call} failed`));
+    Object.assign(state, change);
+    return Promise.resolve({ ...state });
+  };
+  const controller: CageController = {
+    setBowl: (_, bowl) => answer("bowl", `bowl ${bowl}`, { bowl }),
+    setStir: (_, on) => answer("stirring", `stir ${on ? "on" : "off"}`, { stirring: on }),
+    setValve: (_, open) => answer("valveOpen", `valve ${open ? "open" : "closed"}`, { valveOpen: open }),
+    readLevel: () => Promise.resolve(state.levelPct),
+    readState: () => Promise.resolve({ ...state }),
+    subscribe: () => () => {},
+    connection: () => "online",
+    onConnectionChange: () => () => {},
+  };
+  return { controller, calls };
+}
+
+describe("actuation order", () => {
+  it("closes the valve and stops the stirrer before moving the bowl OUT", async () => {
+    const { controller, calls } = recordingController();
+    await applyActuators(controller, 1, { bowl: "OUT", valveOpen: false, stirring: false });
+    expect(calls).toEqual(["valve closed", "stir off", "bowl OUT"]);
+  });
+
+  it("moves the bowl IN before starting the stirrer and opens the valve last", async () => {
+    const { controller, calls } = recordingController();
+    await applyActuators(controller, 1, { valveOpen: true, stirring: true, bowl: "IN" });
+    expect(calls).toEqual(["bowl IN", "stir on", "valve open"]);
+  });
+
+  it("stops at the first failed step and names the actuator", async () => {
+    const { controller, calls } = recordingController("bowl");
+    const run = applyActuators(controller, 1, { bowl: "IN", valveOpen: true });
+    await expect(run).rejects.toThrow(ActuationError);
+    await expect(run).rejects.toMatchObject({ field: "bowl" });
+    expect(calls).toEqual(["bowl IN"]);
+  });
+
+  it("drops the remaining steps once aborted", async () => {
+    const { controller, calls } = recordingController();
+    const abort = new AbortController();
+    const run = applyActuators(controller, 1, { bowl: "IN", stirring: true, valveOpen: true }, abort.signal);
+    abort.abort();
+    await run;
+    expect(calls).toEqual(["bowl IN"]);
+  });
+});
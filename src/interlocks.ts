@@ -0,0 +1,71 @@
+// Declarative safety interlocks. Every actuator change — manual, group, AUTO, scheduler or API —
+// is checked against these rules before it is sent to the controller.
+
+import type { Actuators } from "./controller";
+
+export type InterlockRule = {
+  id: string;
+  description: string;
+  /** True for an actuator state that must never occur. */
+  forbids: (s: Actuators) => boolean;
+  /**
+   * Change that restores a safe state when the violation is a side effect of the request
+   * (e.g. moving the bowl OUT closes the valve). If the request itself asks for any of these
+   * fields, it is rejected instead.
+   */
+  fix: Partial<Actuators>;
+};
+
+export const INTERLOCK_RULES: InterlockRule[] = [
+  {
+    id: "VALVE_REQUIRES_BOWL_IN",
+    description: "Valve requires bowl IN",
+    forbids: (s) => s.valveOpen && s.bowl !== "IN",
+    fix: { valveOpen: false },
+  },
+  {
+    id: "NO_STIR_WHILE_BOWL_OUT",
+    description: "No stir while bowl OUT",
+    forbids: (s) => s.stirring && s.bowl === "OUT",
+    fix: { stirring: false },
+  },
+];
+
+export type InterlockCheck = { ok: true; target: Partial<Actuators> } | { ok: false; rule: InterlockRule };
+
+/** Check a requested change against the current state; returns the (possibly extended) safe target. */
+export function checkInterlocks(current: Actuators, target: Partial<Actuators>): InterlockCheck {
+  let safe = { ...target };
+  for (const rule of INTERLOCK_RULES) {
+    const next = { ...current, ...safe };
+    if (!rule.forbids(next)) continue;
+    if (Object.keys(rule.fix).some((k) => k in target)) return { ok: false, rule };
+    safe = { ...safe, ...rule.fix };
+  }
+  // A fix may itself break an earlier rule; never hand back an unsafe target.
+  const broken = INTERLOCK_RULES.find((r) => r.forbids({ ...current, ...safe }));
+  return broken ? { ok: false, rule: broken } : { ok: true, target: safe };
+}
+
+export class InterlockError extends Error {
+  readonly rule: InterlockRule;
+
+  constructor(rule: InterlockRule) {
+    super(`Blocked by interlock ${rule.id}: ${rule.description}`);
+    this.name = "InterlockError";
+    this.rule = rule;
+  }
+}
+
+/** Like checkInterlocks, but throws an InterlockError when the request is rejected. */
+export function enforceInterlocks(current: Actuators, target: Partial<Actuators>): Partial<Actuators> {
+  const check = checkInterlocks(current, target);
+  if (!check.ok) throw new InterlockError(check.rule);
+  return check.target;
+}
+
+export function describeTarget(target: Partial<Actuators>): string {
+  return Object.entries(target)
+    .map(([k, v]) => `${k}→${typeof v === "boolean" ? (v ? "ON" : "OFF") : v}`)
+    .join(", ");
+}
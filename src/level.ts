@@ -0,0 +1,32 @@
+// Feed-level telemetry helpers. Levels are reported as percent of bowl capacity; AUTO drives the
+// valve with hysteresis between a low (open) and a high (close) threshold so it does not chatter.
+
+import type { AutoSettings, Level } from "./types";
+
+export const DEFAULT_VALVE_OPEN_BELOW_PCT = 25;
+export const DEFAULT_VALVE_CLOSE_ABOVE_PCT = 80;
+
+type Thresholds = Pick<AutoSettings, "valveOpenBelowPct" | "valveCloseAbovePct">;
+
+export function clampPct(v: number): number {
+  return Math.min(100, Math.max(0, v));
+}
+
+/** LOW once the level is at or below the valve-open threshold. */
+export function levelStatus(levelPct: number, t: Thresholds): Level {
+  return levelPct <= t.valveOpenBelowPct ? "LOW" : "OK";
+}
+
+/**
+ * AUTO valve target: open at or below the low threshold, close at or above the high threshold,
+ * otherwise keep the current state. A high threshold at or below the low one disables the band.
+ */
+export function autoValveTarget(levelPct: number, t: Thresholds, valveOpen: boolean): boolean {
+  if (levelPct <= t.valveOpenBelowPct) return true;
+  if (levelPct >= t.valveCloseAbovePct || t.valveCloseAbovePct <= t.valveOpenBelowPct) return false;
+  return valveOpen;
+}
+
+export function formatLevel(levelPct: number, t: Thresholds): string {
+  return `${levelStatus(levelPct, t)} (${Math.round(levelPct)}%)`;
+}
@@ -2,9 +2,32 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { createLocalAuth } from './auth.ts'
+import { createInitialCages } from './cages.ts'
+import AuthGate from './components/AuthGate.tsx'
+import FacilityConfigErrorScreen from './components/FacilityConfigErrorScreen.tsx'
+import { FacilityConfigError, loadFacilityConfig } from './facility.ts'
+import { createSimulation, isSimulationRequested } from './simulation.ts'
+
+function render() {
+  try {
+    const facility = loadFacilityConfig()
+    const simulation = isSimulationRequested() ? createSimulation({ cageIds: createInitialCages(facility).map((c) => c.id) }) : undefined
+    const title = `${simulation ? '[SIM] ' : ''}${facility.name} Cage Monitor`
+    document.title = title
+    return (
+      <AuthGate auth={createLocalAuth()} title={title}>
+        {(user, logout) => <App facility={facility} user={user} onLogout={logout} simulation={simulation} />}
+      </AuthGate>
+    )
+  } catch (err) {
+    if (err instanceof FacilityConfigError) return <FacilityConfigErrorScreen error={err} />
+    throw err
+  }
+}
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {render()}
   </StrictMode>,
 )
@@ -0,0 +1,202 @@
+// Durable cage state in localStorage. Only operator-owned fields are stored (mode, AUTO settings
+// and schedule anchors, feeding program, study assignment, out-of-service hold, emergency-stop latch, selection); actuator and level state always comes from the controller.
+
+import { DEFAULT_VALVE_CLOSE_ABOVE_PCT, DEFAULT_VALVE_OPEN_BELOW_PCT } from "./level";
+import { MODES } from "./types";
+import type { AutoSettings, Cage, EmergencyStop, OutOfService, StudyAssignment } from "./types";
+
+export const STORAGE_KEY = "pncl-cage-monitor/cages";
+export const SCHEMA_VERSION = 6;
+
+type PersistedCage = Pick<Cage, "id" | "name" | "mode" | "selected" | "auto" | "autoAnchor" | "autoExitAt" | "programId" | "study" | "outOfService" | "stopped">;
+
+type PersistedState = {
+  version: number;
+  savedAt: number;
+  cages: PersistedCage[];
+};
+
+/** A cage (or "*" for the whole snapshot) whose stored state was discarded. */
+export type RestoreIssue = { cage: string; reason: string };
+
+export type RestoreResult = {
+  cages: Cage[];
+  issues: RestoreIssue[];
+  savedAt: number | null;
+};
+
+/**
+ * Upgrades from version N to N + 1, keyed by N. Add an entry here whenever PersistedState
+ * changes shape and bump SCHEMA_VERSION.
+ */
+const migrations: Record<number, (state: Record<string, unknown>) => Record<string, unknown>> = {
+  // v2: AUTO valve hysteresis thresholds replace the binary LOW flag.
+  1: (state) => ({
+    ...state,
+    cages: (Array.isArray(state.cages) ? state.cages : []).map((c) =>
+      isObject(c) && isObject(c.auto)
+        ? { ...c, auto: { valveOpenBelowPct: DEFAULT_VALVE_OPEN_BELOW_PCT, valveCloseAbovePct: DEFAULT_VALVE_CLOSE_ABOVE_PCT, ...c.auto } }
+        : c
+    ),
+  }),
+  // v3: study metadata per cage.
+  2: (state) => ({
+    ...state,
+    cages: (Array.isArray(state.cages) ? state.cages : []).map((c) => (isObject(c) ? { study: null, ...c } : c)),
+  }),
+  // v4: feeding program assignment.
+  3: (state) => ({
+    ...state,
+    cages: (Array.isArray(state.cages) ? state.cages : []).map((c) => (isObject(c) ? { programId: null, ...c } : c)),
+  }),
+  // v5: out-of-service hold.
+  4: (state) => ({
+    ...state,
+    cages: (Array.isArray(state.cages) ? state.cages : []).map((c) => (isObject(c) ? { outOfService: null, ...c } : c)),
+  }),
+  // v6: emergency-stop latch.
+  5: (state) => ({
+    ...state,
+    cages: (Array.isArray(state.cages) ? state.cages : []).map((c) => (isObject(c) ? { stopped: null, ...c } : c)),
+  }),
+};
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null;
+}
+
+function isPct(v: unknown): boolean {
+  return typeof v === "number" && v >= 0 && v <= 100;
+}
+
+export function isAutoSettings(v: unknown): v is AutoSettings {
+  return (
+    isObject(v) &&
+    Number.isFinite(v.stirEveryMin) &&
+    Number.isFinite(v.stirDurationSec) &&
+    typeof v.autoExitEnabled === "boolean" &&
+    typeof v.autoExitTime === "string" &&
+    /^\d{1,2}:\d{2}$/.test(v.autoExitTime) &&
+    isPct(v.valveOpenBelowPct) &&
+    isPct(v.valveCloseAbovePct)
+  );
+}
+
+export function isStudyOrNull(v: unknown): v is StudyAssignment | null {
+  if (v === null) return true;
+  return isObject(v) && ["studyId", "treatment", "animalId", "startDate", "endDate"].every((k) => typeof v[k] === "string");
+}
+
+export function isOutOfServiceOrNull(v: unknown): v is OutOfService | null {
+  if (v === null) return true;
+  return isObject(v) && typeof v.reason === "string" && Number.isFinite(v.since) && typeof v.by === "string";
+}
+
+export function isEmergencyStopOrNull(v: unknown): v is EmergencyStop | null {
+  if (v === null) return true;
+  return (
+    isObject(v) &&
+    (v.scope === "facility" || v.scope === "station") &&
+    (v.station === null || Number.isInteger(v.station)) &&
+    Number.isFinite(v.at) &&
+    typeof v.by === "string" &&
+    MODES.includes(v.modeBefore as Cage["mode"])
+  );
+}
+
+function isTimestampOrNull(v: unknown): v is number | null {
+  return v === null || Number.isFinite(v);
+}
+
+function validateCage(raw: unknown, base: Cage): string | null {
+  if (!isObject(raw)) return "entry is not an object";
+  if (raw.name !== base.name) return `stored name ${JSON.stringify(raw.name)} does not match ${base.name}`;
+  if (!MODES.includes(raw.mode as Cage["mode"])) return `invalid mode ${JSON.stringify(raw.mode)}`;
+  if (typeof raw.selected !== "boolean") return "invalid selection flag";
+  if (!isAutoSettings(raw.auto)) return "invalid AUTO settings";
+  if (!isTimestampOrNull(raw.autoAnchor) || !isTimestampOrNull(raw.autoExitAt)) return "invalid AUTO schedule";
+  if (raw.programId !== null && typeof raw.programId !== "string") return "invalid feeding program";
+  if (!isStudyOrNull(raw.study)) return "invalid study assignment";
+  if (!isOutOfServiceOrNull(raw.outOfService)) return "invalid out-of-service hold";
+  if (!isEmergencyStopOrNull(raw.stopped)) return "invalid emergency-stop latch";
+  if (raw.mode === "AUTO" && raw.autoAnchor === null) return "AUTO cage has no schedule anchor";
+  return null;
+}
+
+function migrate(state: Record<string, unknown>): Record<string, unknown> {
+  let next = state;
+  for (let v = Number(next.version); v < SCHEMA_VERSION; v++) {
+    const step = migrations[v];
+    if (!step) throw new Error(`no migration from schema version ${v}`);
+    next = { ...step(next), version: v + 1 };
+  }
+  return next;
+}
+
+/** Overlay the stored snapshot on `base`; cages that cannot be restored keep their base state. */
+export function loadCageState(base: Cage[], storage: Storage = localStorage): RestoreResult {
+  let raw: string | null;
+  try {
+    raw = storage.getItem(STORAGE_KEY);
+  } catch (err) {
+    return { cages: base, issues: [{ cage: "*", reason: `storage unavailable: ${String(err)}` }], savedAt: null };
+  }
+  if (raw === null) return { cages: base, issues: [], savedAt: null };
+
+  let state: Record<string, unknown>;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!isObject(parsed) || !Number.isInteger(parsed.version)) throw new Error("missing schema version");
+    if ((parsed.version as number) > SCHEMA_VERSION) throw new Error(`schema version ${parsed.version} is newer than supported (${SCHEMA_VERSION})`);
+    state = migrate(parsed);
+    if (!Array.isArray(state.cages)) throw new Error("missing cage list");
+  } catch (err) {
+    return { cages: base, issues: [{ cage: "*", reason: `saved state discarded: ${err instanceof Error ? err.message : String(err)}` }], savedAt: null };
+  }
+
+  const stored = new Map<number, unknown>();
+  (state.cages as unknown[]).forEach((c) => {
+    if (isObject(c) && Number.isInteger(c.id)) stored.set(c.id as number, c);
+  });
+  const issues: RestoreIssue[] = [];
+  const cages = base.map((c) => {
+    if (!stored.has(c.id)) {
+      issues.push({ cage: c.name, reason: "no saved state" });
+      return c;
+    }
+    const entry = stored.get(c.id);
+    const problem = validateCage(entry, c);
+    if (problem) {
+      issues.push({ cage: c.name, reason: problem });
+      return c;
+    }
+    const p = entry as PersistedCage;
+    return { ...c, mode: p.mode, selected: p.selected, auto: { ...p.auto }, autoAnchor: p.autoAnchor, autoExitAt: p.autoExitAt, programId: p.programId, study: p.study && { ...p.study }, outOfService: p.outOfService && { ...p.outOfService }, stopped: p.stopped && { ...p.stopped } };
+  });
+  return { cages, issues, savedAt: Number.isFinite(state.savedAt) ? (state.savedAt as number) : null };
+}
+
+export function saveCageState(cages: Cage[], storage: Storage = localStorage) {
+  const state: PersistedState = {
+    version: SCHEMA_VERSION,
+    savedAt: Date.now(),
+    cages: cages.map(({ id, name, mode, selected, auto, autoAnchor, autoExitAt, programId, study, outOfService, stopped }) => ({
+      id,
+      name,
+      mode,
+      selected,
+      auto,
+      autoAnchor,
+      autoExitAt,
+      programId,
+      study,
+      outOfService,
+      stopped,
+    })),
+  };
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(state));
+  } catch (err) {
+    console.error("Failed to save cage state", err);
+  }
+}
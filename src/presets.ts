@@ -0,0 +1,54 @@
+// AUTO preset library: named AutoSettings plus an optional feeding program, stored in localStorage.
+// Presets are applied to a selection as a previewed group operation (see src/groupOps.ts).
+
+import { isAutoSettings } from "./persistence";
+import type { AutoPreset, Cage } from "./types";
+
+const STORAGE_KEY = "pncl-cage-monitor/presets";
+
+/** Every problem with a preset, empty when it can be saved. */
+export function validatePreset(p: AutoPreset, others: AutoPreset[] = []): string[] {
+  const issues: string[] = [];
+  if (!p.name.trim()) issues.push("Name is required");
+  if (others.some((o) => o.id !== p.id && o.name.trim().toLowerCase() === p.name.trim().toLowerCase())) issues.push(`Another preset is named "${p.name.trim()}"`);
+  if (p.auto.valveOpenBelowPct >= p.auto.valveCloseAbovePct) issues.push("Valve low % must be below valve high %");
+  return issues;
+}
+
+export function newPresetId(existing: AutoPreset[]): string {
+  let n = existing.length + 1;
+  while (existing.some((p) => p.id === `preset-${n}`)) n++;
+  return `preset-${n}`;
+}
+
+/** A preset holding the AUTO settings and program of a cage. */
+export function presetFromCage(c: Cage, name: string, existing: AutoPreset[]): AutoPreset {
+  return { id: newPresetId(existing), name: name.trim(), auto: { ...c.auto }, programId: c.programId };
+}
+
+export function isPreset(v: unknown): v is AutoPreset {
+  if (typeof v !== "object" || v === null) return false;
+  const p = v as Record<string, unknown>;
+  return typeof p.id === "string" && typeof p.name === "string" && isAutoSettings(p.auto) && (p.programId === null || typeof p.programId === "string");
+}
+
+export function loadPresets(storage: Storage = localStorage): AutoPreset[] {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed: unknown = JSON.parse(raw);
+      if (Array.isArray(parsed)) return parsed.filter(isPreset);
+    }
+  } catch (err) {
+    console.error("Failed to load AUTO presets", err);
+  }
+  return [];
+}
+
+export function savePresets(presets: AutoPreset[], storage: Storage = localStorage) {
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (err) {
+    console.error("Failed to save AUTO presets", err);
+  }
+}
@@ -0,0 +1,116 @@
+// Feeding program library: named time-of-day programs with weekday/weekend windows, stored in
+// localStorage. The AUTO scheduler (src/scheduler.ts) turns the active window into bowl/stir/valve.
+
+import type { FeedingProgram, ProgramWindow } from "./types";
+
+const STORAGE_KEY = "pncl-cage-monitor/programs";
+
+export const DEFAULT_WINDOW: ProgramWindow = { start: "06:00", end: "08:00", stirEveryMin: 15, stirDurationSec: 30, valveEnabled: true };
+
+export const DEFAULT_PROGRAMS: FeedingProgram[] = [
+  {
+    id: "twice-daily",
+    name: "Twice daily",
+    weekday: [DEFAULT_WINDOW, { ...DEFAULT_WINDOW, start: "18:00", end: "20:00" }],
+    weekend: [DEFAULT_WINDOW, { ...DEFAULT_WINDOW, start: "18:00", end: "20:00" }],
+  },
+];
+
+const HHMM = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+/** Minutes since midnight for "HH:MM" ("24:00" is the end of the day), or null if malformed. */
+export function minutesOfDay(hhmm: string): number | null {
+  if (hhmm === "24:00") return 24 * 60;
+  const m = HHMM.exec(hhmm);
+  return m ? Number(m[1]) * 60 + Number(m[2]) : null;
+}
+
+/** Epoch ms of "HH:MM" on the local calendar day containing `day`. */
+export function timeOnDay(day: number, hhmm: string): number {
+  const min = minutesOfDay(hhmm) ?? 0;
+  const d = new Date(day);
+  d.setHours(Math.floor(min / 60), min % 60, 0, 0);
+  return d.getTime();
+}
+
+export function isWeekend(at: number): boolean {
+  const day = new Date(at).getDay();
+  return day === 0 || day === 6;
+}
+
+/** Windows that apply on the local calendar day containing `at`, in start order. */
+export function windowsOn(program: FeedingProgram, at: number): ProgramWindow[] {
+  const windows = isWeekend(at) ? program.weekend : program.weekday;
+  return [...windows].sort((a, b) => (minutesOfDay(a.start) ?? 0) - (minutesOfDay(b.start) ?? 0));
+}
+
+function validateWindows(windows: ProgramWindow[], day: string): string[] {
+  const issues: string[] = [];
+  const spans: [number, number][] = [];
+  windows.forEach((w, i) => {
+    const label = `${day} window ${i + 1}`;
+    const start = minutesOfDay(w.start);
+    const end = minutesOfDay(w.end);
+    if (start === null || end === null) issues.push(`${label}: times must be HH:MM`);
+    else if (end <= start) issues.push(`${label}: end must be after start (windows cannot cross midnight)`);
+    else spans.push([start, end]);
+    if (!(w.stirEveryMin >= 0) || !(w.stirDurationSec >= 0)) issues.push(`${label}: stir cadence cannot be negative`);
+    else if (w.stirEveryMin > 0 && w.stirDurationSec > w.stirEveryMin * 60) issues.push(`${label}: stir duration is longer than the interval`);
+  });
+  spans.sort((a, b) => a[0] - b[0]);
+  if (spans.some((s, i) => i > 0 && s[0] < spans[i - 1][1])) issues.push(`${day} windows overlap`);
+  return issues;
+}
+
+/** Every problem with a program, empty when it can be saved. */
+export function validateProgram(p: FeedingProgram, others: FeedingProgram[] = []): string[] {
+  const issues: string[] = [];
+  if (!p.name.trim()) issues.push("Name is required");
+  if (others.some((o) => o.id !== p.id && o.name.trim().toLowerCase() === p.name.trim().toLowerCase())) issues.push(`Another program is named "${p.name.trim()}"`);
+  return [...issues, ...validateWindows(p.weekday, "Weekday"), ...validateWindows(p.weekend, "Weekend")];
+}
+
+export function newProgramId(existing: FeedingProgram[]): string {
+  let n = existing.length + 1;
+  while (existing.some((p) => p.id === `program-${n}`)) n++;
+  return `program-${n}`;
+}
+
+/** Display name of a program assignment; null means the cage's fixed stir interval. */
+export function programName(programId: string | null, programs: FeedingProgram[]): string {
+  if (programId === null) return "interval";
+  return programs.find((p) => p.id === programId)?.name ?? `${programId} (missing)`;
+}
+
+function isWindow(v: unknown): v is ProgramWindow {
+  if (typeof v !== "object" || v === null) return false;
+  const w = v as Record<string, unknown>;
+  return typeof w.start === "string" && typeof w.end === "string" && Number.isFinite(w.stirEveryMin) && Number.isFinite(w.stirDurationSec) && typeof w.valveEnabled === "boolean";
+}
+
+export function isProgram(v: unknown): v is FeedingProgram {
+  if (typeof v !== "object" || v === null) return false;
+  const p = v as Record<string, unknown>;
+  return typeof p.id === "string" && typeof p.name === "string" && Array.isArray(p.weekday) && p.weekday.every(isWindow) && Array.isArray(p.weekend) && p.weekend.every(isWindow);
+}
+
+export function loadPrograms(storage: Storage = localStorage): FeedingProgram[] {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed: unknown = JSON.parse(raw);
+      if (Array.isArray(parsed)) return parsed.filter(isProgram);
+    }
+  } catch (err) {
+    console.error("Failed to load feeding programs", err);
+  }
+  return DEFAULT_PROGRAMS;
+}
+
+export function savePrograms(programs: FeedingProgram[], storage: Storage = localStorage) {
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(programs));
+  } catch (err) {
+    console.error("Failed to save feeding programs", err);
+  }
+}
@@ -0,0 +1,114 @@
+// Clock-based AUTO scheduling. Stir windows and auto-exit are derived from wall-clock time
+// and the cage's AUTO anchor, so they do not drift and can be recomputed at any moment
+// (e.g. after a reload) instead of living in per-cage setInterval/setTimeout handles.
+// A cage with a feeding program follows the program's time-of-day windows instead of its
+// fixed interval: bowl IN during a window, OUT between windows.
+
+import { timeOnDay, windowsOn } from "./programs";
+import type { AutoSettings, Bowl, Cage, FeedingProgram, Mode, ProgramWindow } from "./types";
+
+/** Mode a cage is put into when its auto-exit time is reached: bowl IN, stirrer and valve off. */
+export const AUTO_EXIT_MODE: Mode = "OFF";
+
+/** How often the central scheduler re-evaluates every AUTO cage. */
+export const SCHEDULER_TICK_MS = 1000;
+
+export type AutoPlan = {
+  stirring: boolean;
+  stirEndsAt: number | null; // end of the current stir window, when stirring
+  nextStirAt: number | null; // start of the next stir window, null when stirring is disabled
+  exitAt: number | null;
+  exitDue: boolean;
+  bowl: Bowl; // OUT between the windows of a feeding program
+  valveEnabled: boolean; // whether the level-driven valve may open now
+  windowEndsAt: number | null; // end of the current program window
+  nextWindowAt: number | null; // start of the next program window, when outside one
+};
+
+type StirCadence = Pick<AutoSettings, "stirEveryMin" | "stirDurationSec">;
+
+/** Next wall-clock occurrence of "HH:MM" (local time) strictly after `after`. */
+export function nextTimeOfDay(hhmm: string, after: number): number | null {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(hhmm);
+  if (!m) return null;
+  const d = new Date(after);
+  d.setHours(Number(m[1]), Number(m[2]), 0, 0);
+  if (d.getTime() <= after) d.setDate(d.getDate() + 1);
+  return d.getTime();
+}
+
+/** Stir windows start at the anchor and repeat every `stirEveryMin`, each lasting `stirDurationSec`. */
+export function planAuto(settings: StirCadence, anchor: number, exitAt: number | null, now: number): AutoPlan {
+  const exitDue = exitAt !== null && now >= exitAt;
+  const base = { exitAt, exitDue, bowl: "IN" as const, valveEnabled: true, windowEndsAt: null, nextWindowAt: null };
+  const intervalMs = Math.max(0, settings.stirEveryMin) * 60_000;
+  const durationMs = Math.min(Math.max(0, settings.stirDurationSec) * 1000, intervalMs);
+  if (intervalMs === 0 || durationMs === 0) return { ...base, stirring: false, stirEndsAt: null, nextStirAt: null };
+  if (now < anchor) return { ...base, stirring: false, stirEndsAt: null, nextStirAt: anchor };
+
+  const windowStart = anchor + Math.floor((now - anchor) / intervalMs) * intervalMs;
+  const stirring = now < windowStart + durationMs;
+  return { ...base, stirring, stirEndsAt: stirring ? windowStart + durationMs : null, nextStirAt: windowStart + intervalMs };
+}
+
+/** Start of the first program window after `now`, looking up to a week ahead. */
+function nextWindowStart(program: FeedingProgram, now: number): number | null {
+  for (let day = 0; day <= 7; day++) {
+    const d = new Date(now);
+    d.setDate(d.getDate() + day);
+    const start = windowsOn(program, d.getTime())
+      .map((w) => timeOnDay(d.getTime(), w.start))
+      .find((t) => t > now);
+    if (start !== undefined) return start;
+  }
+  return null;
+}
+
+/**
+ * Program windows apply on the local day they belong to (weekday or weekend list). Inside a
+ * window the stir cadence restarts at the window start and never runs past its end.
+ */
+export function planProgram(program: FeedingProgram, exitAt: number | null, now: number): AutoPlan {
+  const exitDue = exitAt !== null && now >= exitAt;
+  const current: ProgramWindow | undefined = windowsOn(program, now).find((w) => timeOnDay(now, w.start) <= now && now < timeOnDay(now, w.end));
+  const nextWindowAt = nextWindowStart(program, now);
+  if (!current) {
+    return { stirring: false, stirEndsAt: null, nextStirAt: null, exitAt, exitDue, bowl: "OUT", valveEnabled: false, windowEndsAt: null, nextWindowAt };
+  }
+  const end = timeOnDay(now, current.end);
+  const stir = planAuto(current, timeOnDay(now, current.start), exitAt, now);
+  return {
+    ...stir,
+    stirEndsAt: stir.stirEndsAt === null ? null : Math.min(stir.stirEndsAt, end),
+    nextStirAt: stir.nextStirAt !== null && stir.nextStirAt < end ? stir.nextStirAt : null,
+    valveEnabled: current.valveEnabled,
+    windowEndsAt: end,
+    nextWindowAt: null,
+  };
+}
+
+/** The cage's current AUTO plan: its feeding program if one is assigned, else the fixed interval. */
+export function planForCage(c: Cage, now: number, programs: FeedingProgram[]): AutoPlan | null {
+  if (c.mode !== "AUTO" || c.autoAnchor === null) return null;
+  const program = c.programId === null ? undefined : programs.find((p) => p.id === c.programId);
+  return program ? planProgram(program, c.autoExitAt, now) : planAuto(c.auto, c.autoAnchor, c.autoExitAt, now);
+}
+
+/**
+ * Apply AUTO settings to a cage and (re)arm its schedule. The stir cycle restarts when the cage
+ * enters AUTO or its stir cadence changes; the exit time is always recomputed from `now`.
+ */
+export function armAuto(c: Cage, now: number, patch: Partial<AutoSettings> = {}): Cage {
+  const auto = { ...c.auto, ...patch };
+  const restartStir = c.autoAnchor === null || "stirEveryMin" in patch || "stirDurationSec" in patch;
+  return {
+    ...c,
+    auto,
+    autoAnchor: restartStir ? now : c.autoAnchor,
+    autoExitAt: auto.autoExitEnabled ? nextTimeOfDay(auto.autoExitTime, now) : null,
+  };
+}
+
+export function disarmAuto(c: Cage): Cage {
+  return { ...c, autoAnchor: null, autoExitAt: null };
+}
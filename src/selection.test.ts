@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { createInitialCages } from "./cages";
+import { loadFacilityConfig } from "./facility";
+import { matchesQuery, parseSelectionQuery } from "./selection";
+import type { Cage } from "./types";
+
+const cages = createInitialCages(loadFacilityConfig());
+
+function select(text: string, from: Cage[] = cages): string[] {
+  const query = parseSelectionQuery(text);
+  if (!query.ok) throw new Error(query.error);
+  return from.filter((c) => matchesQuery(c, query.terms)).map((c) => c.name);
+}
+
+describe("selection query", () => {
+  it("parses ANDed terms, ORed values and negation", () => {
+    expect(parseSelectionQuery("mode=AUTO,SEMI  level!=low")).toEqual({
+      ok: true,
+      terms: [
+        { key: "mode", negate: false, values: ["auto", "semi"] },
+        { key: "level", negate: true, values: ["low"] },
+      ],
+    });
+  });
+
+  it("reports unknown keys, bad values and stray words", () => {
+    expect(parseSelectionQuery("colour=red")).toMatchObject({ ok: false, error: expect.stringContaining('Unknown key "colour"') });
+    expect(parseSelectionQuery("bowl=up")).toEqual({ ok: false, error: "bowl=up: expected in, out" });
+    expect(parseSelectionQuery("station=3-x")).toEqual({ ok: false, error: "station=3-x: use a number or a range like 3-5" });
+    expect(parseSelectionQuery("mode=AUTO low")).toEqual({ ok: false, error: '"low" is not key=value' });
+  });
+
+  it("selects the same stations for a range typed either way round", () => {
+    expect(parseSelectionQuery("station=5-3")).toEqual({ ok: true, terms: [{ key: "station", negate: false, values: ["3-5"] }] });
+    expect(select("station=5-3")).toEqual(select("station=3-5"));
+    expect(select("station=5-3").length).toBeGreaterThan(0);
+  });
+
+  it("takes quoted values with spaces and commas", () => {
+    const assigned = cages.map((c, i) => (i < 2 ? { ...c, study: { studyId: "Heat stress 2", treatment: i === 0 ? "Low, wet" : "Control", animalId: "", startDate: "", endDate: "" } } : c));
+    expect(parseSelectionQuery('study="Heat stress 2" treatment="Low, wet",control')).toEqual({
+      ok: true,
+      terms: [
+        { key: "study", negate: false, values: ["heat stress 2"] },
+        { key: "treatment", negate: false, values: ["low, wet", "control"] },
+      ],
+    });
+    expect(select('study="heat stress 2"', assigned)).toEqual([assigned[0].name, assigned[1].name]);
+    expect(select('study="Heat stress 2" treatment!="Low, wet"', assigned)).toEqual([assigned[1].name]);
+    expect(select("study=Heat", assigned)).toEqual([]);
+  });
+
+  it("reports unclosed quotes and empty values", () => {
+    expect(parseSelectionQuery('study="Heat stress')).toEqual({ ok: false, error: "Unclosed quote" });
+    expect(parseSelectionQuery('study=""')).toEqual({ ok: false, error: "study: give at least one value" });
+  });
+});
@@ -0,0 +1,124 @@
+// Cage selection helpers: filter expressions such as `mode=AUTO level=LOW station=3-5`, the
+// quick-select presets built on them, and shift-click ranges over the station grid.
+
+import { levelStatus } from "./level";
+import { MODES } from "./types";
+import type { Cage } from "./types";
+
+/**
+ * One `key=value` term. Terms are ANDed; comma-separated values within a term are ORed and
+ * `key!=value` negates the term. Values with spaces or commas are double-quoted
+ * (`study="Heat stress 2"`). Station values may be ranges (`3-5`), stored low to high.
+ */
+export type SelectionTerm = { key: QueryKey; negate: boolean; values: string[] };
+
+type QueryKey = "mode" | "level" | "station" | "bowl" | "stir" | "valve" | "study" | "treatment" | "program" | "cage" | "service";
+
+const ON = ["on", "open", "yes", "true"];
+const OFF = ["off", "closed", "no", "false"];
+
+/** Allowed values per key; null means free text (matched case-insensitively). */
+const KEY_VALUES: Record<QueryKey, readonly string[] | null> = {
+  mode: MODES.map((m) => m.toLowerCase()),
+  level: ["low", "ok"],
+  station: null,
+  bowl: ["in", "out"],
+  stir: [...ON, ...OFF],
+  valve: [...ON, ...OFF],
+  study: null,
+  treatment: null,
+  program: null,
+  cage: null,
+  service: ["in", "out"],
+};
+
+export const QUERY_KEYS = Object.keys(KEY_VALUES) as QueryKey[];
+
+export type SelectionQuery = { ok: true; terms: SelectionTerm[] } | { ok: false; error: string };
+
+const STATION_VALUE = /^(\d+)(?:-(\d+))?$/;
+
+/** Whitespace-separated tokens; whitespace inside double quotes does not split. */
+const TOKEN = /(?:[^\s"]+|"[^"]*")+/g;
+
+/** Comma-separated values of a term with their quotes removed; commas inside quotes do not split. */
+function splitValues(text: string): string[] {
+  return (text.match(/(?:[^,"]+|"[^"]*")+/g) ?? []).map((v) => v.replace(/"/g, "")).filter(Boolean);
+}
+
+/** `5-3` as `3-5`, so a range typed either way round selects the same stations. */
+function stationRange(value: string): string {
+  const [, from, to] = STATION_VALUE.exec(value)!;
+  return to !== undefined && Number(to) < Number(from) ? `${to}-${from}` : value;
+}
+
+export function parseSelectionQuery(text: string): SelectionQuery {
+  if ((text.match(/"/g) ?? []).length % 2) return { ok: false, error: "Unclosed quote" };
+  const terms: SelectionTerm[] = [];
+  for (const token of text.match(TOKEN) ?? []) {
+    const m = /^([a-z]+)(!?=)(.+)$/is.exec(token);
+    if (!m) return { ok: false, error: `"${token}" is not key=value` };
+    const key = m[1].toLowerCase() as QueryKey;
+    if (!QUERY_KEYS.includes(key)) return { ok: false, error: `Unknown key "${m[1]}" (use ${QUERY_KEYS.join(", ")})` };
+    const values = splitValues(m[3]).map((v) => v.toLowerCase());
+    const allowed = KEY_VALUES[key];
+    const bad = values.find((v) => (key === "station" ? !STATION_VALUE.test(v) : allowed !== null && !allowed.includes(v)));
+    if (bad !== undefined) return { ok: false, error: key === "station" ? `station=${bad}: use a number or a range like 3-5` : `${key}=${bad}: expected ${allowed!.join(", ")}` };
+    if (values.length === 0) return { ok: false, error: `${key}: give at least one value` };
+    terms.push({ key, negate: m[2] === "!=", values: key === "station" ? values.map(stationRange) : values });
+  }
+  return { ok: true, terms };
+}
+
+function inStation(station: number, value: string): boolean {
+  const [, from, to] = STATION_VALUE.exec(value)!;
+  return station >= Number(from) && station <= Number(to ?? from);
+}
+
+function matchesValue(c: Cage, key: QueryKey, value: string): boolean {
+  switch (key) {
+    case "mode":
+      return c.mode.toLowerCase() === value;
+    case "level":
+      return levelStatus(c.levelPct, c.auto).toLowerCase() === value;
+    case "station":
+      return inStation(c.station, value);
+    case "bowl":
+      return c.bowl.toLowerCase() === value;
+    case "stir":
+      return c.stirring === ON.includes(value);
+    case "valve":
+      return c.valveOpen === ON.includes(value);
+    case "study":
+      return (c.study?.studyId ?? "").toLowerCase() === value;
+    case "treatment":
+      return (c.study?.treatment ?? "").toLowerCase() === value;
+    case "program":
+      return value === "none" ? c.programId === null : (c.programId ?? "").toLowerCase() === value;
+    case "cage":
+      return c.name.toLowerCase() === value;
+    case "service":
+      return (c.outOfService !== null) === (value === "out");
+  }
+}
+
+export function matchesQuery(c: Cage, terms: SelectionTerm[]): boolean {
+  return terms.every((t) => t.values.some((v) => matchesValue(c, t.key, v)) !== t.negate);
+}
+
+export const QUICK_SELECTS: { label: string; query: string }[] = [
+  { label: "All MANUAL", query: "mode=MANUAL" },
+  { label: "All AUTO", query: "mode=AUTO" },
+  { label: "Valve open", query: "valve=open" },
+  { label: "Level LOW", query: "level=LOW" },
+  { label: "Bowl OUT", query: "bowl=OUT" },
+  { label: "Out of service", query: "service=OUT" },
+];
+
+/** Cage ids from `fromId` to `toId` inclusive, in grid order; just `toId` if either is not in the grid. */
+export function rangeIds(order: number[], fromId: number, toId: number): number[] {
+  const a = order.indexOf(fromId);
+  const b = order.indexOf(toId);
+  if (a < 0 || b < 0) return [toId];
+  return order.slice(Math.min(a, b), Math.max(a, b) + 1);
+}
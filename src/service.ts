@@ -0,0 +1,146 @@
+// Cage maintenance: out-of-service holds and per-valve flow calibration. A calibration (mL/s,
+// measured with the guided routine below) turns valve-open time into dispensed volume for the
+// reports. Calibrations belong to the valve hardware and are kept per cage name in localStorage.
+
+import type { Actor, CageCore, Clock } from "./core";
+import type { Cage, OutOfService } from "./types";
+
+const STORAGE_KEY = "pncl-cage-monitor/valve-calibrations";
+
+export type ValveCalibration = {
+  mlPerSec: number;
+  openSec: number; // valve-open time of the calibration run, from device reports
+  measuredMl: number; // volume collected during the run
+  calibratedAt: number; // epoch ms
+  calibratedBy: string;
+};
+
+/** Calibrations by cage name. */
+export type ValveCalibrations = Record<string, ValveCalibration>;
+
+export const DEFAULT_CALIBRATION_RUN_SEC = 30;
+export const CALIBRATION_RUN_LIMITS = { minSec: 5, maxSec: 300 } as const;
+
+export function describeOutOfService(s: OutOfService | null): string {
+  return s ? `out of service: ${s.reason}` : "in service";
+}
+
+export function formatFlow(mlPerSec: number): string {
+  return `${mlPerSec.toFixed(2)} mL/s`;
+}
+
+export function describeCalibration(c: ValveCalibration | undefined): string {
+  return c ? formatFlow(c.mlPerSec) : "uncalibrated";
+}
+
+/** Volume through a calibrated valve in `valveOpenMs`, rounded to whole mL; null without a calibration. */
+export function dispensedMl(valveOpenMs: number, calibration: ValveCalibration | undefined): number | null {
+  return calibration ? Math.round((valveOpenMs / 1000) * calibration.mlPerSec) : null;
+}
+
+/** Why the guided routine cannot run on a cage right now, or null when it can. */
+export function calibrationBlocker(c: Cage): string | null {
+  if (c.stopped) return "Cage is latched by an emergency stop";
+  if (c.outOfService) return "Cage is out of service";
+  if (c.mode !== "MANUAL") return "Switch the cage to MANUAL first";
+  if (c.bowl !== "IN") return "Move the bowl IN and place the measuring cylinder under the valve";
+  if (c.valveOpen) return "Close the valve first";
+  return null;
+}
+
+export type CalibrationResult = { ok: true; calibration: ValveCalibration } | { ok: false; error: string };
+
+/** Flow rate from a finished run and the volume the operator measured. */
+export function calibrationFromRun(measuredMl: number, openMs: number, at: number, by: string): CalibrationResult {
+  if (!(openMs > 0)) return { ok: false, error: "The valve was not seen open; run the routine again" };
+  if (!Number.isFinite(measuredMl) || measuredMl <= 0) return { ok: false, error: "Enter the collected volume in mL" };
+  const openSec = Math.round(openMs / 100) / 10;
+  return { ok: true, calibration: { mlPerSec: measuredMl / (openMs / 1000), openSec, measuredMl, calibratedAt: at, calibratedBy: by } };
+}
+
+export interface CalibrationRun {
+  /** Resolves with the device-reported valve-open time in ms once the valve has closed again. */
+  done: Promise<number>;
+  /** Closes the valve and rejects `done`. */
+  cancel(): void;
+}
+
+/**
+ * Timed part of the guided routine: opens the valve, closes it `seconds` after the device
+ * confirmed it open, and measures the open time between the two reports. Interlocks, the
+ * out-of-service hold and emergency stops apply as for any other command.
+ */
+export function runCalibration(core: CageCore, cageId: number, seconds: number, actor: Actor, clock: Clock): CalibrationRun {
+  let openedAt: number | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let finish: (result: { openMs: number } | { error: Error }) => void = () => {};
+  const done = new Promise<number>((resolve, reject) => {
+    finish = (result) => {
+      clearTimeout(timer);
+      unsubscribe();
+      if ("error" in result) reject(result.error);
+      else resolve(result.openMs);
+    };
+  });
+  const unsubscribe = core.onEvent((event) => {
+    if (event.type === "report" && event.report.cageId === cageId) {
+      if (event.report.valveOpen && !event.last.valveOpen) {
+        openedAt = clock.now();
+        timer = setTimeout(() => core.actuate(cageId, { valveOpen: false }, actor), seconds * 1000);
+      } else if (!event.report.valveOpen && event.last.valveOpen && openedAt !== null) {
+        finish({ openMs: clock.now() - openedAt });
+      }
+    } else if (event.type === "blocked" && event.cage.id === cageId) {
+      finish({ error: new Error(`Blocked by interlock: ${event.rule.description}`) });
+    } else if (event.type === "outOfService" && event.cage.id === cageId) {
+      finish({ error: new Error("Cage is out of service") });
+    } else if ((event.type === "stopped" && event.cage.id === cageId) || (event.type === "update" && event.after.id === cageId && event.after.stopped)) {
+      // The stop itself closes the valve; the run cannot be measured.
+      finish({ error: new Error("Emergency stop") });
+    } else if (event.type === "commandFailed" && event.cageId === cageId) {
+      finish({ error: event.error instanceof Error ? event.error : new Error(String(event.error)) });
+    }
+  });
+  core.actuate(cageId, { valveOpen: true }, actor);
+  return {
+    done,
+    cancel() {
+      finish({ error: new Error("Calibration cancelled") });
+      core.actuate(cageId, { valveOpen: false }, actor);
+    },
+  };
+}
+
+export function isValveCalibration(v: unknown): v is ValveCalibration {
+  if (typeof v !== "object" || v === null) return false;
+  const c = v as Record<string, unknown>;
+  return (
+    typeof c.mlPerSec === "number" &&
+    c.mlPerSec > 0 &&
+    Number.isFinite(c.openSec) &&
+    Number.isFinite(c.measuredMl) &&
+    Number.isFinite(c.calibratedAt) &&
+    typeof c.calibratedBy === "string"
+  );
+}
+
+export function loadCalibrations(storage: Storage = localStorage): ValveCalibrations {
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed: unknown = JSON.parse(raw);
+      if (typeof parsed === "object" && parsed !== null) return Object.fromEntries(Object.entries(parsed).filter(([, c]) => isValveCalibration(c)));
+    }
+  } catch (err) {
+    console.error("Failed to load valve calibrations", err);
+  }
+  return {};
+}
+
+export function saveCalibrations(calibrations: ValveCalibrations, storage: Storage = localStorage) {
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(calibrations));
+  } catch (err) {
+    console.error("Failed to save valve calibrations", err);
+  }
+}
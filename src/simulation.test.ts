@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createInitialCages } from "./cages";
+import { createCageCore } from "./core";
+import type { Actor } from "./core";
+import { loadFacilityConfig } from "./facility";
+import { createSimulation, createVirtualClock, simulationStepMs } from "./simulation";
+import type { FeedingProgram } from "./types";
+
+const OPERATOR: Actor = { source: "manual", user: "tester" };
+const EMPTY_STORAGE = { length: 0, key: () => null, getItem: () => null, setItem: () => {}, removeItem: () => {}, clear: () => {} } satisfies Storage;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date(2026, 0, 5, 12, 0, 0));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("virtual clock", () => {
+  it("only moves when stepped, by at most the step, and fires timers at their virtual time", () => {
+    const clock = createVirtualClock(0, 600);
+    const fired: number[] = [];
+    clock.setTimer(() => fired.push(clock.now()), 20);
+    vi.advanceTimersByTime(100); // 60 s of virtual time are due
+    expect(clock.now()).toBe(0);
+    expect(clock.target()).toBe(60_000);
+    expect(clock.step(10_000)).toBe(20);
+    expect(fired).toEqual([20]);
+    expect(clock.step(10_000)).toBe(10_020);
+    expect(clock.step(100_000)).toBe(60_000);
+    expect(clock.step(10_000)).toBe(60_000);
+  });
+});
+
+describe("simulation step", () => {
+  const cages = createInitialCages(loadFacilityConfig());
+
+  it("is no longer than the shortest stir window of an AUTO cage", () => {
+    const program: FeedingProgram = { id: "p", name: "P", weekday: [{ start: "06:00", end: "08:00", stirEveryMin: 15, stirDurationSec: 4, valveEnabled: true }], weekend: [] };
+    expect(simulationStepMs(cages, [])).toBe(10_000);
+    const auto = cages.map((c, i) => (i < 2 ? { ...c, mode: "AUTO" as const, auto: { ...c.auto, stirDurationSec: 6 } } : c));
+    expect(simulationStepMs(auto, [])).toBe(6000);
+    expect(simulationStepMs([...auto, { ...auto[0], programId: "p" }], [program])).toBe(4000);
+    expect(simulationStepMs([{ ...auto[0], auto: { ...auto[0].auto, stirDurationSec: 0.2 } }], [])).toBe(1000);
+  });
+
+  it("runs every 10 s stir window at 600×", async () => {
+    const sim = createSimulation({ cageIds: cages.map((c) => c.id), seed: EMPTY_STORAGE });
+    const core = createCageCore({ cages, controller: sim.controller, clock: sim.clock });
+    const disconnect = core.connect();
+    const id = cages[0].id;
+    const stirring: boolean[] = [];
+    core.onEvent((e) => {
+      if (e.type === "commandDone" && e.cageId === id && e.report && e.report.stirring !== stirring.at(-1)) stirring.push(e.report.stirring);
+    });
+    sim.clock.setSpeed(600);
+    // The simulated hardware answers on the virtual clock, so it has to run before commands settle.
+    const stop = sim.start((at) => core.tick(at), () => simulationStepMs(core.cages(), core.programs()));
+    core.setAutoSettings(id, { stirEveryMin: 1, stirDurationSec: 10 }, OPERATOR);
+    void core.setMode(id, "AUTO", OPERATOR);
+    const anchor = core.cage(id)!.autoAnchor!;
+    await vi.advanceTimersByTimeAsync(1000); // ten minutes of virtual time
+    stop();
+    disconnect();
+    expect(sim.clock.now() - anchor).toBe(600_000);
+    // One start and one stop for each of the ten windows; 50 ms ticks (30 s virtual) used to skip most.
+    expect(stirring).toEqual(Array.from({ length: 10 }, () => [true, false]).flat());
+  });
+});
@@ -0,0 +1,189 @@
+// Simulation mode: a virtual clock that can run faster than real time, simulated station hardware
+// and a simple feed model (animals eat from the bowl, an open valve refills it). The AUTO scheduler,
+// level logic, alarms and the simulated hardware's latency run against the virtual clock, which is
+// stepped in increments no longer than the shortest stir window. State is kept away from live data:
+// cage state lives in memory and the audit log/level history go to their own IndexedDB database.
+
+import { DEFAULT_COMMAND_POLICY, createSimulatedTransport, createTransportController } from "./controller";
+import type { CageController, SimulatedTransport } from "./controller";
+import type { Clock } from "./core";
+import { SCHEDULER_TICK_MS } from "./scheduler";
+import type { AutoSettings, Cage, FeedingProgram } from "./types";
+
+export interface VirtualClock extends Clock {
+  speed(): number;
+  setSpeed(speed: number): void;
+  /** Jump forward without waiting, e.g. to reach the next feeding window. */
+  advance(ms: number): void;
+  /** Virtual time real time has reached at the current speed; `now()` trails it until stepped. */
+  target(): number;
+  /** Moves `now()` towards target() by at most `maxMs`, stopping at the next timer, and runs the timers due. */
+  step(maxMs: number): number;
+  /** Runs `fn` once virtual time has moved on by `ms`. */
+  setTimer(fn: () => void, ms: number): void;
+}
+
+export const SIMULATION_SPEEDS = [1, 10, 60, 300, 600] as const;
+
+export function createVirtualClock(start: number = Date.now(), initialSpeed = 1, realNow: () => number = () => Date.now()): VirtualClock {
+  // target = base + (real - realBase) * speed; rebased whenever the speed changes or time jumps.
+  // now() only moves in steps, so the scheduler sees every step and timers fire in virtual order.
+  let current = start;
+  let base = start;
+  let realBase = realNow();
+  let speed = initialSpeed;
+  const timers: { at: number; fn: () => void }[] = []; // soonest first
+  const target = () => base + (realNow() - realBase) * speed;
+  function rebase() {
+    base = target();
+    realBase = realNow();
+  }
+  function runDue() {
+    while (timers.length > 0 && timers[0].at <= current) timers.shift()!.fn();
+  }
+  return {
+    now: () => current,
+    speed: () => speed,
+    setSpeed(next) {
+      rebase();
+      speed = next;
+    },
+    advance(ms) {
+      rebase();
+      base += ms;
+      current += ms;
+      runDue();
+    },
+    target,
+    step(maxMs) {
+      current = Math.max(current, Math.min(current + maxMs, target(), timers[0]?.at ?? Infinity));
+      runDue();
+      return current;
+    },
+    setTimer(fn, ms) {
+      const at = current + Math.max(0, ms);
+      const i = timers.findIndex((t) => t.at > at);
+      timers.splice(i === -1 ? timers.length : i, 0, { at, fn });
+    },
+  };
+}
+
+// Virtual steps never exceed this, so the feed model and valve hysteresis stay smooth without stirring.
+const MAX_STEP_MS = 10_000;
+// Real-time floor between steps once the simulation has caught up with real time.
+const MIN_FRAME_MS = 15;
+
+/**
+ * Longest virtual step that cannot jump over a stir window of an AUTO cage: its shortest stir
+ * duration, between one scheduler tick and MAX_STEP_MS.
+ */
+export function simulationStepMs(cages: Cage[], programs: FeedingProgram[]): number {
+  const windowsMs = cages
+    .filter((c) => c.mode === "AUTO")
+    .flatMap((c): Pick<AutoSettings, "stirEveryMin" | "stirDurationSec">[] => {
+      const program = c.programId === null ? undefined : programs.find((p) => p.id === c.programId);
+      return program ? [...program.weekday, ...program.weekend] : [c.auto];
+    })
+    .filter((w) => w.stirEveryMin > 0 && w.stirDurationSec > 0)
+    .map((w) => w.stirDurationSec * 1000);
+  return Math.max(SCHEDULER_TICK_MS, Math.min(MAX_STEP_MS, ...windowsMs));
+}
+
+/** How fast animals empty the bowl (while it is IN) and how fast an open valve refills it. */
+export type FeedModel = { eatPctPerHour: number; refillPctPerMin: number };
+
+export const DEFAULT_FEED_MODEL: FeedModel = { eatPctPerHour: 8, refillPctPerMin: 5 };
+
+/** Per-cage appetite between 0.6 and 1.4 so cages do not all run LOW together. */
+function appetite(cageId: number): number {
+  return 0.6 + (((cageId * 37) % 9) / 8) * 0.8;
+}
+
+function createMemoryStorage(seed?: Storage): Storage {
+  const items = new Map<string, string>();
+  if (seed) {
+    for (let i = 0; i < seed.length; i++) {
+      const key = seed.key(i);
+      if (key !== null) items.set(key, seed.getItem(key) ?? "");
+    }
+  }
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (i) => [...items.keys()][i] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, String(value));
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    clear: () => items.clear(),
+  };
+}
+
+export type Simulation = {
+  clock: VirtualClock;
+  transport: SimulatedTransport;
+  controller: CageController;
+  /** Starts from a copy of the saved live state; nothing is written back. */
+  storage: Storage;
+  dbName: string;
+  /**
+   * Steps the virtual clock, the feed model and `onStep` (the scheduler tick) until the returned
+   * function is called: as fast as possible while behind real time, each step at most `maxStepMs`.
+   */
+  start(onStep: (at: number) => void, maxStepMs?: () => number): () => void;
+};
+
+export const SIMULATION_DB_NAME = "pncl-cage-monitor-simulation";
+
+export function createSimulation({ cageIds, feed = DEFAULT_FEED_MODEL, seed = localStorage }: { cageIds: number[]; feed?: FeedModel; seed?: Storage }): Simulation {
+  const clock = createVirtualClock();
+  const transport = createSimulatedTransport({ cageIds, latencyMs: 20, setTimer: clock.setTimer });
+  const controller = createTransportController(transport, DEFAULT_COMMAND_POLICY);
+
+  function step(dtMs: number) {
+    const hours = dtMs / 3600_000;
+    cageIds.forEach((cageId) => {
+      const device = transport.peek(cageId);
+      if (!device) return;
+      let level = device.levelPct;
+      if (device.bowl === "IN") level -= feed.eatPctPerHour * appetite(cageId) * hours;
+      if (device.valveOpen) level += feed.refillPctPerMin * 60 * hours;
+      if (Math.abs(level - device.levelPct) >= 0.01) transport.setLevel(cageId, level);
+    });
+  }
+
+  return {
+    clock,
+    transport,
+    controller,
+    storage: createMemoryStorage(seed),
+    dbName: SIMULATION_DB_NAME,
+    start(onStep, maxStepMs = () => MAX_STEP_MS) {
+      let last = clock.now();
+      let timer: ReturnType<typeof setTimeout>;
+      function run() {
+        const maxMs = maxStepMs();
+        const at = clock.step(maxMs);
+        if (at > last) {
+          step(at - last);
+          last = at;
+          onStep(at);
+        }
+        // A full step behind real time: step again right away. Otherwise wait until one is due.
+        const behind = clock.target() - at;
+        timer = setTimeout(run, behind >= maxMs ? 0 : Math.min(SCHEDULER_TICK_MS, Math.max(MIN_FRAME_MS, (maxMs - behind) / clock.speed())));
+      }
+      timer = setTimeout(run, 0);
+      return () => clearTimeout(timer);
+    },
+  };
+}
+
+/** `?simulation` in the URL or VITE_SIMULATION=true starts the monitor in simulation mode. */
+export function isSimulationRequested(): boolean {
+  return new URLSearchParams(window.location.search).has("simulation") || import.meta.env.VITE_SIMULATION === "true";
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { createInitialCages } from "./cages";
+import { loadFacilityConfig } from "./facility";
+import { assignTreatmentColors, treatmentColor } from "./study";
+import type { Cage } from "./types";
+
+function onStudy(treatments: [string, string][]): Cage[] {
+  const base = createInitialCages(loadFacilityConfig());
+  return treatments.map(([studyId, treatment], i) => ({ ...base[i], study: { studyId, treatment, animalId: "", startDate: "", endDate: "" } }));
+}
+
+describe("treatment colors", () => {
+  it("gives the treatments of a study distinct colors in first-seen order", () => {
+    // "0%" and "20%", and "A" and "K", shared a color when it was hashed from the name.
+    const colors = assignTreatmentColors({}, onStudy([["S1", "0%"], ["S1", "20%"], ["S1", "A"], ["S1", "K"], ["S1", "0%"]]));
+    expect(colors).toEqual({ S1: { "0%": 0, "20%": 1, A: 2, K: 3 } });
+    const tags = ["0%", "20%", "A", "K"].map((treatment) => treatmentColor(colors, { studyId: "S1", treatment }));
+    expect(new Set(tags).size).toBe(4);
+  });
+
+  it("keeps assigned colors when treatments come and go, and reuses freed slots only for new ones", () => {
+    const first = assignTreatmentColors({}, onStudy([["S1", "A"], ["S1", "B"], ["S2", "A"]]));
+    expect(assignTreatmentColors(first, onStudy([["S1", "B"]]))).toBe(first);
+    expect(assignTreatmentColors(first, onStudy([["S1", "C"], ["S1", "B"]]))).toEqual({ S1: { A: 0, B: 1, C: 2 }, S2: { A: 0 } });
+    expect(assignTreatmentColors({ S1: { B: 1 } }, onStudy([["S1", "C"]]))).toEqual({ S1: { B: 1, C: 0 } });
+  });
+
+  it("shows gray for a treatment without a slot", () => {
+    expect(treatmentColor({}, { studyId: "S1", treatment: "A" })).toBe("bg-slate-400");
+  });
+});
@@ -0,0 +1,108 @@
+// Study metadata per cage: which study, treatment group and animal a cage holds, and for when.
+// Treatment tag colors are assigned per study as treatments first appear and kept in localStorage.
+
+import type { Cage, StudyAssignment } from "./types";
+
+const COLORS_KEY = "pncl-cage-monitor/treatment-colors";
+
+export const EMPTY_STUDY: StudyAssignment = { studyId: "", treatment: "", animalId: "", startDate: "", endDate: "" };
+
+// Literal class names so Tailwind picks them up.
+const TREATMENT_PALETTE = [
+  "bg-rose-500",
+  "bg-amber-500",
+  "bg-lime-600",
+  "bg-cyan-600",
+  "bg-indigo-500",
+  "bg-fuchsia-500",
+  "bg-orange-600",
+  "bg-teal-600",
+  "bg-pink-700",
+  "bg-blue-700",
+];
+
+function unique(values: string[]) {
+  return [...new Set(values.filter(Boolean))].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+}
+
+export function listStudies(cages: Cage[]): string[] {
+  return unique(cages.map((c) => c.study?.studyId ?? ""));
+}
+
+export function listTreatments(cages: Cage[], studyId = ""): string[] {
+  return unique(cages.filter((c) => !studyId || c.study?.studyId === studyId).map((c) => c.study?.treatment ?? ""));
+}
+
+/** Palette slot per treatment, per study: studyId → treatment → index into the palette. */
+export type TreatmentColors = Record<string, Record<string, number>>;
+
+/**
+ * `colors` with a slot for every treatment on `cages` that has none yet: the lowest slot no other
+ * treatment of the study holds, so treatments of a study share a color only past the palette size.
+ * Returns `colors` itself when nothing was added.
+ */
+export function assignTreatmentColors(colors: TreatmentColors, cages: Cage[]): TreatmentColors {
+  let next = colors;
+  cages.forEach((c) => {
+    if (!c.study?.treatment) return;
+    const { studyId, treatment } = c.study;
+    const slots = next[studyId] ?? {};
+    if (treatment in slots) return;
+    const taken = new Set(Object.values(slots));
+    let slot = 0;
+    while (taken.has(slot) && slot < TREATMENT_PALETTE.length) slot++;
+    if (slot === TREATMENT_PALETTE.length) slot = Object.keys(slots).length % TREATMENT_PALETTE.length;
+    next = { ...next, [studyId]: { ...slots, [treatment]: slot } };
+  });
+  return next;
+}
+
+/** Tag color of a study's treatment; gray until assignTreatmentColors has given it a slot. */
+export function treatmentColor(colors: TreatmentColors, study: Pick<StudyAssignment, "studyId" | "treatment">): string {
+  const slot = colors[study.studyId]?.[study.treatment];
+  return slot === undefined ? "bg-slate-400" : TREATMENT_PALETTE[slot % TREATMENT_PALETTE.length];
+}
+
+function slotsOf(value: unknown): Record<string, number> {
+  if (typeof value !== "object" || value === null) return {};
+  return Object.fromEntries(Object.entries(value).filter((e): e is [string, number] => Number.isInteger(e[1]) && e[1] >= 0));
+}
+
+export function loadTreatmentColors(storage: Storage = localStorage): TreatmentColors {
+  try {
+    const raw = storage.getItem(COLORS_KEY);
+    if (raw) {
+      const parsed: unknown = JSON.parse(raw);
+      if (typeof parsed === "object" && parsed !== null) return Object.fromEntries(Object.entries(parsed).map(([studyId, slots]) => [studyId, slotsOf(slots)]));
+    }
+  } catch (err) {
+    console.error("Failed to load treatment colors", err);
+  }
+  return {};
+}
+
+export function saveTreatmentColors(colors: TreatmentColors, storage: Storage = localStorage) {
+  try {
+    storage.setItem(COLORS_KEY, JSON.stringify(colors));
+  } catch (err) {
+    console.error("Failed to save treatment colors", err);
+  }
+}
+
+export function validateStudy(s: StudyAssignment): string | null {
+  if (!s.studyId.trim()) return "Study ID is required";
+  if (!s.treatment.trim()) return "Treatment group is required";
+  if (s.startDate && s.endDate && s.endDate < s.startDate) return "End date is before start date";
+  return null;
+}
+
+export function describeStudy(s: StudyAssignment | null): string {
+  if (!s) return "none";
+  const dates = s.startDate || s.endDate ? ` ${s.startDate || "…"}–${s.endDate || "…"}` : "";
+  return `${s.studyId}/${s.treatment}${s.animalId ? ` animal ${s.animalId}` : ""}${dates}`;
+}
+
+export function matchesStudyFilter(c: Cage, studyId: string, treatment: string): boolean {
+  if (!studyId && !treatment) return true;
+  return !!c.study && (!studyId || c.study.studyId === studyId) && (!treatment || c.study.treatment === treatment);
+}
@@ -0,0 +1,6 @@
+export { SYNCED_FIELDS, SYNC_PROTOCOL_VERSION, applySyncedState, describeConflict, sameSyncedState, syncedState } from "./protocol";
+export type { CageWrite, SyncClientMessage, SyncServerMessage, SyncedCageState, VersionedCageState } from "./protocol";
+export { connectSync, createSyncTracker } from "./syncClient";
+export type { SyncConflict, SyncConnection, SyncOptions, SyncStatus, SyncTracker } from "./syncClient";
+export { createVersionStore } from "./versionStore";
+export type { VersionStore, WriteResult } from "./versionStore";
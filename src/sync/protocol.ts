@@ -0,0 +1,79 @@
+// Multi-screen sync protocol (v3). Every open monitor connects to the sync server, which holds
+// the authoritative operator-owned state of each cage with a version number. A write names the
+// version it was based on; a write based on an older version is refused with a conflict.
+
+import type { Cage } from "../types";
+
+// v2: the out-of-service hold is shared; v3: the emergency-stop latch too.
+export const SYNC_PROTOCOL_VERSION = 3;
+
+/**
+ * Cage fields shared between screens. Selection stays per screen; actuator and level state is
+ * not synced because every screen receives it from the controller.
+ */
+export const SYNCED_FIELDS = ["mode", "auto", "autoAnchor", "autoExitAt", "programId", "study", "outOfService", "stopped"] as const;
+
+export type SyncedCageState = Pick<Cage, (typeof SYNCED_FIELDS)[number]>;
+
+export type VersionedCageState = {
+  cageId: number;
+  version: number;
+  state: SyncedCageState;
+  updatedBy: string;
+  updatedAt: number;
+};
+
+export type CageWrite = {
+  writeId: string;
+  cageId: number;
+  baseVersion: number;
+  state: SyncedCageState;
+  updatedBy: string;
+  updatedAt: number;
+};
+
+/** Monitor → sync server. `hello` offers the screen's own state for cages the server has not seen yet. */
+export type SyncClientMessage =
+  | { type: "hello"; protocol: number; user: string; cages: { cageId: number; state: SyncedCageState }[] }
+  | { type: "write"; write: CageWrite };
+
+/** Sync server → monitor. `update` goes to every screen; `writeId` is set on the writer's copy. */
+export type SyncServerMessage =
+  | { type: "snapshot"; cages: VersionedCageState[] }
+  | { type: "update"; cage: VersionedCageState; writeId?: string }
+  | { type: "conflict"; writeId: string; current: VersionedCageState; attempted: SyncedCageState };
+
+export function syncedState(c: Cage): SyncedCageState {
+  const { mode, auto, autoAnchor, autoExitAt, programId, study, outOfService, stopped } = c;
+  return { mode, auto, autoAnchor, autoExitAt, programId, study, outOfService, stopped };
+}
+
+export function applySyncedState(c: Cage, state: SyncedCageState): Cage {
+  return { ...c, ...state };
+}
+
+export function sameSyncedState(a: SyncedCageState, b: SyncedCageState): boolean {
+  return JSON.stringify(syncedStateKey(a)) === JSON.stringify(syncedStateKey(b));
+}
+
+// Field order normalised so states built in different places compare equal.
+function syncedStateKey(s: SyncedCageState) {
+  return SYNCED_FIELDS.map((f) => s[f]);
+}
+
+function describeValue(field: (typeof SYNCED_FIELDS)[number], s: SyncedCageState): string {
+  if (field === "mode") return s.mode;
+  if (field === "programId") return s.programId ?? "fixed interval";
+  if (field === "study") return s.study ? `${s.study.studyId}/${s.study.treatment}` : "none";
+  if (field === "outOfService") return s.outOfService ? `out of service (${s.outOfService.reason})` : "in service";
+  if (field === "stopped") return s.stopped ? "E-STOP" : "running";
+  if (field === "auto") return `stir ${s.auto.stirEveryMin} min/${s.auto.stirDurationSec} s, valve ${s.auto.valveOpenBelowPct}–${s.auto.valveCloseAbovePct} %`;
+  return "";
+}
+
+/** Human summary of what differs between a refused write and the state that won, e.g. `mode MANUAL → kept OFF`. */
+export function describeConflict(attempted: SyncedCageState, current: SyncedCageState): string {
+  const fields = (["mode", "auto", "programId", "study", "outOfService", "stopped"] as const).filter((f) => JSON.stringify(attempted[f]) !== JSON.stringify(current[f]));
+  if (!fields.length) return "AUTO schedule";
+  return fields.map((f) => `${f === "programId" ? "program" : f === "auto" ? "AUTO settings" : f === "outOfService" ? "service" : f === "stopped" ? "stop" : f} ${describeValue(f, attempted)} → kept ${describeValue(f, current)}`).join("; ");
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { createInitialCages } from "../cages";
+import { loadFacilityConfig } from "../facility";
+import type { Cage } from "../types";
+import { syncedState } from "./protocol";
+import type { SyncedCageState, VersionedCageState } from "./protocol";
+import { createSyncTracker } from "./syncClient";
+import { createVersionStore } from "./versionStore";
+
+const AT = new Date(2026, 0, 5, 12, 0, 0).getTime();
+
+function cages(): Cage[] {
+  return createInitialCages(loadFacilityConfig()).slice(0, 2);
+}
+
+function versioned(cageId: number, version: number, state: SyncedCageState, updatedBy = "other"): VersionedCageState {
+  return { cageId, version, state, updatedBy, updatedAt: AT };
+}
+
+describe("version store", () => {
+  it("accepts a write on the current version and bumps the version", () => {
+    const store = createVersionStore();
+    const [c] = cages();
+    store.seed(c.id, syncedState(c), "a", AT);
+    const result = store.write({ writeId: "w1", cageId: c.id, baseVersion: 1, state: { ...syncedState(c), mode: "MANUAL" }, updatedBy: "a", updatedAt: AT });
+    expect(result).toMatchObject({ ok: true, changed: true, cage: { version: 2, state: { mode: "MANUAL" } } });
+  });
+
+  it("refuses a stale write and returns the current state", () => {
+    const store = createVersionStore();
+    const [c] = cages();
+    store.seed(c.id, syncedState(c), "a", AT);
+    store.write({ writeId: "w1", cageId: c.id, baseVersion: 1, state: { ...syncedState(c), mode: "MANUAL" }, updatedBy: "a", updatedAt: AT });
+    const stale = store.write({ writeId: "w2", cageId: c.id, baseVersion: 1, state: { ...syncedState(c), mode: "AUTO" }, updatedBy: "b", updatedAt: AT });
+    expect(stale).toMatchObject({ ok: false, current: { version: 2, updatedBy: "a", state: { mode: "MANUAL" } } });
+    expect(store.snapshot()[0].state.mode).toBe("MANUAL");
+  });
+
+  it("accepts a stale write that asks for the current state without a new version", () => {
+    const store = createVersionStore();
+    const [c] = cages();
+    store.seed(c.id, syncedState(c), "a", AT);
+    const manual = { ...syncedState(c), mode: "MANUAL" as const };
+    store.write({ writeId: "w1", cageId: c.id, baseVersion: 1, state: manual, updatedBy: "a", updatedAt: AT });
+    expect(store.write({ writeId: "w2", cageId: c.id, baseVersion: 1, state: manual, updatedBy: "b", updatedAt: AT })).toMatchObject({ ok: true, changed: false, cage: { version: 2 } });
+  });
+
+  it("keeps the first seed of a cage", () => {
+    const store = createVersionStore();
+    const [c] = cages();
+    store.seed(c.id, syncedState(c), "a", AT);
+    store.seed(c.id, { ...syncedState(c), mode: "AUTO" }, "b", AT);
+    expect(store.snapshot()).toEqual([expect.objectContaining({ version: 1, updatedBy: "a", state: syncedState(c) })]);
+  });
+});
+
+describe("sync tracker", () => {
+  it("applies server state to cages that were not edited locally", () => {
+    const tracker = createSyncTracker();
+    const [c] = cages();
+    const server = versioned(c.id, 3, { ...syncedState(c), mode: "AUTO" });
+    expect(tracker.reconcile([server], [c])).toEqual({ apply: [server], conflicts: [] });
+  });
+
+  it("keeps an offline edit pending when nobody else changed the cage", () => {
+    const tracker = createSyncTracker();
+    const [c] = cages();
+    tracker.reconcile([versioned(c.id, 1, syncedState(c))], [c]);
+    tracker.disconnected();
+    const edited = { ...c, mode: "MANUAL" as const };
+    expect(tracker.reconcile([versioned(c.id, 1, syncedState(c))], [edited])).toEqual({ apply: [], conflicts: [] });
+    expect(tracker.changes([edited], "me", AT)).toEqual([expect.objectContaining({ cageId: c.id, baseVersion: 1, state: syncedState(edited) })]);
+  });
+
+  it("reports an offline edit overtaken by another screen and applies the newer state", () => {
+    const tracker = createSyncTracker();
+    const [c] = cages();
+    tracker.reconcile([versioned(c.id, 1, syncedState(c))], [c]);
+    tracker.disconnected();
+    const edited = { ...c, mode: "MANUAL" as const };
+    const newer = versioned(c.id, 2, { ...syncedState(c), mode: "AUTO" });
+    expect(tracker.reconcile([newer], [edited])).toEqual({ apply: [newer], conflicts: [{ cageId: c.id, attempted: syncedState(edited), current: newer }] });
+    expect(tracker.changes([{ ...c, mode: "AUTO" }], "me", AT)).toEqual([]);
+  });
+
+  it("ignores an update older than the state it already knows", () => {
+    const tracker = createSyncTracker();
+    const [c] = cages();
+    tracker.reconcile([versioned(c.id, 1, syncedState(c))], [c]);
+    const auto = { ...c, mode: "AUTO" as const };
+    tracker.accept(versioned(c.id, 3, syncedState(auto)));
+    tracker.accept(versioned(c.id, 2, { ...syncedState(c), mode: "MANUAL" }));
+    // Still based on version 3: the cage showing AUTO has nothing to send.
+    expect(tracker.changes([auto], "me", AT)).toEqual([]);
+    expect(tracker.changes([{ ...c, mode: "OFF" }], "me", AT)).toEqual([expect.objectContaining({ baseVersion: 3 })]);
+  });
+
+  it("settles the in-flight write named by the update and sends one write per cage at a time", () => {
+    const tracker = createSyncTracker();
+    const [c] = cages();
+    tracker.reconcile([versioned(c.id, 1, syncedState(c))], [c]);
+    const edited = { ...c, mode: "MANUAL" as const };
+    const [write] = tracker.changes([edited], "me", AT);
+    expect(tracker.changes([{ ...edited, mode: "AUTO" }], "me", AT)).toEqual([]);
+    expect(tracker.accept(versioned(c.id, 2, write.state, "me"), write.writeId)).toBe(write);
+    expect(tracker.changes([edited], "me", AT)).toEqual([]);
+  });
+});
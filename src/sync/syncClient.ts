@@ -0,0 +1,146 @@
+// Browser side of multi-screen sync: a WebSocket connection to the sync server and a tracker that
+// turns local cage changes into versioned writes and decides what incoming state to apply.
+
+import { SYNC_PROTOCOL_VERSION, sameSyncedState, syncedState } from "./protocol";
+import type { CageWrite, SyncClientMessage, SyncServerMessage, SyncedCageState, VersionedCageState } from "./protocol";
+import type { Cage } from "../types";
+
+export type SyncStatus = "connecting" | "connected" | "disconnected";
+
+export type SyncOptions = {
+  url: string;
+  user: string;
+  /** State offered to the server on every (re)connect, for cages it has not seen yet. */
+  localState: () => { cageId: number; state: SyncedCageState }[];
+  onMessage: (message: SyncServerMessage) => void;
+  onStatus?: (status: SyncStatus) => void;
+  reconnectMs?: number;
+};
+
+export interface SyncConnection {
+  /** False when the server is not connected; the change is sent after the next snapshot instead. */
+  send(write: CageWrite): boolean;
+  close(): void;
+}
+
+/** Keep a sync connection open (reconnecting as needed) until `close` is called. */
+export function connectSync({ url, user, localState, onMessage, onStatus, reconnectMs = 3000 }: SyncOptions): SyncConnection {
+  let socket: WebSocket | null = null;
+  let retry: ReturnType<typeof setTimeout> | undefined;
+  let closed = false;
+
+  function post(message: SyncClientMessage): boolean {
+    if (socket?.readyState !== WebSocket.OPEN) return false;
+    socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  function open() {
+    onStatus?.("connecting");
+    socket = new WebSocket(url);
+    socket.onopen = () => {
+      post({ type: "hello", protocol: SYNC_PROTOCOL_VERSION, user, cages: localState() });
+      onStatus?.("connected");
+    };
+    socket.onmessage = (e) => {
+      let message: SyncServerMessage;
+      try {
+        message = JSON.parse(String(e.data));
+      } catch {
+        return;
+      }
+      if (message?.type === "snapshot" || message?.type === "update" || message?.type === "conflict") onMessage(message);
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      onStatus?.("disconnected");
+      retry = setTimeout(open, reconnectMs);
+    };
+  }
+
+  open();
+  return {
+    send: (write) => post({ type: "write", write }),
+    close() {
+      closed = true;
+      clearTimeout(retry);
+      socket?.close();
+      onStatus?.("disconnected");
+    },
+  };
+}
+
+/** A local change that lost against a newer change from another screen. */
+export type SyncConflict = { cageId: number; attempted: SyncedCageState; current: VersionedCageState };
+
+export interface SyncTracker {
+  /** Whether a snapshot has been received since the last (re)connect. */
+  ready(): boolean;
+  /**
+   * Compares a snapshot with the local cages. Returns the server state to apply and the local
+   * changes made while disconnected that were overtaken by another screen. Local changes to
+   * cages nobody else touched are kept and sent by the next `changes` call.
+   */
+  reconcile(server: VersionedCageState[], cages: Cage[]): { apply: VersionedCageState[]; conflicts: SyncConflict[] };
+  /** Records server state (an update, or the winner of a conflict). Returns the write it settles, if any. */
+  accept(cage: VersionedCageState, writeId?: string): CageWrite | undefined;
+  /** Writes for cages that differ from the server state; at most one write per cage is in flight. */
+  changes(cages: Cage[], user: string, at: number): CageWrite[];
+  disconnected(): void;
+}
+
+export function createSyncTracker(): SyncTracker {
+  const known = new Map<number, VersionedCageState>();
+  const inFlight = new Map<number, CageWrite>();
+  let isReady = false;
+  let nextWrite = 1;
+
+  return {
+    ready: () => isReady,
+    reconcile(server, cages) {
+      const apply: VersionedCageState[] = [];
+      const conflicts: SyncConflict[] = [];
+      server.forEach((s) => {
+        const c = cages.find((cc) => cc.id === s.cageId);
+        if (!c) return;
+        const local = syncedState(c);
+        const last = known.get(s.cageId);
+        const editedOffline = last !== undefined && !sameSyncedState(local, last.state);
+        if (!sameSyncedState(local, s.state) && !(editedOffline && last.version === s.version)) {
+          apply.push(s);
+          if (editedOffline) conflicts.push({ cageId: s.cageId, attempted: local, current: s });
+        }
+        // Offline edits to a cage nobody else changed stay pending against the version they were based on.
+        known.set(s.cageId, editedOffline && last.version === s.version ? last : s);
+      });
+      isReady = true;
+      return { apply, conflicts };
+    },
+    accept(cage, writeId) {
+      const prev = known.get(cage.cageId);
+      if (!prev || prev.version <= cage.version) known.set(cage.cageId, cage);
+      const write = inFlight.get(cage.cageId);
+      if (write && write.writeId === writeId) {
+        inFlight.delete(cage.cageId);
+        return write;
+      }
+      return undefined;
+    },
+    changes(cages, user, at) {
+      if (!isReady) return [];
+      return cages.flatMap((c) => {
+        const last = known.get(c.id);
+        const state = syncedState(c);
+        if (inFlight.has(c.id) || (last && sameSyncedState(state, last.state))) return [];
+        const write: CageWrite = { writeId: `${at}-${nextWrite++}`, cageId: c.id, baseVersion: last?.version ?? 0, state, updatedBy: user, updatedAt: at };
+        inFlight.set(c.id, write);
+        return [write];
+      });
+    },
+    disconnected() {
+      isReady = false;
+      inFlight.clear();
+    },
+  };
+}
@@ -0,0 +1,36 @@
+// Authoritative versioned cage state held by the sync server. Kept free of I/O so the server
+// (server/syncServer.ts) only has to move messages.
+
+import { sameSyncedState } from "./protocol";
+import type { CageWrite, SyncedCageState, VersionedCageState } from "./protocol";
+
+export type WriteResult = { ok: true; cage: VersionedCageState; changed: boolean } | { ok: false; current: VersionedCageState };
+
+export interface VersionStore {
+  snapshot(): VersionedCageState[];
+  /** Adopts a screen's state for cages nobody has written yet (version 1). */
+  seed(cageId: number, state: SyncedCageState, user: string, at: number): void;
+  /**
+   * Accepts a write based on the current version. A write based on an older version is refused
+   * unless it asks for exactly the current state (two screens making the same change).
+   */
+  write(write: CageWrite): WriteResult;
+}
+
+export function createVersionStore(): VersionStore {
+  const cages = new Map<number, VersionedCageState>();
+  return {
+    snapshot: () => [...cages.values()].sort((a, b) => a.cageId - b.cageId),
+    seed(cageId, state, user, at) {
+      if (!cages.has(cageId)) cages.set(cageId, { cageId, version: 1, state, updatedBy: user, updatedAt: at });
+    },
+    write({ cageId, baseVersion, state, updatedBy, updatedAt }) {
+      const current = cages.get(cageId);
+      if (current && sameSyncedState(current.state, state)) return { ok: true, cage: current, changed: false };
+      if (current && current.version !== baseVersion) return { ok: false, current };
+      const cage = { cageId, version: (current?.version ?? 0) + 1, state, updatedBy, updatedAt };
+      cages.set(cageId, cage);
+      return { ok: true, cage, changed: true };
+    },
+  };
+}
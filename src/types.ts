@@ -0,0 +1,86 @@
+// Shared cage model types used by the UI and the hardware controller layer.
+
+export const MODES = ["OFF", "MANUAL", "SEMI", "AUTO"] as const;
+export type Mode = typeof MODES[number];
+
+export type Bowl = "IN" | "OUT";
+export type Level = "OK" | "LOW"; // derived from levelPct and the AUTO thresholds
+
+export type AutoSettings = {
+  stirEveryMin: number;
+  stirDurationSec: number;
+  autoExitEnabled: boolean;
+  autoExitTime: string; // HH:MM 24h
+  valveOpenBelowPct: number; // AUTO opens the valve at or below this level
+  valveCloseAbovePct: number; // ...and closes it again at or above this level
+};
+
+/** One feeding window of a program: bowl IN from `start` to `end`, with its own stir cadence. */
+export type ProgramWindow = {
+  start: string; // HH:MM 24h, inclusive
+  end: string; // HH:MM 24h, exclusive, later than start (windows do not cross midnight)
+  stirEveryMin: number; // 0 = no stirring in this window
+  stirDurationSec: number;
+  valveEnabled: boolean; // level-driven valve allowed in this window
+};
+
+/** Named time-of-day feeding program; AUTO cages running it keep the bowl OUT outside its windows. */
+export type FeedingProgram = {
+  id: string;
+  name: string;
+  weekday: ProgramWindow[]; // Monday–Friday
+  weekend: ProgramWindow[]; // Saturday and Sunday
+};
+
+/** Named AUTO settings with an optional feeding program, applied to cages from the preset library. */
+export type AutoPreset = {
+  id: string;
+  name: string;
+  auto: AutoSettings;
+  programId: string | null;
+};
+
+export type StudyAssignment = {
+  studyId: string;
+  treatment: string; // dietary treatment group
+  animalId: string;
+  startDate: string; // YYYY-MM-DD, "" if open
+  endDate: string; // YYYY-MM-DD, "" if open
+};
+
+/** Maintenance hold: the cage is left alone by every control path until it is returned to service. */
+export type OutOfService = {
+  reason: string;
+  since: number; // epoch ms
+  by: string; // account that took the cage out of service
+};
+
+/** Latched emergency stop; only an explicit reset clears it (see src/emergencyStop.ts). */
+export type EmergencyStop = {
+  scope: "facility" | "station";
+  station: number | null; // the station pressed, for a station stop
+  at: number; // epoch ms
+  by: string;
+  modeBefore: Mode;
+};
+
+export type Cage = {
+  id: number; // 0-based, in facility config order
+  room: string; // room id from the facility config
+  station: number; // station number, unique across the facility
+  cageNumber: number; // 1-based within the station
+  name: string; // display name from the facility config (C1..C48 by default)
+  mode: Mode;
+  bowl: Bowl;
+  stirring: boolean;
+  valveOpen: boolean;
+  levelPct: number; // feed level 0..100 %, reported by the controller
+  selected: boolean;
+  auto: AutoSettings;
+  autoAnchor: number | null; // epoch ms the current AUTO stir cycle started from
+  autoExitAt: number | null; // epoch ms of the pending auto-exit, if enabled
+  programId: string | null; // feeding program run in AUTO; null = fixed stir interval from `auto`
+  study: StudyAssignment | null;
+  outOfService: OutOfService | null;
+  stopped: EmergencyStop | null;
+};
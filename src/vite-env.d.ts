@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** WebSocket URL of the SEMI API relay, e.g. ws://localhost:8787/monitor. Unset = API bridge off. */
+  readonly VITE_SEMI_API_URL?: string;
+  /** How long to wait for the controller to answer one command attempt (ms). Default 3000. */
+  readonly VITE_COMMAND_TIMEOUT_MS?: string;
+  /** Extra attempts after a command times out or fails before it is reported failed. Default 2. */
+  readonly VITE_COMMAND_RETRIES?: string;
+  /** WebSocket URL of the multi-screen sync server, e.g. ws://localhost:8788/sync. Unset = this screen works alone. */
+  readonly VITE_SYNC_URL?: string;
+  /** "true" starts the monitor in simulation mode (virtual clock, feed model); same as `?simulation`. */
+  readonly VITE_SIMULATION?: string;
+}